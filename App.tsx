@@ -1,87 +1,502 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { Settings, Activity, Video, BarChart2, ClipboardList, Trash2, X, Save, HelpCircle, LogOut, FilePlus, Monitor, ZoomIn, ZoomOut, Info, Cloud, WifiOff, FolderUp } from 'lucide-react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { Settings, Activity, Video, BarChart2, ClipboardList, Trash2, X, Save, HelpCircle, LogOut, FilePlus, Monitor, ZoomIn, ZoomOut, Info, Cloud, WifiOff, FolderUp, FolderOpen, Package, PackageOpen, Undo2, Redo2, History, FileSpreadsheet, LayoutTemplate, Layers, Calculator, Grid, ShieldAlert } from 'lucide-react';
+import XLSX from 'xlsx';
 import VideoAnalyzer from './components/VideoAnalyzer';
 import VideoRecorder from './components/VideoRecorder';
 import YamazumiChart from './components/YamazumiChart';
 import WorkStudy from './components/WorkStudy';
+import SignalTraceChart from './components/SignalTraceChart';
+import CycleReview from './components/CycleReview';
+import ProjectLibrary from './components/ProjectLibrary';
+import RevisionHistory from './components/RevisionHistory';
+import Rearrangement from './components/Rearrangement';
+import ProductionDigitalTwin from './components/ProductionDigitalTwin';
+import SimulationAnalysis from './components/SimulationAnalysis';
+import MultiAxialAnalysis from './components/MultiAxialAnalysis';
+import ErgonomicsAnalysis from './components/ErgonomicsAnalysis';
+import VideoRelinkDialog from './components/VideoRelinkDialog';
 import { ProjectRepository } from './services/ProjectRepository';
-import { Cycle, ProjectData, Rect, TriggerStep, WorkStudyTask, SyncStatus } from './types';
+import { VideoStore, hashVideo } from './services/VideoStore';
+import { verifyPermission } from './utils/fileAccess';
+import { PROJECT_SCHEMA_VERSION, emptyProject, formatIssues, readProject } from './utils/projectSchema';
+import { BUNDLE_EXTENSION, createBundle, readBundle } from './utils/projectBundle';
+import { buildWorkStudyReport } from './utils/reports';
+import { diffSnapshots, emptyHistory, pushEntry, redoStep, undoStep } from './utils/history';
+import { flagOutliers } from './utils/outliers';
+import { capTrace } from './utils/signalTrace';
+import { applyRating } from './utils/rating';
+import { DEFAULT_OBSERVATION_TARGET } from './utils/standardTime';
+import { applyCycleToTasks, removeCyclesFromTasks } from './utils/cycleMapping';
+import { DetectorConfig, thresholdsFromSensitivity } from './utils/cycleDetector';
+import { CV_CONFIG } from './utils/vision';
+import { actionsForRange, labelFromActions } from './utils/actionTimeline';
+import { Cycle, ProjectData, Rect, TriggerStep, WorkStudyTask, SyncStatus, ActivityType, SignalTrace, DetectionThresholds, LineConfig, YamazumiBaseline, ProjectSummary, VideoRef, ReferenceImages, ProjectHistory, HistorySnapshot, ProjectRevision, ModuleStates, ObservationTarget } from './types';
+
+type MultiAxialState = NonNullable<ModuleStates['multiAxial']>;
+
+// One operator and one machine to start a man-machine chart from
+const DEFAULT_MULTI_AXIAL: MultiAxialState = {
+  resources: [
+      { id: 1, name: 'Operator', type: 'MAN', color: '#3b82f6', offset: 0 },
+      { id: 2, name: 'Machine', type: 'MACHINE', color: '#f97316', offset: 0 },
+  ],
+  events: [],
+};
+const NO_DEPENDENCIES: Record<string, string[]> = {};
+
+const resolveAction = <T,>(action: React.SetStateAction<T>, prev: T): T =>
+  typeof action === 'function' ? (action as (prev: T) => T)(prev) : action;
+
+// Video URLs of the multi-axial resources are object URLs of this session only
+const persistableModules = (modules: ModuleStates): ModuleStates => modules.multiAxial
+  ? { ...modules, multiAxial: { ...modules.multiAxial, resources: modules.multiAxial.resources.map(({ src, ...r }) => r) } }
+  : modules;
+
+const defaultTasks = (): WorkStudyTask[] => [{ id: crypto.randomUUID(), name: "งานย่อยที่ 1", rounds: [], activity: 'Operation', rating: 100, allowance: 10 }];
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'record' | 'analyze' | 'workstudy'>('record');
+  const [activeTab, setActiveTab] = useState<'record' | 'analyze' | 'workstudy' | 'balance' | 'twin' | 'simulation' | 'multiaxial' | 'ergonomics'>('record');
   
   // App State with Persistence
   const [videoSrc, setVideoSrc] = useState<string | null>(null);
+  const [videoRef, setVideoRef] = useState<VideoRef | null>(null); // Stored source video of the project
   const [cycles, setCycles] = useState<Cycle[]>([]);
   const [taktTime, setTaktTime] = useState<number>(10);
   const [sensitivity, setSensitivity] = useState<number>(6);
   const [refRect, setRefRect] = useState<Rect | null>(null);
   const [triggerSteps, setTriggerSteps] = useState<TriggerStep[]>([]);
   const [workStudyTasks, setWorkStudyTasks] = useState<WorkStudyTask[]>([]);
+  const [signalTrace, setSignalTrace] = useState<SignalTrace | null>(null);
+  const [thresholds, setThresholds] = useState<DetectionThresholds | null>(null); // null = derived from sensitivity
+  const [frameRate, setFrameRate] = useState<number | null>(null);
+  const [line, setLine] = useState<LineConfig | null>(null); // null = every element in one station
+  const [yamazumiBaselines, setYamazumiBaselines] = useState<YamazumiBaseline[]>([]);
+  const [referenceImages, setReferenceImages] = useState<ReferenceImages | null>(null); // Captured anchor/zone crops
+  const [modules, setModules] = useState<ModuleStates>({}); // Working state of the analysis modules
+  const [observationTarget, setObservationTarget] = useState<ObservationTarget>(DEFAULT_OBSERVATION_TARGET);
   
+  // Project Library
+  const [project, setProject] = useState<ProjectSummary | null>(null); // Open project; null until loaded
+  const [libraryProjects, setLibraryProjects] = useState<ProjectSummary[] | null>(null); // null = library closed
+  const [revisions, setRevisions] = useState<ProjectRevision[] | null>(null);           // null = revision history closed
+  const skipNextSave = useRef(false); // State was just loaded, not edited
+  const isDirty = useRef(false);      // Edits not yet written by the debounced auto-save
+  const [missingVideo, setMissingVideo] = useState<VideoRef | null>(null); // Relink dialog
+  const [isRelinking, setIsRelinking] = useState(false);
+
+  // Undo/Redo
+  const [history, setHistoryState] = useState<ProjectHistory>(emptyHistory());
+  const historyRef = useRef(history);                 // Latest history for the debounced save
+  const recorded = useRef<HistorySnapshot | null>(null); // State the newest entry ends in; null = next state is the start
+
   // Sync Status
   const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: 'synced', lastSyncedAt: new Date() });
   
   // Other States
   const [seekRequest, setSeekRequest] = useState<{ time: number, id: number } | null>(null);
   const [activeStationMapping, setActiveStationMapping] = useState<number>(0);
+  const [bottomPanel, setBottomPanel] = useState<'trace' | 'review'>('trace');
   const [fps, setFps] = useState(0);
   const [status, setStatus] = useState("Ready (LocalDB Active)");
   const [activeMenu, setActiveMenu] = useState<string | null>(null);
   const menuRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const projectInputRef = useRef<HTMLInputElement>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
 
   // --- PERSISTENCE LOGIC ---
-  // Load on mount
+  // Replaces the whole project state; missing fields fall back to defaults
+  const applyProject = (data: Partial<ProjectData> | null) => {
+      skipNextSave.current = true;
+      isDirty.current = false;
+      recorded.current = null;
+      setCycles(data?.cycles || []);
+      setTaktTime(data?.taktTime || 10);
+      setSensitivity(data?.sensitivity || 6);
+      setRefRect(data?.refRect || null);
+      setTriggerSteps(data?.triggerSteps || []);
+      setWorkStudyTasks(data?.workStudyTasks && data.workStudyTasks.length > 0 ? data.workStudyTasks : defaultTasks());
+      setSignalTrace(data?.signalTrace ? capTrace(data.signalTrace) : null);
+      setThresholds(data?.thresholds || null);
+      setFrameRate(data?.frameRate || null);
+      setLine(data?.line || null);
+      setYamazumiBaselines(data?.yamazumiBaselines || []);
+      setReferenceImages(data?.referenceImages || null);
+      setModules(data?.modules || {});
+      setObservationTarget(data?.observationTarget || DEFAULT_OBSERVATION_TARGET);
+      setVideoRef(data?.video || null);
+      setMissingVideo(null);
+      showVideo(null);
+  };
+
+  // Setters for each module's slice of `modules`; stable, since the modules report from effects
+  const moduleSetters = useMemo(() => {
+      const slice = <K extends keyof ModuleStates>(key: K, empty: NonNullable<ModuleStates[K]>) =>
+          (action: React.SetStateAction<NonNullable<ModuleStates[K]>>) => setModules(prev => ({ ...prev, [key]: resolveAction(action, prev[key] ?? empty) }));
+      const multiAxial = <K extends keyof MultiAxialState>(key: K) =>
+          (action: React.SetStateAction<MultiAxialState[K]>) => setModules(prev => {
+              const current = prev.multiAxial || DEFAULT_MULTI_AXIAL;
+              return { ...prev, multiAxial: { ...current, [key]: resolveAction(action, current[key]) } };
+          });
+      const value = <K extends keyof ModuleStates>(key: K) => (v: ModuleStates[K]) => setModules(prev => ({ ...prev, [key]: v }));
+      return {
+          logisticsEvents: slice('logisticsEvents', []),
+          dependencies: slice('dependencies', {}),
+          multiAxialResources: multiAxial('resources'),
+          multiAxialEvents: multiAxial('events'),
+          rearrangement: value('rearrangement'),
+          digitalTwin: value('digitalTwin'),
+          ergonomics: value('ergonomics'),
+          simulation: value('simulation'),
+      };
+  }, []);
+
+  // --- PROJECT VIDEO ---
+  const showVideo = (blob: Blob | null) => {
+      setVideoSrc(prev => {
+          if (prev?.startsWith('blob:')) URL.revokeObjectURL(prev);
+          return blob ? URL.createObjectURL(blob) : null;
+      });
+  };
+
+  // Puts the stored video back in the players, or asks for the file when it is gone
+  const restoreVideo = async (ref: VideoRef | null | undefined) => {
+      if (!ref) return;
+      const blob = await VideoStore.get(ref).catch(() => null);
+      if (blob) {
+          showVideo(blob);
+      } else {
+          setMissingVideo(ref);
+      }
+  };
+
+  const handleRelinkVideo = async (file: File) => {
+      if (!missingVideo) return;
+      setIsRelinking(true);
+      try {
+          const hash = await hashVideo(file);
+          if (hash !== missingVideo.hash && !confirm(`"${file.name}" is not the original video (content differs).\nCycle times may not line up with this footage. Use it anyway?`)) return;
+          const ref = await VideoStore.put(file);
+          setVideoRef(ref);
+          showVideo(file);
+          setMissingVideo(null);
+          setStatus(`Video relinked: ${file.name}`);
+      } catch (e) {
+          setStatus("Video relink failed");
+      } finally {
+          setIsRelinking(false);
+      }
+  };
+
+  // Folder permission is dropped on reload and can only be re-requested from a click
+  const handleGrantVideoAccess = async () => {
+      const dir = await VideoStore.getDirectory();
+      if (!dir || !(await verifyPermission(dir, false)) || !missingVideo) return;
+      const ref = missingVideo;
+      setMissingVideo(null);
+      await restoreVideo(ref);
+  };
+
+  const chooseVideoFolder = async () => {
+      setActiveMenu(null);
+      const showDirectoryPicker = (window as any).showDirectoryPicker;
+      if (!showDirectoryPicker) {
+          alert("เบราว์เซอร์ของคุณไม่รองรับการเลือกโฟลเดอร์ กรุณาใช้ Chrome หรือ Edge");
+          return;
+      }
+      try {
+          const handle = await showDirectoryPicker({ mode: 'readwrite', startIn: 'videos' });
+          if (!(await verifyPermission(handle, true))) return;
+          await VideoStore.setDirectory(handle);
+          setStatus(`New videos are stored in folder: ${handle.name}/`);
+      } catch (e: any) {
+          if (e.name !== 'AbortError') setStatus("Could not use that folder for videos");
+      }
+  };
+
+  const storeVideosInBrowser = async () => {
+      setActiveMenu(null);
+      await VideoStore.setDirectory(null);
+      setStatus("New videos are stored in the browser database");
+  };
+
+  const projectSnapshot = (): Omit<ProjectData, 'updatedAt'> => ({
+      schemaVersion: PROJECT_SCHEMA_VERSION,
+      cycles,
+      taktTime,
+      sensitivity,
+      refRect,
+      triggerSteps,
+      workStudyTasks,
+      signalTrace: signalTrace && capTrace(signalTrace),
+      thresholds,
+      frameRate,
+      line,
+      yamazumiBaselines,
+      referenceImages,
+      modules: persistableModules(modules),
+      observationTarget,
+      video: videoRef,
+      videoSrc: null // The video itself lives in the VideoStore
+  });
+
+  const projectThumbnail = () => cycles.find(c => c.thumbnail)?.thumbnail || workStudyTasks.find(t => t.thumbnail)?.thumbnail;
+
+  const persistProject = async () => {
+      if (!project) return;
+      isDirty.current = false;
+      await ProjectRepository.save(project.id, projectSnapshot(), projectThumbnail(), historyRef.current);
+  };
+
+  const openProject = async (summary: ProjectSummary) => {
+      const data = await ProjectRepository.load(summary.id);
+      const savedHistory = await ProjectRepository.loadHistory(summary.id).catch(() => emptyHistory());
+      applyProject(data);
+      setHistory(savedHistory);
+      setProject(summary);
+      ProjectRepository.setActiveId(summary.id);
+      setStatus(`Opened project "${summary.name}"`);
+      await restoreVideo(data?.video);
+  };
+
+  // Writes pending edits of the open project before another one replaces it
+  const flushProject = async () => {
+      recordHistory();
+      if (isDirty.current) await persistProject();
+  };
+
+  // Load on mount: the last open project, else the most recent one, else a new one
   useEffect(() => {
       const loadData = async () => {
           try {
-              const data = await ProjectRepository.load();
-              if (data) {
-                  if (data.cycles) setCycles(data.cycles);
-                  if (data.taktTime) setTaktTime(data.taktTime);
-                  if (data.sensitivity) setSensitivity(data.sensitivity);
-                  if (data.refRect) setRefRect(data.refRect);
-                  if (data.triggerSteps) setTriggerSteps(data.triggerSteps);
-                  if (data.workStudyTasks) setWorkStudyTasks(data.workStudyTasks);
-                  setStatus("Loaded project from Local Database");
+              const projects = await ProjectRepository.list();
+              const activeId = ProjectRepository.getActiveId();
+              const summary = projects.find(p => p.id === activeId) || projects[0];
+              if (summary) {
+                  await openProject(summary);
+                  setStatus(`Loaded project "${summary.name}" from Local Database`);
               } else {
                   // Init Default
-                  setWorkStudyTasks([{ id: crypto.randomUUID(), name: "งานย่อยที่ 1", rounds: [], activity: 'Operation', rating: 100, allowance: 10 }]);
+                  const created = await ProjectRepository.create('Project 1', { ...emptyProject(), workStudyTasks: defaultTasks() });
+                  await openProject(created);
               }
-          } catch (e) {
+          } catch (e: any) {
               console.error("DB Load Failed", e);
-              setStatus("Database Error - Using Memory Only");
+              applyProject(null);
+              setStatus(e instanceof Error ? `Database Error - ${e.message}` : "Database Error - Using Memory Only");
+              // A project that fails validation: let the user pick another one instead
+              if (e instanceof Error) {
+                  alert(`Could not open the last project.\n\n${e.message}`);
+                  refreshLibrary().catch(() => {});
+              }
           }
       };
       loadData();
   }, []);
 
+  useEffect(() => {
+      ProjectRepository.onVersionChange((message) => {
+          setStatus(message);
+          alert(message);
+      });
+      return () => ProjectRepository.onVersionChange(null);
+  }, []);
+
   // Auto-Save Effect (Debounced)
   useEffect(() => {
+      if (!project) return;
+      if (skipNextSave.current) {
+          skipNextSave.current = false;
+          return;
+      }
+      isDirty.current = true;
       const saveData = async () => {
           setSyncStatus(prev => ({ ...prev, state: 'syncing' }));
           try {
-              await ProjectRepository.save({
-                  cycles,
-                  taktTime,
-                  sensitivity,
-                  refRect,
-                  triggerSteps,
-                  workStudyTasks,
-                  videoSrc: null // Skip heavy blob
-              });
+              await persistProject();
               setSyncStatus({ state: 'synced', lastSyncedAt: new Date() });
           } catch (e) {
               setSyncStatus(prev => ({ ...prev, state: 'error' }));
+              if (e instanceof Error) setStatus(`Auto-save failed - ${e.message}`);
           }
       };
-      
+
       const timeout = setTimeout(saveData, 2000); // Auto-save 2s after change
       return () => clearTimeout(timeout);
-  }, [cycles, taktTime, sensitivity, refRect, triggerSteps, workStudyTasks]);
+  }, [project?.id, cycles, taktTime, sensitivity, refRect, triggerSteps, workStudyTasks, signalTrace, thresholds, frameRate, line, yamazumiBaselines, referenceImages, modules, observationTarget, videoRef]);
+
+  // Outlier flags and derived ratings follow the rounds, whichever module changed them
+  useEffect(() => {
+      const flagged = workStudyTasks.map(t => applyRating(flagOutliers(t)));
+      if (flagged.some((t, i) => t !== workStudyTasks[i])) setWorkStudyTasks(flagged);
+  }, [workStudyTasks]);
+
+  // --- UNDO / REDO ---
+  const setHistory = (next: ProjectHistory) => {
+      historyRef.current = next;
+      setHistoryState(next);
+  };
+
+  const historySnapshot = (): HistorySnapshot => ({ cycles, taktTime, sensitivity, refRect, triggerSteps, workStudyTasks, thresholds, line });
+
+  // Turns the edits made since the last entry into one undo step
+  const recordHistory = () => {
+      const current = historySnapshot();
+      const entry = recorded.current && diffSnapshots(recorded.current, current);
+      recorded.current = current;
+      if (entry) setHistory(pushEntry(historyRef.current, entry));
+  };
+
+  useEffect(() => {
+      if (!project) return;
+      if (!recorded.current) {
+          recorded.current = historySnapshot();
+          return;
+      }
+      const timeout = setTimeout(recordHistory, 800); // A burst of edits (typing, batch detection) is one step
+      return () => clearTimeout(timeout);
+  }, [project?.id, cycles, taktTime, sensitivity, refRect, triggerSteps, workStudyTasks, thresholds, line]);
+
+  const applyHistoryPatch = (patch: Partial<HistorySnapshot>) => {
+      if (patch.cycles !== undefined) setCycles(patch.cycles);
+      if (patch.taktTime !== undefined) setTaktTime(patch.taktTime);
+      if (patch.sensitivity !== undefined) setSensitivity(patch.sensitivity);
+      if (patch.refRect !== undefined) setRefRect(patch.refRect);
+      if (patch.triggerSteps !== undefined) setTriggerSteps(patch.triggerSteps);
+      if (patch.workStudyTasks !== undefined) setWorkStudyTasks(patch.workStudyTasks);
+      if (patch.thresholds !== undefined) setThresholds(patch.thresholds);
+      if (patch.line !== undefined) setLine(patch.line);
+      // Already in the history: the state change must not be recorded again
+      recorded.current = { ...historySnapshot(), ...patch };
+  };
+
+  const handleUndo = () => {
+      recordHistory(); // An edit still in the debounce window is undone first
+      const step = undoStep(historyRef.current);
+      if (!step) { setStatus("Nothing to undo"); return; }
+      applyHistoryPatch(step.patch);
+      setHistory(step.history);
+      setStatus(`Undo: ${step.label}`);
+  };
+
+  const handleRedo = () => {
+      recordHistory();
+      const step = redoStep(historyRef.current);
+      if (!step) { setStatus("Nothing to redo"); return; }
+      applyHistoryPatch(step.patch);
+      setHistory(step.history);
+      setStatus(`Redo: ${step.label}`);
+  };
+
+  // Text fields keep the browser's own undo while focused
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (!(e.ctrlKey || e.metaKey)) return;
+          const key = e.key.toLowerCase();
+          if (key === 's') { e.preventDefault(); openRevisions(); return; }
+          if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+          if (key === 'z' && !e.shiftKey) { e.preventDefault(); handleUndo(); }
+          else if (key === 'y' || (key === 'z' && e.shiftKey)) { e.preventDefault(); handleRedo(); }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // --- PROJECT LIBRARY ---
+  const refreshLibrary = async () => setLibraryProjects(await ProjectRepository.list());
+
+  const openLibrary = async () => {
+      await flushProject();
+      await refreshLibrary();
+      setActiveMenu(null);
+  };
+
+  const handleOpenFromLibrary = async (id: string) => {
+      const summary = libraryProjects?.find(p => p.id === id);
+      if (!summary || summary.id === project?.id) return setLibraryProjects(null);
+      await flushProject();
+      try {
+          await openProject(summary);
+          setLibraryProjects(null);
+      } catch (e: any) {
+          alert(`Could not open "${summary.name}".\n\n${e?.message || e}`);
+      }
+  };
+
+  const handleRenameProject = async (id: string, name: string) => {
+      await ProjectRepository.rename(id, name);
+      if (project?.id === id) setProject({ ...project, name });
+      await refreshLibrary();
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+      await flushProject();
+      const source = libraryProjects?.find(p => p.id === id);
+      await ProjectRepository.duplicate(id, `${source?.name || 'Project'} (copy)`);
+      await refreshLibrary();
+  };
+
+  const handleDeleteProject = async (id: string) => {
+      await ProjectRepository.remove(id);
+      const remaining = await ProjectRepository.list();
+      setLibraryProjects(remaining);
+      if (project?.id !== id) return;
+      // The open project is gone: continue in the most recent one, or a fresh one
+      if (remaining[0]) {
+          await openProject(remaining[0]);
+      } else {
+          const created = await ProjectRepository.create('Project 1', { ...emptyProject(), workStudyTasks: defaultTasks() });
+          await openProject(created);
+          setLibraryProjects([created]);
+      }
+  };
+
+  // --- REVISIONS ---
+  const openRevisions = async () => {
+      setActiveMenu(null);
+      if (!project) return;
+      try {
+          setRevisions(await ProjectRepository.listRevisions(project.id));
+      } catch (e) {
+          setStatus("Database Error - Could not read revisions");
+      }
+  };
+
+  // An explicit save: writes the project and keeps a named copy of it
+  const handleSaveRevision = async (author: string, note: string) => {
+      if (!project) return;
+      try {
+          await flushProject();
+          const revision = await ProjectRepository.createRevision(project.id, { ...projectSnapshot(), updatedAt: Date.now() }, author, note);
+          setRevisions(await ProjectRepository.listRevisions(project.id));
+          setStatus(`Saved revision ${revision.number} (${author})`);
+      } catch (e) {
+          setStatus("Database Error - Could not save revision");
+      }
+  };
+
+  // Goes through the normal edit path, so the restore itself can be undone. The video stays as it is.
+  const handleRestoreRevision = (revision: ProjectRevision) => {
+      const data = revision.data;
+      recordHistory();
+      setCycles(data.cycles);
+      setTaktTime(data.taktTime);
+      setSensitivity(data.sensitivity);
+      setRefRect(data.refRect);
+      setTriggerSteps(data.triggerSteps);
+      setWorkStudyTasks(data.workStudyTasks);
+      setSignalTrace(data.signalTrace ? capTrace(data.signalTrace) : null);
+      setThresholds(data.thresholds || null);
+      setFrameRate(data.frameRate || null);
+      setLine(data.line || null);
+      setYamazumiBaselines(data.yamazumiBaselines || []);
+      setReferenceImages(data.referenceImages || null);
+      setModules(data.modules || {});
+      setObservationTarget(data.observationTarget || DEFAULT_OBSERVATION_TARGET);
+      setRevisions(null);
+      setStatus(`Restored revision ${revision.number} from ${new Date(revision.createdAt).toLocaleString()} (Ctrl+Z to undo)`);
+  };
 
   // Click Outside to close menu
   useEffect(() => {
@@ -97,76 +512,168 @@ const App: React.FC = () => {
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      const url = URL.createObjectURL(file);
-      setVideoSrc(url);
+      showVideo(file);
+      setVideoRef(null);
+      setMissingVideo(null);
       setCycles([]);
       setTriggerSteps([]); 
       setRefRect(null);    
-      setStatus("Video loaded. Previous analytics reset.");
+      setReferenceImages(null);
+      setModules(prev => ({ ...prev, logisticsEvents: [], ergonomics: [] })); // Timed against the old video
+      setSignalTrace(null);
+      setFrameRate(null);
+      setStatus("Video loaded. Previous analytics reset. Storing video in project...");
       setActiveMenu(null);
+      VideoStore.put(file)
+          .then(ref => {
+              setVideoRef(ref);
+              setStatus(`Video stored in project (${ref.storage === 'directory' ? 'video folder' : 'browser database'})`);
+          })
+          .catch(() => {
+              setVideoRef(null);
+              setStatus("Video could not be stored - it will need relinking after reload");
+          });
     }
+    event.target.value = '';
   };
 
   const handleCycleComplete = useCallback((cycle: Cycle) => {
-    setCycles(prev => [...prev, cycle]);
-    setWorkStudyTasks(prevTasks => {
-        const newTasks = [...prevTasks];
-        if (newTasks[activeStationMapping]) {
-            const task = { ...newTasks[activeStationMapping] };
-            const newRound = {
-                ht: cycle.duration, 
-                wt: 0,
-                mt: 0,
-                total: cycle.duration,
-                startTime: cycle.startTime,
-                endTime: cycle.endTime
-            };
-            const currentRounds = task.rounds.filter(r => r !== null && r !== undefined) as any[];
-            const updatedRounds = [...currentRounds, newRound].slice(-20); 
-            task.rounds = updatedRounds;
-            newTasks[activeStationMapping] = task;
-        }
-        return newTasks;
-    });
+    const mapped = { ...cycle, mappedTaskIndex: activeStationMapping };
+    setCycles(prev => [...prev, mapped]);
+    setWorkStudyTasks(prevTasks => applyCycleToTasks(prevTasks, mapped, activeStationMapping));
   }, [activeStationMapping]);
 
+  // Swaps the whole cycle log, taking the rounds of the old cycles out of the table first.
+  // Used for batch results, trace re-derivation and review corrections.
+  const replaceCycles = useCallback((newCycles: Cycle[]) => {
+    const mapped = newCycles.map(c => c.mappedTaskIndex === undefined ? { ...c, mappedTaskIndex: activeStationMapping } : c);
+    setCycles(mapped);
+    setWorkStudyTasks(prevTasks => mapped.reduce(
+        (tasks, cycle) => applyCycleToTasks(tasks, cycle, cycle.mappedTaskIndex!),
+        removeCyclesFromTasks(prevTasks, cycles)
+    ));
+  }, [cycles, activeStationMapping]);
+
+  // A batch run covers the whole file, so it replaces the live cycle log
+  const handleBatchComplete = replaceCycles;
+
+  // --- THRESHOLD TUNING ---
+  const detectorConfig = useMemo<DetectorConfig>(() => {
+    const { high, low } = thresholds || thresholdsFromSensitivity(sensitivity);
+    return { highThreshold: high, lowThreshold: low, taktTime, minCycleTime: CV_CONFIG.MIN_CYCLE_TIME, cooldown: CV_CONFIG.COOLDOWN };
+  }, [thresholds, sensitivity, taktTime]);
+
+  const handleRederive = (derived: Omit<Cycle, 'id' | 'aiLabel'>[], hitsPerStep: number[], falseTriggersPerStep: number[]) => {
+    const baseId = Date.now();
+    // Pose actions are not part of the trace; re-cut the old cycles' timelines to the new bounds
+    const spans = cycles.flatMap(c => c.actionSpans || []).sort((a, b) => a.startTime - b.startTime);
+    replaceCycles(derived.map((cycle, i) => {
+        const actions = actionsForRange(spans, cycle.startTime, cycle.endTime);
+        return {
+            ...cycle,
+            ...actions,
+            id: baseId + i,
+            aiLabel: actions.actionTime ? labelFromActions(actions.actionTime) : cycles.find(c => c.startTime === cycle.startTime)?.aiLabel
+        };
+    }));
+    setTriggerSteps(prev => prev.map((step, i) => ({
+        ...step,
+        hitCount: hitsPerStep[i] ?? step.hitCount,
+        falseTriggerCount: falseTriggersPerStep[i] ?? step.falseTriggerCount
+    })));
+    setStatus(`Re-derived ${derived.length} cycles from signal trace (high ${detectorConfig.highThreshold.toFixed(3)} / low ${detectorConfig.lowThreshold.toFixed(3)})`);
+  };
+
   const handleSaveProject = () => {
       const projectData: ProjectData = {
-          videoSrc: null, 
-          cycles,
-          taktTime,
-          sensitivity,
-          refRect,
-          triggerSteps,
-          workStudyTasks,
+          ...projectSnapshot(),
           updatedAt: Date.now()
       };
       const blob = new Blob([JSON.stringify(projectData, null, 2)], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `yamazumi_project_${new Date().toISOString().slice(0,10)}.json`;
+      a.download = `${project?.name.replace(/[\\/:*?"<>|]/g, '_') || 'yamazumi_project'}_${new Date().toISOString().slice(0,10)}.json`;
       a.click();
       URL.revokeObjectURL(url);
       setStatus("Project Exported");
       setActiveMenu(null);
   };
 
+  const handleExportStandardTime = () => {
+      setActiveMenu(null);
+      const name = project?.name.replace(/[\\/:*?"<>|]/g, '_') || 'WorkStudy';
+      XLSX.writeFile(buildWorkStudyReport(workStudyTasks, taktTime, observationTarget), `${name}_StandardTime_${new Date().toISOString().slice(0,10)}.xlsx`);
+      setStatus("Standard time report exported");
+  };
+
+  // Everything needed to reopen the study elsewhere: data, video, images and reports
+  const handleExportBundle = async () => {
+      setActiveMenu(null);
+      setStatus("Packing project bundle...");
+      try {
+          const video = videoRef ? await VideoStore.get(videoRef).catch(() => null) : null;
+          const name = project?.name || 'Project';
+          const blob = await createBundle(name, { ...projectSnapshot(), updatedAt: Date.now() }, video);
+          const url = URL.createObjectURL(blob);
+          const a = document.createElement('a');
+          a.href = url;
+          a.download = `${name.replace(/[\\/:*?"<>|]/g, '_')}_${new Date().toISOString().slice(0,10)}${BUNDLE_EXTENSION}`;
+          a.click();
+          URL.revokeObjectURL(url);
+          setStatus(videoRef && !video ? "Bundle exported without video (video not available - relink it first)" : "Project bundle exported");
+      } catch (e) {
+          setStatus("Bundle export failed");
+      }
+  };
+
+  const handleImportBundle = async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      setActiveMenu(null);
+      if (!file) return;
+      setStatus(`Unpacking ${file.name}...`);
+      try {
+          const bundle = await readBundle(file);
+          const result = readProject(bundle.project);
+          if (!result.data) {
+              alert(`Invalid project bundle - these fields are wrong:\n\n${formatIssues(result.issues)}`);
+              return;
+          }
+          const video = bundle.video ? await VideoStore.put(bundle.video) : result.data.video;
+          await flushProject();
+          const created = await ProjectRepository.create(bundle.name, { ...result.data, video, videoSrc: null });
+          await openProject(created);
+          setLibraryProjects(null);
+          setStatus(`Bundle "${created.name}" imported${bundle.video ? ' with video' : ''}`);
+      } catch (e: any) {
+          alert(`Could not import the bundle: ${e.message || e}`);
+          setStatus("Bundle import failed");
+      }
+  };
+
+  // An imported file becomes a new project in the library, named after the file
   const handleLoadProject = (event: React.ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
       if (!file) return;
       const reader = new FileReader();
-      reader.onload = (e) => {
+      reader.onload = async (e) => {
+          let raw: unknown;
+          try {
+              raw = JSON.parse(e.target?.result as string);
+          } catch (err) { alert("Invalid project file: not valid JSON"); return; }
+          const result = readProject(raw);
+          if (!result.data) {
+              alert(`Invalid project file - these fields are wrong:\n\n${formatIssues(result.issues)}`);
+              return;
+          }
           try {
-              const data = JSON.parse(e.target?.result as string) as ProjectData;
-              setTaktTime(data.taktTime || 10);
-              setSensitivity(data.sensitivity || 6);
-              setCycles(data.cycles || []);
-              setRefRect(data.refRect || null);
-              setTriggerSteps(data.triggerSteps || []);
-              if (data.workStudyTasks) setWorkStudyTasks(data.workStudyTasks);
-              setStatus("Project Imported successfully");
-          } catch (err) { alert("Invalid project file"); }
+              await flushProject();
+              const created = await ProjectRepository.create(file.name.replace(/\.json$/i, ''), { ...result.data, videoSrc: null });
+              await openProject(created);
+              setLibraryProjects(null);
+              setStatus(`Project "${created.name}" imported successfully${result.migratedFrom ? ` (upgraded from format v${result.migratedFrom})` : ''}`);
+          } catch (err) { alert("Could not store the imported project"); }
       };
       reader.readAsText(file);
       event.target.value = '';
@@ -174,19 +681,22 @@ const App: React.FC = () => {
   };
 
   const removeStep = (id: string) => setTriggerSteps(prev => prev.filter(s => s.id !== id));
+  const updateStep = (id: string, changes: Partial<TriggerStep>) => setTriggerSteps(prev => prev.map(s => s.id === id ? { ...s, ...changes } : s));
   const clearAllSteps = () => { if (confirm("Clear all trigger zones?")) setTriggerSteps([]); };
 
   const handleNewProject = async () => {
-      if(confirm("Create new project? Unsaved changes may be lost.")) {
-          await ProjectRepository.clear();
-          setCycles([]);
-          setTriggerSteps([]);
-          setRefRect(null);
-          setWorkStudyTasks([{ id: crypto.randomUUID(), name: "Task 1", rounds: [], activity: 'Operation', rating: 100, allowance: 10 }]);
-          setVideoSrc(null);
-          setStatus("New Project Created (DB Cleared)");
-      }
       setActiveMenu(null);
+      const name = prompt("New project name", `Project ${new Date().toLocaleDateString()}`);
+      if (!name) return;
+      try {
+          await flushProject();
+          const created = await ProjectRepository.create(name, { ...emptyProject(), workStudyTasks: defaultTasks() });
+          await openProject(created);
+          setLibraryProjects(null);
+          setStatus(`New project "${name}" created`);
+      } catch (e) {
+          setStatus("Database Error - Could not create project");
+      }
   };
 
   const menuStructure = [
@@ -194,14 +704,28 @@ const App: React.FC = () => {
           label: 'File',
           items: [
               { label: 'New Project', shortcut: 'Ctrl+N', icon: <FilePlus size={14}/>, action: handleNewProject },
-              { label: 'Open Project...', shortcut: 'Ctrl+O', icon: <FolderUp size={14}/>, action: () => projectInputRef.current?.click() },
-              { label: 'Export JSON', shortcut: 'Ctrl+S', icon: <Save size={14}/>, action: handleSaveProject },
+              { label: 'Project Library...', shortcut: 'Ctrl+O', icon: <FolderOpen size={14}/>, action: openLibrary },
+              { label: 'Import JSON...', icon: <FolderUp size={14}/>, action: () => projectInputRef.current?.click() },
+              { label: 'Save Revision / History...', shortcut: 'Ctrl+S', icon: <History size={14}/>, action: openRevisions },
+              { label: 'Export JSON', icon: <Save size={14}/>, action: handleSaveProject },
+              { label: 'Import Bundle (.wsp)...', icon: <PackageOpen size={14}/>, action: () => bundleInputRef.current?.click() },
+              { label: 'Export Bundle (.wsp)', icon: <Package size={14}/>, action: handleExportBundle },
+              { label: 'Export Standard Time (Excel)', icon: <FileSpreadsheet size={14}/>, action: handleExportStandardTime },
               { type: 'separator' },
               { label: 'Import Video...', shortcut: 'Ctrl+I', icon: <Video size={14}/>, action: () => fileInputRef.current?.click() },
+              { label: 'Video Storage Folder...', icon: <FolderOpen size={14}/>, action: chooseVideoFolder },
+              { label: 'Store Videos in Browser', icon: <Save size={14}/>, action: storeVideosInBrowser },
               { type: 'separator' },
               { label: 'Exit', shortcut: 'Alt+F4', icon: <LogOut size={14}/>, action: () => window.close() }, 
           ]
       },
+      {
+          label: 'Edit',
+          items: [
+              { label: history.index > 0 ? `Undo ${history.entries[history.index - 1].label}` : 'Undo', shortcut: 'Ctrl+Z', icon: <Undo2 size={14}/>, action: handleUndo },
+              { label: history.index < history.entries.length ? `Redo ${history.entries[history.index].label}` : 'Redo', shortcut: 'Ctrl+Y', icon: <Redo2 size={14}/>, action: handleRedo },
+          ]
+      },
       {
           label: 'View',
           items: [
@@ -228,6 +752,38 @@ const App: React.FC = () => {
     <div className="flex flex-col h-[100dvh] bg-[#f0f0f0] text-[#222]">
       <input type="file" accept="video/*" ref={fileInputRef} onChange={handleFileUpload} className="hidden" />
       <input type="file" accept=".json" ref={projectInputRef} onChange={handleLoadProject} className="hidden" />
+      <input type="file" accept={`${BUNDLE_EXTENSION},.zip`} ref={bundleInputRef} onChange={handleImportBundle} className="hidden" />
+
+      {libraryProjects && (
+          <ProjectLibrary
+              projects={libraryProjects}
+              activeId={project?.id || null}
+              onOpen={handleOpenFromLibrary}
+              onCreate={handleNewProject}
+              onRename={handleRenameProject}
+              onDuplicate={handleDuplicateProject}
+              onDelete={handleDeleteProject}
+              onClose={() => setLibraryProjects(null)}
+          />
+      )}
+      {revisions && (
+          <RevisionHistory
+              revisions={revisions}
+              current={{ ...projectSnapshot(), updatedAt: Date.now() }}
+              onSave={handleSaveRevision}
+              onRestore={handleRestoreRevision}
+              onClose={() => setRevisions(null)}
+          />
+      )}
+      {missingVideo && (
+          <VideoRelinkDialog
+              video={missingVideo}
+              isChecking={isRelinking}
+              onRelink={handleRelinkVideo}
+              onGrantAccess={handleGrantVideoAccess}
+              onDismiss={() => setMissingVideo(null)}
+          />
+      )}
 
       {/* MENU BAR */}
       <div ref={menuRef} className="flex items-center px-2 py-0.5 bg-white border-b border-gray-300 text-xs select-none relative z-50 shrink-0">
@@ -263,6 +819,12 @@ const App: React.FC = () => {
               </div>
           ))}
           <div className="ml-auto flex items-center gap-4 pr-2">
+              {project && (
+                  <button onClick={openLibrary} className="flex items-center gap-1.5 text-xs text-gray-600 hover:text-blue-600 max-w-[240px]" title="Project Library">
+                      <FolderOpen size={12}/>
+                      <span className="truncate font-medium">{project.name}</span>
+                  </button>
+              )}
               <div className="flex items-center gap-1.5 text-xs text-gray-500">
                   {syncStatus.state === 'synced' ? <Cloud size={12} className="text-green-500"/> : syncStatus.state === 'syncing' ? <Activity size={12} className="text-blue-500 animate-spin"/> : <WifiOff size={12} className="text-red-500"/>}
                   <span className="hidden md:inline">{syncStatus.state === 'synced' ? 'Synced' : syncStatus.state === 'syncing' ? 'Saving...' : 'Offline'}</span>
@@ -270,16 +832,31 @@ const App: React.FC = () => {
           </div>
       </div>
 
-      {/* TABS - Only 3 tabs now */}
+      {/* TABS */}
       <div className="flex px-2 pt-2 bg-[#f0f0f0] border-b border-gray-300 shrink-0 overflow-x-auto no-scrollbar">
           <TabButton id="record" label="Capture" icon={Video} />
           <TabButton id="analyze" label="AI Analyzer" icon={BarChart2} />
           <TabButton id="workstudy" label="Work Study" icon={ClipboardList} />
+          <TabButton id="balance" label="Line Balancing" icon={LayoutTemplate} />
+          <TabButton id="twin" label="Digital Twin" icon={Layers} />
+          <TabButton id="simulation" label="Simulation" icon={Calculator} />
+          <TabButton id="multiaxial" label="Multi-Axial" icon={Grid} />
+          <TabButton id="ergonomics" label="Ergonomics" icon={ShieldAlert} />
       </div>
 
       {/* WORKSPACE */}
       <div className="flex-grow overflow-hidden bg-white relative">
-        {activeTab === 'record' ? (<div className="w-full h-full p-2"><VideoRecorder /></div>) : 
+        {activeTab === 'record' ? (
+            <div className="w-full h-full p-2">
+                <VideoRecorder
+                    triggerSteps={triggerSteps}
+                    detectorConfig={detectorConfig}
+                    onCycleComplete={handleCycleComplete}
+                    onTriggerStepsChange={setTriggerSteps}
+                    onStatusUpdate={setStatus}
+                />
+            </div>
+         ) : 
          activeTab === 'analyze' ? (
             <div className="flex h-full flex-col md:flex-row">
                 <div className="flex-grow p-2 bg-[#f0f0f0] flex flex-col min-w-0 border-r border-gray-300">
@@ -293,11 +870,46 @@ const App: React.FC = () => {
                             onRefRectChange={setRefRect} 
                             onTriggerStepsChange={setTriggerSteps} 
                             onCycleComplete={handleCycleComplete} 
+                            onBatchComplete={handleBatchComplete}
+                            thresholds={thresholds}
+                            onSignalTraceChange={setSignalTrace}
                             onFPSUpdate={setFps} 
+                            onFrameRateChange={setFrameRate}
                             onStatusUpdate={setStatus}
                             seekRequest={seekRequest}
+                            referenceImages={referenceImages}
+                            onReferenceImagesChange={setReferenceImages}
                         />
                     </div>
+                    <div className="h-56 mt-2 border border-gray-400 shrink-0 flex flex-col bg-white">
+                        <div className="flex bg-[#f0f0f0] border-b border-gray-300 text-[10px] shrink-0">
+                            {([['trace', 'Signal Trace'], ['review', `Cycle Review (${cycles.filter(c => !c.verified).length} to verify)`]] as const).map(([id, label]) => (
+                                <button key={id} onClick={() => setBottomPanel(id)} className={`px-3 py-1 border-r border-gray-300 ${bottomPanel === id ? 'bg-white font-bold text-blue-700' : 'text-gray-600 hover:bg-gray-100'}`}>{label}</button>
+                            ))}
+                        </div>
+                        <div className="flex-grow min-h-0">
+                            {bottomPanel === 'review' ? (
+                                <CycleReview
+                                    cycles={cycles}
+                                    taktTime={taktTime}
+                                    frameRate={frameRate}
+                                    onChange={replaceCycles}
+                                    onSeek={(time) => setSeekRequest({ time, id: Date.now() })}
+                                />
+                            ) : (
+                                <SignalTraceChart
+                                    trace={signalTrace}
+                                    steps={triggerSteps}
+                                    config={detectorConfig}
+                                    cycles={cycles}
+                                    isOverride={thresholds !== null}
+                                    onThresholdsChange={setThresholds}
+                                    onRederive={handleRederive}
+                                    onSeek={(time) => setSeekRequest({ time, id: Date.now() })}
+                                />
+                            )}
+                        </div>
+                    </div>
                 </div>
                 <div className="w-full md:w-80 bg-[#f5f5f5] flex flex-col overflow-y-auto shrink-0 border-l border-white h-1/3 md:h-full">
                     <div className="p-1 bg-[#e1e1e1] border-b border-gray-400 text-xs font-bold text-gray-700 px-2 flex justify-between items-center">
@@ -312,6 +924,7 @@ const App: React.FC = () => {
                                 <select className="w-full text-xs border border-blue-300 rounded px-1 py-1 bg-white outline-none" value={activeStationMapping} onChange={(e) => setActiveStationMapping(Number(e.target.value))}>
                                     {workStudyTasks.map((t, i) => <option key={t.id} value={i}>{i+1}. {t.name}</option>)}
                                 </select>
+                                {triggerSteps.length > 1 && <p className="text-[10px] text-blue-600">Zone 1–{triggerSteps.length} elements fill consecutive tasks from here.</p>}
                             </div>
                         </fieldset>
                         
@@ -320,6 +933,7 @@ const App: React.FC = () => {
                             <div className="grid grid-cols-2 gap-2 text-xs">
                                 <div>FPS: <b>{fps}</b></div>
                                 <div>Cycles: <b>{cycles.length}</b></div>
+                                <div className="col-span-2">Verified: <b className={cycles.some(c => !c.verified) ? 'text-amber-600' : 'text-green-600'}>{cycles.filter(c => c.verified).length}/{cycles.length}</b></div>
                             </div>
                         </fieldset>
 
@@ -330,22 +944,76 @@ const App: React.FC = () => {
                             </div>
                             <div className="flex-grow overflow-y-auto p-1 space-y-1">
                                 {triggerSteps.map((s, i) => (
-                                    <div key={s.id} className="flex items-center justify-between text-xs p-1 hover:bg-[#cce8ff] border border-transparent hover:border-[#99d1ff] cursor-pointer">
-                                        <div className="flex items-center gap-2"><span className="font-bold text-blue-700">{i+1}.</span><span>{s.name}</span></div>
-                                        <button onClick={() => removeStep(s.id)}><X size={12} className="text-gray-500 hover:text-red-500"/></button>
+                                    <div key={s.id} className="text-xs p-1 hover:bg-[#cce8ff] border border-transparent hover:border-[#99d1ff] cursor-pointer">
+                                        <div className="flex items-center justify-between">
+                                            <div className="flex items-center gap-2"><span className="font-bold text-blue-700">{i+1}.</span><span>{s.name}</span></div>
+                                            <div className="flex items-center gap-2">
+                                                <select className="text-[10px] border border-gray-300 bg-white outline-none" value={s.activity || 'Operation'} onChange={(e) => updateStep(s.id, { activity: e.target.value as ActivityType })} title="Element activity">
+                                                    {(['Operation', 'Transport', 'Inspection', 'Delay', 'Hold'] as ActivityType[]).map(a => <option key={a} value={a}>{a}</option>)}
+                                                </select>
+                                                <span className="text-[10px] text-gray-400" title="Hit count">{s.hitCount}×</span>
+                                                <button onClick={() => removeStep(s.id)}><X size={12} className="text-gray-500 hover:text-red-500"/></button>
+                                            </div>
+                                        </div>
+                                        <div className="flex items-center justify-between pl-5 mt-0.5 text-[10px] text-gray-500">
+                                            <div className="flex items-center gap-2" title="Applied on next ARM / batch run">
+                                                <select className="border border-gray-300 bg-white outline-none" value={s.referenceMode || 'static'} onChange={(e) => updateStep(s.id, { referenceMode: e.target.value as TriggerStep['referenceMode'] })}>
+                                                    <option value="static">Static ref</option>
+                                                    <option value="adaptive">Adaptive ref</option>
+                                                </select>
+                                                <label className="flex items-center gap-1"><input type="checkbox" checked={!!s.normalizeExposure} onChange={(e) => updateStep(s.id, { normalizeExposure: e.target.checked })}/> Exposure</label>
+                                            </div>
+                                            <span className={s.falseTriggerCount ? 'text-amber-600' : ''} title="Sequences started here that were too short (false triggers)">{s.falseTriggerCount || 0} false</span>
+                                        </div>
                                     </div>
                                 ))}
                             </div>
                         </div>
 
                         <div className="h-48 border border-gray-400 bg-white p-1">
-                             <YamazumiChart cycles={cycles} taktTime={taktTime} onCycleClick={(time) => setSeekRequest({ time, id: Date.now() })} />
+                             <YamazumiChart cycles={cycles} taktTime={taktTime} tasks={workStudyTasks} line={line} onLineChange={setLine} baselines={yamazumiBaselines} onBaselinesChange={setYamazumiBaselines} onCycleClick={(time) => setSeekRequest({ time, id: Date.now() })} />
                         </div>
                     </div>
                 </div>
             </div>
         ) : 
-         (<div className="w-full h-full p-2"><WorkStudy videoSrc={videoSrc} tasks={workStudyTasks} setTasks={setWorkStudyTasks} /></div>)}
+         activeTab === 'workstudy' ? (<div className="w-full h-full p-2"><WorkStudy videoSrc={videoSrc} tasks={workStudyTasks} setTasks={setWorkStudyTasks} logisticsEvents={modules.logisticsEvents || []} setLogisticsEvents={moduleSetters.logisticsEvents} observationTarget={observationTarget} onObservationTargetChange={setObservationTarget} /></div>) :
+         activeTab === 'balance' ? (
+            <div className="w-full h-full p-2">
+                <Rearrangement
+                    key={project?.id}
+                    sourceTasks={workStudyTasks}
+                    defaultTaktTime={taktTime}
+                    dependencies={modules.dependencies || NO_DEPENDENCIES}
+                    setDependencies={moduleSetters.dependencies}
+                    line={line}
+                    onLineChange={setLine}
+                    savedState={modules.rearrangement}
+                    onStateChange={moduleSetters.rearrangement}
+                />
+            </div>
+         ) :
+         activeTab === 'twin' ? (
+            <div className="w-full h-full p-2">
+                <ProductionDigitalTwin key={project?.id} tasks={workStudyTasks} taktTime={taktTime} line={line} savedStations={modules.digitalTwin} onStationsChange={moduleSetters.digitalTwin} />
+            </div>
+         ) :
+         activeTab === 'simulation' ? (
+            <div className="w-full h-full p-2">
+                <SimulationAnalysis key={project?.id} tasks={workStudyTasks} defaultTaktTime={taktTime} savedResults={modules.simulation} onResults={moduleSetters.simulation} />
+            </div>
+         ) :
+         activeTab === 'multiaxial' ? (
+            <div className="w-full h-full p-2">
+                <MultiAxialAnalysis
+                    resources={(modules.multiAxial || DEFAULT_MULTI_AXIAL).resources}
+                    setResources={moduleSetters.multiAxialResources}
+                    events={(modules.multiAxial || DEFAULT_MULTI_AXIAL).events}
+                    setEvents={moduleSetters.multiAxialEvents}
+                />
+            </div>
+         ) :
+         (<div className="w-full h-full p-2"><ErgonomicsAnalysis key={`${project?.id}:${videoSrc}`} videoSrc={videoSrc} initialData={modules.ergonomics} onDataUpdate={moduleSetters.ergonomics} /></div>)}
       </div>
 
       {/* STATUS BAR */}
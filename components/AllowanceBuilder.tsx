@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, Save, Trash2, X } from 'lucide-react';
+import { AllowanceBreakdown, AllowanceProfile, IloFactor } from '../types';
+import { DEFAULT_ALLOWANCE, ILO_FACTORS, ILO_FACTOR_KEYS, allowanceParts } from '../utils/allowance';
+import { AllowanceProfiles } from '../services/AllowanceProfiles';
+
+interface Props {
+  taskName: string;
+  initial?: AllowanceBreakdown;      // Breakdown already on the element
+  onApply: (breakdown: AllowanceBreakdown, scope: 'task' | 'all') => void;
+  onClose: () => void;
+}
+
+const AllowanceBuilder: React.FC<Props> = ({ taskName, initial, onApply, onClose }) => {
+  const [breakdown, setBreakdown] = useState<AllowanceBreakdown>(initial || DEFAULT_ALLOWANCE);
+  const [profiles, setProfiles] = useState<AllowanceProfile[]>(() => AllowanceProfiles.list());
+  const current = profiles.find(p => p.id === breakdown.profileId);
+  const [plant, setPlant] = useState(current?.plant || '');
+  const [name, setName] = useState(current?.name || '');
+
+  const parts = allowanceParts(breakdown);
+  const plants = Array.from(new Set(profiles.map(p => p.plant)));
+
+  // Any edit makes the breakdown its own, no longer the profile's
+  const edit = (patch: Partial<AllowanceBreakdown>) => setBreakdown(b => ({ ...b, ...patch, profileId: undefined }));
+  const setFactor = (factor: IloFactor, level: string) => edit({ factors: { ...breakdown.factors, [factor]: level || undefined } });
+
+  const loadProfile = (id: string) => {
+      const profile = profiles.find(p => p.id === id);
+      if (!profile) return;
+      setBreakdown({ ...profile.breakdown, profileId: profile.id });
+      setPlant(profile.plant);
+      setName(profile.name);
+  };
+
+  const saveProfile = () => {
+      if (!plant.trim() || !name.trim()) return;
+      const profile = AllowanceProfiles.save(plant.trim(), name.trim(), breakdown);
+      setProfiles(AllowanceProfiles.list());
+      setBreakdown(b => ({ ...b, profileId: profile.id }));
+  };
+
+  const removeProfile = () => {
+      if (!current || !confirm(`Delete profile "${current.plant} / ${current.name}"?`)) return;
+      AllowanceProfiles.remove(current.id);
+      setProfiles(AllowanceProfiles.list());
+      setBreakdown(b => ({ ...b, profileId: undefined }));
+  };
+
+  const numberInput = (value: number, onChange: (v: number) => void) => (
+      <input type="number" min={0} step={0.5} className="w-16 border border-gray-300 rounded px-1 text-right outline-none focus:border-blue-400" value={value} onChange={(e) => onChange(parseFloat(e.target.value) || 0)} />
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-[60] flex items-center justify-center p-4" onMouseDown={onClose}>
+      <div className="bg-white border border-[#a0a0a0] shadow-2xl w-full max-w-xl max-h-[85vh] flex flex-col text-xs" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-3 py-2 border-b border-gray-300 bg-[#f0f0f0]">
+          <span className="font-bold text-gray-700 flex items-center gap-2"><SlidersHorizontal size={14} className="text-blue-600"/> Allowance Builder · {taskName}</span>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700"><X size={16}/></button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-3 space-y-3">
+          {/* Plant profiles */}
+          <div className="flex items-center gap-2">
+            <label className="text-gray-600 shrink-0">Profile</label>
+            <select className="flex-grow border border-gray-300 rounded px-1 py-0.5 outline-none" value={breakdown.profileId || ''} onChange={(e) => loadProfile(e.target.value)}>
+              <option value="">— กำหนดเอง (Custom) —</option>
+              {plants.map(pl => (
+                <optgroup key={pl} label={pl}>
+                  {profiles.filter(p => p.plant === pl).map(p => <option key={p.id} value={p.id}>{p.name} ({allowanceParts(p.breakdown).total}%)</option>)}
+                </optgroup>
+              ))}
+            </select>
+            <button onClick={removeProfile} disabled={!current} className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-30" title="Delete profile"><Trash2 size={13}/></button>
+          </div>
+
+          <fieldset className="border border-gray-300 rounded p-2 space-y-1">
+            <legend className="px-1 font-bold text-gray-600">Personal & Delay</legend>
+            <div className="flex items-center justify-between"><label>Personal (P) %</label>{numberInput(breakdown.personal, v => edit({ personal: v }))}</div>
+            <div className="flex items-center justify-between"><label>Delay (D) %</label>{numberInput(breakdown.delay, v => edit({ delay: v }))}</div>
+          </fieldset>
+
+          <fieldset className="border border-gray-300 rounded p-2 space-y-1">
+            <legend className="px-1 font-bold text-gray-600">Fatigue (F) — ILO</legend>
+            <div className="flex items-center justify-between"><label>Basic fatigue %</label>{numberInput(breakdown.basicFatigue, v => edit({ basicFatigue: v }))}</div>
+            {ILO_FACTOR_KEYS.map(f => (
+              <div key={f} className="flex items-center justify-between gap-2">
+                <label className="text-gray-700">{ILO_FACTORS[f].label}</label>
+                <select className="w-56 border border-gray-300 rounded px-1 py-0.5 outline-none" value={breakdown.factors[f] || ''} onChange={(e) => setFactor(f, e.target.value)}>
+                  <option value="">— ไม่มี (None) —</option>
+                  {ILO_FACTORS[f].levels.map(l => <option key={l.id} value={l.id}>{l.label} (+{l.value}%)</option>)}
+                </select>
+              </div>
+            ))}
+          </fieldset>
+
+          <div className="grid grid-cols-4 gap-2 text-center">
+            <div className="border border-gray-200 rounded p-1"><div className="text-gray-500">P</div><div className="font-bold">{parts.personal}%</div></div>
+            <div className="border border-gray-200 rounded p-1"><div className="text-gray-500">F</div><div className="font-bold">{parts.fatigue}%</div></div>
+            <div className="border border-gray-200 rounded p-1"><div className="text-gray-500">D</div><div className="font-bold">{parts.delay}%</div></div>
+            <div className="border border-green-300 bg-green-50 rounded p-1"><div className="text-green-700">Total</div><div className="font-bold text-green-700">{parts.total}%</div></div>
+          </div>
+
+          <div className="flex items-center gap-2 pt-2 border-t border-gray-200">
+            <input className="w-32 border border-gray-300 rounded px-2 py-0.5 outline-none focus:border-blue-400" placeholder="โรงงาน (Plant)" value={plant} onChange={(e) => setPlant(e.target.value)} list="allowance-plants" />
+            <datalist id="allowance-plants">{plants.map(pl => <option key={pl} value={pl} />)}</datalist>
+            <input className="flex-grow border border-gray-300 rounded px-2 py-0.5 outline-none focus:border-blue-400" placeholder="ชื่อโปรไฟล์ เช่น Assembly line" value={name} onChange={(e) => setName(e.target.value)} />
+            <button onClick={saveProfile} disabled={!plant.trim() || !name.trim()} className="flex items-center gap-1 px-2 py-0.5 rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-50"><Save size={12}/> Save Profile</button>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 px-3 py-2 border-t border-gray-300 bg-[#f0f0f0]">
+          <button onClick={() => onApply(breakdown, 'all')} className="px-3 py-1 rounded border border-gray-300 bg-white hover:bg-gray-100">ใช้กับทุกงาน (All Elements)</button>
+          <button onClick={() => onApply(breakdown, 'task')} className="px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-700">ใช้กับงานนี้ (Apply)</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AllowanceBuilder;
@@ -2,6 +2,7 @@
 import React from 'react';
 import { Cycle } from '../types';
 import { Clock, Download, FileSpreadsheet } from 'lucide-react';
+import { buildCycleReport } from '../utils/reports';
 import XLSX from 'xlsx';
 
 interface Props {
@@ -17,58 +18,9 @@ const CycleLog: React.FC<Props> = ({ cycles }) => {
         return;
     }
 
-    // 1. Calculate Stats (Exclude Abnormal for Avg)
-    const validDurations = cycles.filter(c => c.status !== 'abnormal').map(c => c.duration);
-    const totalTime = validDurations.reduce((a, b) => a + b, 0);
-    const avgTime = validDurations.length > 0 ? totalTime / validDurations.length : 0;
-    const minTime = validDurations.length > 0 ? Math.min(...validDurations) : 0;
-    const maxTime = validDurations.length > 0 ? Math.max(...validDurations) : 0;
-    const range = maxTime - minTime;
-    const stdDev = validDurations.length > 0 ? Math.sqrt(validDurations.reduce((a, b) => a + Math.pow(b - avgTime, 2), 0) / validDurations.length) : 0;
-    
-    // 2. Prepare Data Sheets
-    const wb = XLSX.utils.book_new();
+    const wb = buildCycleReport(cycles);
 
-    // --- Sheet 1: Summary Report ---
-    const summaryData: any[][] = [
-        ["AI ANALYST - PRODUCTION REPORT"],
-        ["Generated:", new Date().toLocaleString()],
-        [],
-        ["SUMMARY STATISTICS (Valid Cycles)", "", "CAPACITY ANALYSIS (Est.)"],
-        ["Total Cycles", String(cycles.length), "Shift Duration (Hrs)", "8"],
-        ["Valid Cycles", String(validDurations.length), "Abnormal/Break Cycles", String(cycles.length - validDurations.length)],
-        ["Average Cycle Time", avgTime.toFixed(3), "Operating Time (Min)", "460"],
-        ["Minimum Time", minTime.toFixed(3), "Daily Output (Units)", avgTime > 0 ? String(Math.floor((460*60)/avgTime)) : "-"],
-        ["Maximum Time", maxTime.toFixed(3), "Utilization %", "100%"], // Placeholder
-        ["Range (Fluctuation)", range.toFixed(3)],
-        ["Standard Deviation", stdDev.toFixed(3)],
-        ["Stability Score", stdDev < 1 ? "HIGH" : stdDev < 3 ? "MEDIUM" : "LOW"],
-    ];
-    const wsSummary = XLSX.utils.aoa_to_sheet(summaryData);
-    
-    // Style adjustments (width)
-    (wsSummary as any)['!cols'] = [{ wch: 20 }, { wch: 15 }, { wch: 20 }, { wch: 15 }];
-    XLSX.utils.book_append_sheet(wb, wsSummary, "Summary Report");
-
-    // --- Sheet 2: Raw Data ---
-    const rawData: any[][] = [
-        ["Cycle ID", "Start Time (s)", "End Time (s)", "Duration (s)", "Status", "Deviation from Avg"]
-    ];
-    cycles.forEach(c => {
-        rawData.push([
-            c.id,
-            c.startTime.toFixed(3),
-            c.endTime.toFixed(3),
-            c.duration.toFixed(3),
-            c.status.toUpperCase(),
-            (c.duration - avgTime).toFixed(3)
-        ]);
-    });
-    const wsRaw = XLSX.utils.aoa_to_sheet(rawData);
-    (wsRaw as any)['!cols'] = [{ wch: 15 }, { wch: 15 }, { wch: 15 }, { wch: 15 }, { wch: 10 }, { wch: 15 }];
-    XLSX.utils.book_append_sheet(wb, wsRaw, "Raw Data");
-
-    // 3. Save File
+    // Save File
     XLSX.writeFile(wb, `Yamazumi_Report_${new Date().toISOString().slice(0,10)}.xlsx`);
   };
 
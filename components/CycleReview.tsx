@@ -0,0 +1,249 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { CheckCircle, Circle, Scissors, Merge, Trash2, ShieldCheck } from 'lucide-react';
+import { AIActionType, Cycle } from '../types';
+import { mergeCycles, retimeCycle, splitCycle } from '../utils/cycleEdits';
+import { snapToFrame } from '../utils/frameClock';
+import { ACTION_TYPES } from '../utils/actionTimeline';
+
+interface Props {
+  cycles: Cycle[];
+  taktTime: number;
+  frameRate?: number | null;           // Edited times snap to frames when known
+  onChange: (cycles: Cycle[]) => void; // Full corrected log, in time order
+  onSeek?: (time: number) => void;
+}
+
+type DragTarget = 'start' | 'end' | 'split';
+
+const AI_LABELS: NonNullable<Cycle['aiLabel']>[] = ['Operation', 'Transport', 'Idle', 'Unknown'];
+
+const ACTION_STYLE: Record<AIActionType, string> = {
+  OPERATION: 'bg-emerald-500',
+  SETUP: 'bg-amber-400',
+  TRANSPORT: 'bg-sky-500',
+  IDLE: 'bg-rose-400'
+};
+
+const STATUS_STYLE: Record<Cycle['status'], string> = {
+  ok: 'bg-emerald-500',
+  over: 'bg-rose-500',
+  abnormal: 'bg-purple-500'
+};
+
+const CycleReview: React.FC<Props> = ({ cycles, taktTime, frameRate, onChange, onSeek }) => {
+  const sorted = useMemo(() => [...cycles].sort((a, b) => a.startTime - b.startTime), [cycles]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<{ start: number, end: number, split: number } | null>(null);
+  const timelineRef = useRef<HTMLDivElement>(null);
+
+  const selectedIndex = sorted.findIndex(c => c.id === selectedId);
+  const selected = selectedIndex >= 0 ? sorted[selectedIndex] : null;
+  const prev = selectedIndex > 0 ? sorted[selectedIndex - 1] : null;
+  const next = selectedIndex >= 0 && selectedIndex < sorted.length - 1 ? sorted[selectedIndex + 1] : null;
+  const verifiedCount = sorted.filter(c => c.verified).length;
+
+  // Timeline window: the selected cycle with its neighbours, or the whole log
+  const view = useMemo(() => {
+    if (sorted.length === 0) return { start: 0, end: 1 };
+    const from = selected ? (prev || selected) : sorted[0];
+    const to = selected ? (next || selected) : sorted[sorted.length - 1];
+    const pad = Math.max(0.5, (to.endTime - from.startTime) * 0.05);
+    return { start: Math.max(0, from.startTime - pad), end: to.endTime + pad };
+  }, [sorted, selected, prev, next]);
+
+  const toPercent = (t: number) => ((t - view.start) / (view.end - view.start)) * 100;
+
+  const commit = (updated: Cycle[]) => onChange([...updated].sort((a, b) => a.startTime - b.startTime));
+  const replaceAt = (index: number, ...items: Cycle[]) => {
+    const list = [...sorted];
+    list.splice(index, 1, ...items);
+    commit(list);
+  };
+
+  const select = (cycle: Cycle) => {
+    setSelectedId(cycle.id);
+    setDraft({ start: cycle.startTime, end: cycle.endTime, split: (cycle.startTime + cycle.endTime) / 2 });
+    onSeek?.(cycle.startTime);
+  };
+
+  // --- TIMELINE DRAG (start/end retime, split marker) ---
+  const startDrag = (target: DragTarget, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!selected || !draft || !timelineRef.current) return;
+    const rect = timelineRef.current.getBoundingClientRect();
+    const minStart = prev ? prev.endTime : 0;
+    const maxEnd = next ? next.startTime : Infinity;
+    let current = { ...draft };
+
+    const onMove = (ev: MouseEvent) => {
+      const raw = view.start + ((ev.clientX - rect.left) / rect.width) * (view.end - view.start);
+      const t = frameRate ? snapToFrame(raw, frameRate) : raw;
+      if (target === 'start') current = { ...current, start: Math.min(Math.max(t, minStart), current.end - 0.1) };
+      else if (target === 'end') current = { ...current, end: Math.max(Math.min(t, maxEnd), current.start + 0.1) };
+      else current = { ...current, split: Math.min(Math.max(t, current.start + 0.1), current.end - 0.1) };
+      if (current.split <= current.start || current.split >= current.end) current.split = (current.start + current.end) / 2;
+      setDraft(current);
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+      if (target !== 'split' && (current.start !== selected.startTime || current.end !== selected.endTime)) {
+        replaceAt(selectedIndex, retimeCycle(selected, current.start, current.end, taktTime));
+      }
+      onSeek?.(target === 'end' ? current.end : target === 'start' ? current.start : current.split);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  // --- ACTIONS ---
+  const handleSplit = () => {
+    if (!selected || !draft) return;
+    const parts = splitCycle(selected, draft.split, taktTime, Date.now());
+    if (!parts) { alert("Split point is too close to the cycle start or end"); return; }
+    replaceAt(selectedIndex, ...parts);
+    setDraft({ start: parts[0].startTime, end: parts[0].endTime, split: (parts[0].startTime + parts[0].endTime) / 2 });
+  };
+
+  const handleMerge = () => {
+    if (!selected || !next) return;
+    const merged = mergeCycles(selected, next, taktTime);
+    const list = sorted.filter(c => c.id !== next.id).map(c => c.id === selected.id ? merged : c);
+    commit(list);
+    setDraft({ start: merged.startTime, end: merged.endTime, split: (merged.startTime + merged.endTime) / 2 });
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    if (!confirm(`Delete cycle ${selectedIndex + 1}? Its rounds are removed from Work Study.`)) return;
+    commit(sorted.filter(c => c.id !== selected.id));
+    setSelectedId(null);
+    setDraft(null);
+  };
+
+  const updateCycle = (id: number, changes: Partial<Cycle>) => {
+    commit(sorted.map(c => c.id === id ? { ...c, ...changes } : c));
+  };
+
+  const verifyAll = () => commit(sorted.map(c => c.verified ? c : { ...c, verified: true }));
+
+  if (sorted.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center bg-white text-gray-400">
+        <ShieldCheck size={24} className="mb-1 text-gray-300" />
+        <p className="text-xs">No cycles to review yet.</p>
+      </div>
+    );
+  }
+
+  const shown = selected && draft ? { ...selected, startTime: draft.start, endTime: draft.end } : null;
+
+  return (
+    <div className="h-full flex flex-col bg-white text-xs">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between px-2 py-1 border-b border-gray-200 text-[10px] text-gray-600 shrink-0">
+        <div className="flex items-center gap-3">
+          <span className="font-bold text-gray-700 flex items-center gap-1"><ShieldCheck size={12}/> Cycle Review</span>
+          <span className={verifiedCount === sorted.length ? 'text-emerald-600 font-bold' : 'text-amber-600 font-bold'}>
+            Verified {verifiedCount}/{sorted.length}
+          </span>
+          <button onClick={verifyAll} disabled={verifiedCount === sorted.length} className="px-1.5 py-0.5 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50">Verify all</button>
+        </div>
+        <div className="flex items-center gap-1">
+          {selected && <span className="mr-2 text-gray-500">Cycle {selectedIndex + 1}: {(draft?.start ?? selected.startTime).toFixed(2)}s – {(draft?.end ?? selected.endTime).toFixed(2)}s</span>}
+          <button onClick={handleSplit} disabled={!selected} className="flex items-center gap-1 px-1.5 py-0.5 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50" title="Split at the blue marker"><Scissors size={10}/> Split</button>
+          <button onClick={handleMerge} disabled={!selected || !next} className="flex items-center gap-1 px-1.5 py-0.5 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50" title="Merge with the next cycle"><Merge size={10}/> Merge</button>
+          <button onClick={handleDelete} disabled={!selected} className="flex items-center gap-1 px-1.5 py-0.5 border border-gray-300 rounded hover:bg-red-50 hover:text-red-600 disabled:opacity-50"><Trash2 size={10}/> Delete</button>
+        </div>
+      </div>
+
+      {/* Timeline */}
+      <div ref={timelineRef} className="relative h-8 mx-2 my-1 bg-gray-100 border border-gray-300 rounded shrink-0 overflow-hidden">
+        {sorted.map((c, i) => {
+          const isSel = c.id === selectedId && shown;
+          const start = isSel ? shown!.startTime : c.startTime;
+          const end = isSel ? shown!.endTime : c.endTime;
+          if (end < view.start || start > view.end) return null;
+          return (
+            <div
+              key={c.id}
+              onClick={() => select(c)}
+              className={`absolute top-1 bottom-1 rounded-sm cursor-pointer ${STATUS_STYLE[c.status]} ${isSel ? 'opacity-100 ring-2 ring-blue-600' : 'opacity-60 hover:opacity-80'}`}
+              style={{ left: `${toPercent(start)}%`, width: `${Math.max(0.3, toPercent(end) - toPercent(start))}%` }}
+              title={`#${i + 1} ${c.duration.toFixed(2)}s`}
+            >
+              {isSel && (
+                <>
+                  <div onMouseDown={(e) => startDrag('start', e)} className="absolute left-0 top-0 bottom-0 w-1.5 bg-blue-700 cursor-ew-resize" title="Drag to retime start"></div>
+                  <div onMouseDown={(e) => startDrag('end', e)} className="absolute right-0 top-0 bottom-0 w-1.5 bg-blue-700 cursor-ew-resize" title="Drag to retime end"></div>
+                </>
+              )}
+              {!isSel && !c.verified && <span className="absolute top-0 right-0.5 text-white text-[8px]">?</span>}
+            </div>
+          );
+        })}
+        {shown && draft && (
+          <div
+            onMouseDown={(e) => startDrag('split', e)}
+            className="absolute top-0 bottom-0 w-0.5 bg-blue-500 cursor-ew-resize"
+            style={{ left: `${toPercent(draft.split)}%` }}
+            title="Split marker"
+          ></div>
+        )}
+      </div>
+
+      {/* List */}
+      <div className="flex-grow overflow-y-auto border-t border-gray-200">
+        <table className="w-full text-left">
+          <thead className="text-[10px] text-gray-500 bg-gray-50 sticky top-0">
+            <tr>
+              <th className="px-2 py-0.5">#</th>
+              <th className="px-2 py-0.5"></th>
+              <th className="px-2 py-0.5">Start</th>
+              <th className="px-2 py-0.5">Duration</th>
+              <th className="px-2 py-0.5">Status</th>
+              <th className="px-2 py-0.5">AI Label</th>
+              <th className="px-2 py-0.5">Actions</th>
+              <th className="px-2 py-0.5 text-center">Verified</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((c, i) => (
+              <tr key={c.id} onClick={() => select(c)} className={`cursor-pointer border-b border-gray-100 ${c.id === selectedId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}>
+                <td className="px-2 py-0.5 font-mono text-gray-500">{i + 1}</td>
+                <td className="px-2 py-0.5">{c.thumbnail ? <img src={c.thumbnail} className="w-10 h-6 object-cover border border-gray-300"/> : <div className="w-10 h-6 bg-gray-100 border border-gray-200"></div>}</td>
+                <td className="px-2 py-0.5 font-mono">{c.startTime.toFixed(2)}s</td>
+                <td className="px-2 py-0.5 font-mono font-bold">{c.duration.toFixed(2)}s</td>
+                <td className="px-2 py-0.5" onClick={(e) => e.stopPropagation()}>
+                  <select className="text-[10px] border border-gray-300 bg-white outline-none" value={c.status} onChange={(e) => updateCycle(c.id, { status: e.target.value as Cycle['status'], verified: true })}>
+                    <option value="ok">ok</option>
+                    <option value="over">over</option>
+                    <option value="abnormal">abnormal</option>
+                  </select>
+                </td>
+                <td className="px-2 py-0.5" onClick={(e) => e.stopPropagation()}>
+                  <select className="text-[10px] border border-gray-300 bg-white outline-none" value={c.aiLabel || 'Unknown'} onChange={(e) => updateCycle(c.id, { aiLabel: e.target.value as Cycle['aiLabel'], verified: true })}>
+                    {AI_LABELS.map(l => <option key={l} value={l}>{l}</option>)}
+                  </select>
+                </td>
+                <td className="px-2 py-0.5">
+                  {c.actionTime ? (
+                    <div className="flex w-24 h-2 rounded overflow-hidden bg-gray-100" title={ACTION_TYPES.map(a => `${a}: ${c.actionTime![a].toFixed(1)}s`).join('\n')}>
+                      {ACTION_TYPES.map(a => <div key={a} className={ACTION_STYLE[a]} style={{ width: `${(c.actionTime![a] / c.duration) * 100}%` }}></div>)}
+                    </div>
+                  ) : <span className="text-gray-300">-</span>}
+                </td>
+                <td className="px-2 py-0.5 text-center" onClick={(e) => { e.stopPropagation(); updateCycle(c.id, { verified: !c.verified }); }}>
+                  {c.verified ? <CheckCircle size={14} className="inline text-emerald-600"/> : <Circle size={14} className="inline text-gray-300 hover:text-emerald-500"/>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CycleReview;
@@ -3,10 +3,13 @@ import React, { useRef, useEffect, useState, useMemo } from 'react';
 import { Play, Pause, Activity, User, AlertTriangle, Info, TrendingUp, ShieldAlert, CheckCircle } from 'lucide-react';
 import { ErgoFrame } from '../types';
 import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { createVisionClient, VisionClient } from '../workers/visionClient';
+import { PoseLandmark } from '../workers/visionProtocol';
 
 interface Props {
   videoSrc: string | null;
   onDataUpdate?: (data: ErgoFrame[]) => void;
+  initialData?: ErgoFrame[]; // Frames saved with the project
 }
 
 // MediaPipe Pose Landmark Indices
@@ -19,7 +22,7 @@ const LM = {
   LEFT_EAR: 7, RIGHT_EAR: 8,
 };
 
-const ErgonomicsAnalysis: React.FC<Props> = ({ videoSrc, onDataUpdate }) => {
+const ErgonomicsAnalysis: React.FC<Props> = ({ videoSrc, onDataUpdate, initialData }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isPoseReady, setIsPoseReady] = useState(false);
@@ -28,10 +31,11 @@ const ErgonomicsAnalysis: React.FC<Props> = ({ videoSrc, onDataUpdate }) => {
   const [duration, setDuration] = useState(0);
   
   // Analysis State
-  const [ergoData, setErgoData] = useState<ErgoFrame[]>([]);
+  const [ergoData, setErgoData] = useState<ErgoFrame[]>(initialData || []);
   const [currentFrameData, setCurrentFrameData] = useState<ErgoFrame | null>(null);
   
-  const poseRef = useRef<any>(null);
+  const poseClientRef = useRef<VisionClient | null>(null);
+  const poseInFlight = useRef(false);
   const requestRef = useRef<number>(0);
   const lastProcessTime = useRef<number>(0);
 
@@ -43,26 +47,26 @@ const ErgonomicsAnalysis: React.FC<Props> = ({ videoSrc, onDataUpdate }) => {
       }
   }, [ergoData, onDataUpdate]);
 
-  // Initialize MediaPipe Pose
+  // Pose landmarks come from the vision worker (full model for accuracy)
   useEffect(() => {
-    const loadPose = async () => {
-      if ((window as any).Pose) {
-        const pose = new (window as any).Pose({
-          locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/pose@0.5.1675469404/${file}`,
-        });
-        pose.setOptions({
-          modelComplexity: 1,
-          smoothLandmarks: true,
-          minDetectionConfidence: 0.5,
-          minTrackingConfidence: 0.5,
-        });
-        pose.onResults(onResults);
-        poseRef.current = pose;
+    let disposed = false;
+    const client = createVisionClient();
+    client.initPose('full')
+      .then(() => {
+        if (disposed) return;
+        poseClientRef.current = client;
         setIsPoseReady(true);
-      }
+      })
+      .catch(err => {
+        if (disposed) return;
+        console.error("Failed to init Pose worker", err);
+        client.dispose();
+      });
+    return () => {
+      disposed = true;
+      client.dispose();
+      poseClientRef.current = null;
     };
-    loadPose();
-    return () => { if (poseRef.current) poseRef.current.close(); };
   }, []);
 
   // Geometry Helpers
@@ -114,7 +118,7 @@ const ErgonomicsAnalysis: React.FC<Props> = ({ videoSrc, onDataUpdate }) => {
       return { score: total, level };
   };
 
-  const onResults = (results: any) => {
+  const onResults = (lm: PoseLandmark[] | null, time: number) => {
     if (!canvasRef.current || !videoRef.current) return;
     const ctx = canvasRef.current.getContext('2d');
     if (!ctx) return;
@@ -124,14 +128,13 @@ const ErgonomicsAnalysis: React.FC<Props> = ({ videoSrc, onDataUpdate }) => {
 
     ctx.clearRect(0, 0, width, height);
     
-    if (results.poseLandmarks) {
+    if (lm) {
       // 1. Draw Skeleton (Standard)
-      (window as any).drawConnectors(ctx, results.poseLandmarks, (window as any).POSE_CONNECTIONS, { color: '#ffffff55', lineWidth: 2 });
-      (window as any).drawLandmarks(ctx, results.poseLandmarks, { color: '#3b82f6', lineWidth: 1, radius: 3 });
+      (window as any).drawConnectors(ctx, lm, (window as any).POSE_CONNECTIONS, { color: '#ffffff55', lineWidth: 2 });
+      (window as any).drawLandmarks(ctx, lm, { color: '#3b82f6', lineWidth: 1, radius: 3 });
 
       // 2. Extract Key Points (Averaging Left/Right for side view mostly, or pick visible side)
       // Logic: detect which shoulder is more visible? Or just use Right side default for demo
-      const lm = results.poseLandmarks;
       const nose = lm[LM.NOSE];
       const ear = lm[LM.RIGHT_EAR].visibility > lm[LM.LEFT_EAR].visibility ? lm[LM.RIGHT_EAR] : lm[LM.LEFT_EAR];
       const shoulder = lm[LM.RIGHT_SHOULDER].visibility > lm[LM.LEFT_SHOULDER].visibility ? lm[LM.RIGHT_SHOULDER] : lm[LM.LEFT_SHOULDER];
@@ -162,7 +165,7 @@ const ErgonomicsAnalysis: React.FC<Props> = ({ videoSrc, onDataUpdate }) => {
 
       // 5. Store Data
       const frameData: ErgoFrame = {
-          timestamp: videoRef.current.currentTime,
+          timestamp: time,
           neckAngle,
           trunkAngle,
           upperArmAngle,
@@ -210,11 +213,19 @@ const ErgonomicsAnalysis: React.FC<Props> = ({ videoSrc, onDataUpdate }) => {
   };
 
   const processFrame = () => {
-      if (videoRef.current && poseRef.current && isPoseReady) {
+      const video = videoRef.current;
+      const client = poseClientRef.current;
+      if (video && client && isPoseReady && video.readyState >= 2) {
           const now = performance.now();
-          if (now - lastProcessTime.current > 100) { // Limit AI FPS to ~10 for performance
-             poseRef.current.send({ image: videoRef.current });
+          if (now - lastProcessTime.current > 100 && !poseInFlight.current) { // Limit AI FPS to ~10 for performance
              lastProcessTime.current = now;
+             poseInFlight.current = true;
+             const time = video.currentTime;
+             createImageBitmap(video)
+                .then(bitmap => client.process(time, bitmap, { pose: true }))
+                .then(result => onResults(result.landmarks, result.time))
+                .catch(e => console.error("Pose Frame Error", e))
+                .finally(() => { poseInFlight.current = false; });
           }
       }
       requestRef.current = requestAnimationFrame(processFrame);
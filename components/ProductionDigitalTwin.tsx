@@ -1,13 +1,18 @@
 
 // ... (imports remain mostly the same, adding Edit/Trash icons)
 import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import { WorkStudyTask, StationNode, StationStatus } from '../types';
+import { WorkStudyTask, StationNode, StationStatus, LineConfig, DigitalTwinStation } from '../types';
+import { lineToStationNodes } from '../utils/yamazumi';
+import { elementTime, observedRounds, standardFactor } from '../utils/standardTime';
 import { Play, Pause, RotateCcw, Zap, Layers, Box, Activity, TrendingUp, AlertTriangle, ArrowRight, Settings, Target, BarChart2, Package, Signal, BrainCircuit, CheckCircle2, Edit3, Trash2, Plus, Save } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, CartesianGrid, ReferenceLine } from 'recharts';
 
 interface Props {
   tasks: WorkStudyTask[];
   taktTime: number;
+  line?: LineConfig | null; // Balanced line layout; otherwise every task is its own station
+  savedStations?: DigitalTwinStation[] | null;              // Station settings saved with the project; preferred over `line`
+  onStationsChange?: (stations: DigitalTwinStation[]) => void;
 }
 
 // --- LOGIC ENGINE ---
@@ -22,14 +27,13 @@ const generateNoise = (mean: number, stdDev: number) => {
 // Helper to map tasks to station data (Moved outside component to ensure definition availability)
 const mapTasksToStations = (sourceTasks: WorkStudyTask[]): StationNode[] => {
     return sourceTasks.map((t, idx) => {
-        // Calculate stats from existing rounds
-        const validRounds = t.rounds.filter(r => r);
-        const mean = validRounds.length > 0 
-            ? validRounds.reduce((acc, r) => acc + r!.total, 0) / validRounds.length
-            : 10; 
+        // Calculate stats from existing rounds, at standard time
+        const validRounds = observedRounds(t);
+        const time = elementTime(t);
+        const mean = validRounds.length > 0 ? time.standard : 10;
         
         const variance = validRounds.length > 1
-            ? Math.sqrt(validRounds.reduce((acc, r) => acc + Math.pow(r!.total - mean, 2), 0) / validRounds.length)
+            ? Math.sqrt(validRounds.reduce((acc, r) => acc + Math.pow(r!.total * standardFactor(t, r!) - time.standard, 2), 0) / validRounds.length)
             : mean * 0.1;
 
         return {
@@ -48,6 +52,19 @@ const mapTasksToStations = (sourceTasks: WorkStudyTask[]): StationNode[] => {
     });
 };
 
+// Saved settings back to a station ready for a cold start
+const stationFromConfig = (s: DigitalTwinStation, idx: number): StationNode => ({
+    ...s,
+    currentWIP: idx === 0 ? 50 : 0,
+    status: 'IDLE',
+    progress: 0,
+    totalProcessed: 0,
+    totalTimeState: { IDLE: 0, BUSY: 0, BLOCKED: 0, STARVED: 0, DOWN: 0 }
+});
+
+const stationConfig = (st: StationNode[]): DigitalTwinStation[] =>
+    st.map(({ id, name, baseCycleTime, variance, operators, bufferSize }) => ({ id, name, baseCycleTime, variance, operators, bufferSize }));
+
 interface TransitItem {
     id: number;
     fromIdx: number;
@@ -64,7 +81,7 @@ interface OptimizationProposal {
     roiScore: number; // Higher is better
 }
 
-const ProductionDigitalTwin: React.FC<Props> = ({ tasks, taktTime }) => {
+const ProductionDigitalTwin: React.FC<Props> = ({ tasks, taktTime, line, savedStations, onStationsChange }) => {
   // --- STATE ---
   const [stations, setStations] = useState<StationNode[]>([]);
   const [transits, setTransits] = useState<TransitItem[]>([]);
@@ -95,6 +112,7 @@ const ProductionDigitalTwin: React.FC<Props> = ({ tasks, taktTime }) => {
   
   const requestRef = useRef<number>();
   const lastTickRef = useRef<number>(0);
+  const reportedConfig = useRef(''); // Settings last passed to onStationsChange (JSON)
 
   // Defined updateLineEfficiency before usage
   const updateLineEfficiency = (st: StationNode[]) => {
@@ -110,7 +128,9 @@ const ProductionDigitalTwin: React.FC<Props> = ({ tasks, taktTime }) => {
       // Only initialize if engine is empty
       if (engineState.current.stations.length > 0) return;
 
-      const initialStations = mapTasksToStations(tasks);
+      const initialStations = savedStations?.length
+          ? savedStations.map(stationFromConfig)
+          : line ? lineToStationNodes(line, tasks) : mapTasksToStations(tasks);
       setStations(initialStations);
       updateLineEfficiency(initialStations);
 
@@ -124,6 +144,16 @@ const ProductionDigitalTwin: React.FC<Props> = ({ tasks, taktTime }) => {
       };
   }, []); // Run once on mount
 
+  // Station state also changes every tick; only report when a setting changed
+  useEffect(() => {
+      if (!onStationsChange || stations.length === 0) return;
+      const config = stationConfig(stations);
+      const key = JSON.stringify(config);
+      if (key === reportedConfig.current) return;
+      reportedConfig.current = key;
+      onStationsChange(config);
+  }, [stations]);
+
   // --- 2. LIVE PARAMETER INJECTION (Hot Update) ---
   useEffect(() => {
       // Block live updates if user is manually editing the model
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { FolderOpen, FilePlus, Copy, Trash2, Edit3, X, Check, ImageOff } from 'lucide-react';
+import { ProjectSummary } from '../types';
+
+interface Props {
+  projects: ProjectSummary[];
+  activeId: string | null;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const ProjectLibrary: React.FC<Props> = ({ projects, activeId, onOpen, onCreate, onRename, onDuplicate, onDelete, onClose }) => {
+  const [filter, setFilter] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  const visible = projects.filter(p => p.name.toLowerCase().includes(filter.trim().toLowerCase()));
+
+  const startRename = (p: ProjectSummary) => {
+      setEditingId(p.id);
+      setEditName(p.name);
+  };
+  const commitRename = () => {
+      if (editingId && editName.trim()) onRename(editingId, editName.trim());
+      setEditingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-[60] flex items-center justify-center p-4" onMouseDown={onClose}>
+      <div className="bg-white border border-[#a0a0a0] shadow-2xl w-full max-w-3xl max-h-[80vh] flex flex-col text-xs" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-3 py-2 border-b border-gray-300 bg-[#f0f0f0]">
+          <span className="font-bold text-gray-700 flex items-center gap-2"><FolderOpen size={14} className="text-blue-600"/> Project Library ({projects.length})</span>
+          <div className="flex items-center gap-2">
+            <input className="border border-gray-300 rounded px-2 py-0.5 w-48 outline-none focus:border-blue-400" placeholder="ค้นหาโปรเจกต์..." value={filter} onChange={(e) => setFilter(e.target.value)} />
+            <button onClick={onCreate} className="flex items-center gap-1 px-2 py-0.5 rounded bg-blue-600 text-white hover:bg-blue-700"><FilePlus size={12}/> New</button>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-700"><X size={16}/></button>
+          </div>
+        </div>
+
+        <div className="flex-grow overflow-y-auto divide-y divide-gray-100">
+          {visible.length === 0 && (
+            <div className="p-8 text-center text-gray-400">{projects.length === 0 ? 'ยังไม่มีโปรเจกต์' : 'ไม่พบโปรเจกต์ที่ค้นหา'}</div>
+          )}
+          {visible.map(p => (
+            <div key={p.id} className={`flex items-center gap-3 px-3 py-2 hover:bg-[#e5f3ff] ${p.id === activeId ? 'bg-blue-50' : ''}`} onDoubleClick={() => onOpen(p.id)}>
+              <div className="w-20 h-12 bg-gray-100 border border-gray-200 shrink-0 flex items-center justify-center overflow-hidden">
+                {p.thumbnail ? <img src={p.thumbnail} className="w-full h-full object-cover" /> : <ImageOff size={16} className="text-gray-300"/>}
+              </div>
+              <div className="flex-grow min-w-0">
+                {editingId === p.id ? (
+                  <div className="flex items-center gap-1">
+                    <input
+                      autoFocus
+                      className="border border-blue-400 rounded px-1 py-0.5 flex-grow outline-none"
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }}
+                    />
+                    <button onClick={commitRename} className="text-green-600 hover:text-green-800"><Check size={14}/></button>
+                  </div>
+                ) : (
+                  <div className="font-bold text-gray-800 truncate">
+                    {p.name}
+                    {p.id === activeId && <span className="ml-2 text-[10px] font-normal text-blue-600">(เปิดอยู่)</span>}
+                  </div>
+                )}
+                <div className="text-[10px] text-gray-500">
+                  แก้ไขล่าสุด {new Date(p.updatedAt).toLocaleString()} · สร้าง {new Date(p.createdAt).toLocaleDateString()}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <button onClick={() => onOpen(p.id)} disabled={p.id === activeId} className="px-2 py-0.5 border border-gray-300 rounded hover:bg-white disabled:opacity-40">Open</button>
+                <button onClick={() => startRename(p)} className="p-1 text-gray-400 hover:text-blue-600" title="Rename"><Edit3 size={13}/></button>
+                <button onClick={() => onDuplicate(p.id)} className="p-1 text-gray-400 hover:text-blue-600" title="Duplicate"><Copy size={13}/></button>
+                <button onClick={() => { if (confirm(`Delete project "${p.name}"? This cannot be undone.`)) onDelete(p.id); }} className="p-1 text-gray-400 hover:text-red-600" title="Delete"><Trash2 size={13}/></button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectLibrary;
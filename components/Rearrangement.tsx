@@ -1,13 +1,18 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { WorkStudyTask } from '../types';
-import { Users, RotateCcw, Zap, BarChart4, LayoutTemplate, Clock, Network, ArrowRight, DollarSign, AlertTriangle, CheckCircle2, X, Move } from 'lucide-react';
+import { WorkStudyTask, LineConfig, RearrangementState } from '../types';
+import { observedRounds, standardFactor } from '../utils/standardTime';
+import { Users, RotateCcw, Zap, BarChart4, LayoutTemplate, Clock, Network, ArrowRight, DollarSign, AlertTriangle, CheckCircle2, X, Move, Upload } from 'lucide-react';
 
 interface Props {
   sourceTasks: WorkStudyTask[];
   defaultTaktTime: number;
   dependencies: Record<string, string[]>;
   setDependencies: React.Dispatch<React.SetStateAction<Record<string, string[]>>>;
+  line?: LineConfig | null;                   // Shared line layout to start from
+  onLineChange?: (line: LineConfig) => void;  // Publishes the balanced stations to the line Yamazumi
+  savedState?: RearrangementState | null;     // Working layout saved with the project; preferred over `line`
+  onStateChange?: (state: RearrangementState) => void;
 }
 
 interface RearrangedTask {
@@ -25,14 +30,14 @@ interface TaskNode extends RearrangedTask {
     weight?: number; // For RPW
 }
 
-const Rearrangement: React.FC<Props> = ({ sourceTasks, defaultTaktTime, dependencies, setDependencies }) => {
-  const [taktTime, setTaktTime] = useState(defaultTaktTime);
+const Rearrangement: React.FC<Props> = ({ sourceTasks, defaultTaktTime, dependencies, setDependencies, line, onLineChange, savedState, onStateChange }) => {
+  const [taktTime, setTaktTime] = useState(savedState?.taktTime ?? defaultTaktTime);
   const [stations, setStations] = useState<TaskNode[][]>([[], [], []]);
   const [originalPool, setOriginalPool] = useState<TaskNode[]>([]);
   
   // Cost Parameters
-  const [laborRate, setLaborRate] = useState(15); // $/hr
-  const [targetEfficiency, setTargetEfficiency] = useState(85); // %
+  const [laborRate, setLaborRate] = useState(savedState?.laborRate ?? 15); // $/hr
+  const [targetEfficiency, setTargetEfficiency] = useState(savedState?.targetEfficiency ?? line?.plannedEfficiency ?? 85); // %
 
   const [viewMode, setViewMode] = useState<'yamazumi' | 'swct' | 'network'>('yamazumi');
   const [activeStationIdx, setActiveStationIdx] = useState(0);
@@ -49,12 +54,14 @@ const Rearrangement: React.FC<Props> = ({ sourceTasks, defaultTaktTime, dependen
   // Initialize Data
   useEffect(() => {
     const pool = sourceTasks.map(t => {
-        const validRounds = t.rounds.filter(r => r);
+        const validRounds = observedRounds(t);
         if (validRounds.length === 0) return null;
         
-        const ht = validRounds.reduce((acc, r) => acc + r!.ht, 0) / validRounds.length;
-        const wt = validRounds.reduce((acc, r) => acc + r!.wt, 0) / validRounds.length;
-        const mt = validRounds.reduce((acc, r) => acc + r!.mt, 0) / validRounds.length;
+        // Balanced at standard time: each part of the mean carries the element's rating and allowance
+        const factor = standardFactor(t);
+        const ht = factor * validRounds.reduce((acc, r) => acc + r!.ht, 0) / validRounds.length;
+        const wt = factor * validRounds.reduce((acc, r) => acc + r!.wt, 0) / validRounds.length;
+        const mt = factor * validRounds.reduce((acc, r) => acc + r!.mt, 0) / validRounds.length;
         
         return {
             id: t.id, // Use original ID for consistency
@@ -65,13 +72,28 @@ const Rearrangement: React.FC<Props> = ({ sourceTasks, defaultTaktTime, dependen
         };
     }).filter(t => t !== null) as TaskNode[];
 
-    // Initialize with all tasks in "Unassigned" or Station 1 if fresh
+    // Initialize from the saved working layout, the shared line layout, or with all
+    // tasks in Station 1 if fresh. Tasks the layout does not place yet start in Station 1.
     if (stations[0].length === 0 && stations[1].length === 0) {
-        setStations([pool, [], []]);
+        const layout = savedState?.stations.length ? savedState.stations : line?.stations.map(s => s.taskIds);
+        if (layout && layout.length > 0) {
+            const placed = new Set(layout.flat());
+            const seeded = layout.map(ids => ids.map(id => pool.find(t => t.id === id)).filter((t): t is TaskNode => !!t));
+            seeded[0] = [...seeded[0], ...pool.filter(t => !placed.has(t.id))];
+            while (seeded.length < 3) seeded.push([]);
+            setStations(seeded);
+        } else {
+            setStations([pool, [], []]);
+        }
     }
     setOriginalPool(pool);
   }, [sourceTasks]);
 
+  useEffect(() => {
+      if (!onStateChange || originalPool.length === 0) return; // Not initialized yet
+      onStateChange({ stations: stations.map(s => s.map(t => t.originalId)), taktTime, laborRate, targetEfficiency });
+  }, [stations, taktTime, laborRate, targetEfficiency]);
+
   // --- ALGORITHMS ---
 
   // 1. Helgeson-Birnie (Rank Positional Weight - RPW)
@@ -167,6 +189,25 @@ const Rearrangement: React.FC<Props> = ({ sourceTasks, defaultTaktTime, dependen
   };
 
   const addStation = () => setStations([...stations, []]);
+
+  // Writes the current assignment back to the shared line; stations keep their
+  // id, name and operator count by position, empty stations are dropped
+  const publishLine = () => {
+      if (!onLineChange) return;
+      const used = stations.filter(s => s.length > 0);
+      onLineChange({
+          stations: used.map((tasks, i) => {
+              const prev = line?.stations[i];
+              return {
+                  id: prev?.id || crypto.randomUUID(),
+                  name: prev?.name || `Station ${i + 1}`,
+                  operators: prev?.operators || 1,
+                  taskIds: tasks.map(t => t.originalId)
+              };
+          }),
+          plannedEfficiency: targetEfficiency
+      });
+  };
   
   const removeStation = (idx: number) => {
       if (stations[idx].length > 0) {
@@ -495,6 +536,9 @@ const Rearrangement: React.FC<Props> = ({ sourceTasks, defaultTaktTime, dependen
                  </div>
                  <div className="h-8 w-px bg-gray-700 hidden sm:block"></div>
                  <button onClick={reset} className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors" title="รีเซ็ตทั้งหมด"><RotateCcw size={18} /></button>
+                 {onLineChange && (
+                     <button onClick={publishLine} className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors" title="ส่งผลการจัดสมดุลไปยัง Line Yamazumi"><Upload size={18} /></button>
+                 )}
                  <button onClick={autoBalanceRPW} className="flex items-center gap-2 text-sm font-bold text-white bg-green-600 hover:bg-green-500 px-4 py-2 rounded-lg shadow-lg hover:shadow-green-900/40 transition-all">
                     <Zap size={16} fill="white" /> <span className="hidden sm:inline">คำนวณอัตโนมัติ</span>
                  </button>
@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import { History, Save, RotateCcw, X, ArrowRight, Plus, Minus } from 'lucide-react';
+import { ProjectData, ProjectRevision } from '../types';
+import { diffProjects, isEmptyDiff } from '../utils/revisionDiff';
+
+interface Props {
+  revisions: ProjectRevision[];          // Newest first
+  current: ProjectData;                  // Working state, compared as "Current"
+  onSave: (author: string, note: string) => void;
+  onRestore: (revision: ProjectRevision) => void;
+  onClose: () => void;
+}
+
+const AUTHOR_KEY = 'wsp_revision_author';
+const CURRENT = 'current';
+
+const fmt = (v: number | null) => v === null ? '—' : v.toFixed(2);
+
+const RevisionHistory: React.FC<Props> = ({ revisions, current, onSave, onRestore, onClose }) => {
+  const [author, setAuthor] = useState(() => localStorage.getItem(AUTHOR_KEY) || '');
+  const [note, setNote] = useState('');
+  // Compared pair: base (older) -> target (newer); defaults to latest revision vs current
+  const [baseId, setBaseId] = useState<string | null>(revisions[0]?.id || null);
+  const [targetId, setTargetId] = useState<string>(CURRENT);
+
+  const dataOf = (id: string | null) => id === CURRENT ? current : revisions.find(r => r.id === id)?.data;
+  const labelOf = (id: string | null) => {
+      if (id === CURRENT) return 'Current';
+      const rev = revisions.find(r => r.id === id);
+      return rev ? `Rev ${rev.number}` : '—';
+  };
+
+  const diff = useMemo(() => {
+      const before = dataOf(baseId);
+      const after = dataOf(targetId);
+      return before && after ? diffProjects(before, after) : null;
+  }, [baseId, targetId, revisions, current]);
+
+  const submit = () => {
+      if (!author.trim() || !note.trim()) return;
+      localStorage.setItem(AUTHOR_KEY, author.trim());
+      onSave(author.trim(), note.trim());
+      setNote('');
+  };
+
+  const pickButton = (id: string, role: 'base' | 'target') => {
+      const active = role === 'base' ? baseId === id : targetId === id;
+      return (
+          <button
+            onClick={(e) => { e.stopPropagation(); role === 'base' ? setBaseId(id) : setTargetId(id); }}
+            className={`w-5 h-5 text-[9px] font-bold rounded border ${active ? (role === 'base' ? 'bg-amber-500 border-amber-600 text-white' : 'bg-blue-600 border-blue-700 text-white') : 'border-gray-300 text-gray-400 hover:bg-white'}`}
+            title={role === 'base' ? 'Compare from' : 'Compare to'}
+          >{role === 'base' ? 'A' : 'B'}</button>
+      );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-[60] flex items-center justify-center p-4" onMouseDown={onClose}>
+      <div className="bg-white border border-[#a0a0a0] shadow-2xl w-full max-w-5xl h-[80vh] flex flex-col text-xs" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-3 py-2 border-b border-gray-300 bg-[#f0f0f0]">
+          <span className="font-bold text-gray-700 flex items-center gap-2"><History size={14} className="text-blue-600"/> Revision History ({revisions.length})</span>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700"><X size={16}/></button>
+        </div>
+
+        <div className="flex flex-grow min-h-0">
+          {/* Revision list */}
+          <div className="w-80 border-r border-gray-200 flex flex-col shrink-0">
+            <div className="p-2 border-b border-gray-200 bg-gray-50 space-y-1">
+              <div className="font-bold text-gray-600">บันทึกเวอร์ชันใหม่</div>
+              <input className="w-full border border-gray-300 rounded px-2 py-0.5 outline-none focus:border-blue-400" placeholder="ผู้บันทึก (Author)" value={author} onChange={(e) => setAuthor(e.target.value)} />
+              <textarea autoFocus className="w-full border border-gray-300 rounded px-2 py-0.5 outline-none focus:border-blue-400 resize-none h-12" placeholder="หมายเหตุ เช่น ปรับ Rating หลังทบทวนกับหัวหน้างาน" value={note} onChange={(e) => setNote(e.target.value)} />
+              <button onClick={submit} disabled={!author.trim() || !note.trim()} className="w-full flex items-center justify-center gap-1 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"><Save size={12}/> Save Revision</button>
+            </div>
+            <div className="flex-grow overflow-y-auto divide-y divide-gray-100">
+              <div className="flex items-center gap-2 px-2 py-1.5 bg-blue-50/50">
+                <div className="flex gap-0.5">{pickButton(CURRENT, 'base')}{pickButton(CURRENT, 'target')}</div>
+                <div className="font-bold text-gray-700">Current <span className="font-normal text-gray-400">(ยังไม่บันทึก)</span></div>
+              </div>
+              {revisions.map(rev => (
+                <div key={rev.id} className="flex items-start gap-2 px-2 py-1.5 hover:bg-[#e5f3ff]">
+                  <div className="flex gap-0.5 pt-0.5">{pickButton(rev.id, 'base')}{pickButton(rev.id, 'target')}</div>
+                  <div className="flex-grow min-w-0">
+                    <div className="font-bold text-gray-800">Rev {rev.number} <span className="font-normal text-gray-500">· {rev.author}</span></div>
+                    <div className="text-gray-600 break-words">{rev.note}</div>
+                    <div className="text-[10px] text-gray-400">{new Date(rev.createdAt).toLocaleString()}</div>
+                  </div>
+                  <button onClick={() => { if (confirm(`Restore Rev ${rev.number}? The current state can be brought back with Undo (Ctrl+Z).`)) onRestore(rev); }} className="p-1 text-gray-400 hover:text-blue-600 shrink-0" title="Restore"><RotateCcw size={13}/></button>
+                </div>
+              ))}
+              {revisions.length === 0 && <div className="p-6 text-center text-gray-400">ยังไม่มีเวอร์ชันที่บันทึกไว้</div>}
+            </div>
+          </div>
+
+          {/* Diff */}
+          <div className="flex-grow overflow-y-auto p-3 space-y-3">
+            <div className="flex items-center gap-2 font-bold text-gray-700">
+              <span className="px-1.5 rounded bg-amber-100 text-amber-800">A: {labelOf(baseId)}</span>
+              <ArrowRight size={12}/>
+              <span className="px-1.5 rounded bg-blue-100 text-blue-800">B: {labelOf(targetId)}</span>
+            </div>
+            {!diff ? (
+              <div className="text-gray-400">เลือกเวอร์ชัน A และ B เพื่อเปรียบเทียบ</div>
+            ) : isEmptyDiff(diff) ? (
+              <div className="text-gray-400">ไม่มีความแตกต่าง</div>
+            ) : (
+              <>
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="border border-gray-200 rounded p-2">
+                    <div className="text-gray-500">Takt Time</div>
+                    <div className="font-bold">{diff.taktTime ? <>{diff.taktTime.before}s → <span className="text-blue-700">{diff.taktTime.after}s</span></> : 'ไม่เปลี่ยน'}</div>
+                  </div>
+                  <div className="border border-gray-200 rounded p-2">
+                    <div className="text-gray-500">Total Standard Time</div>
+                    <div className="font-bold">{fmt(diff.standardTotal.before)}s → <span className="text-blue-700">{fmt(diff.standardTotal.after)}s</span></div>
+                  </div>
+                  <div className="border border-gray-200 rounded p-2">
+                    <div className="text-gray-500">Detected Cycles</div>
+                    <div className="font-bold">{diff.cycles.before} → <span className="text-blue-700">{diff.cycles.after}</span></div>
+                  </div>
+                </div>
+
+                {(diff.added.length > 0 || diff.removed.length > 0) && (
+                  <div className="space-y-0.5">
+                    {diff.added.map(t => <div key={t.id} className="flex items-center gap-1 text-green-700"><Plus size={12}/> เพิ่มงาน: {t.name}</div>)}
+                    {diff.removed.map(t => <div key={t.id} className="flex items-center gap-1 text-red-600 line-through"><Minus size={12}/> ลบงาน: {t.name}</div>)}
+                  </div>
+                )}
+
+                {diff.changed.map(t => (
+                  <div key={t.id} className="border border-gray-200 rounded">
+                    <div className="flex justify-between px-2 py-1 bg-gray-50 border-b border-gray-200 font-bold text-gray-700">
+                      <span>{t.name}</span>
+                      <span className="font-normal text-gray-500">ST {fmt(t.standard.before)}s → <span className="text-blue-700 font-bold">{fmt(t.standard.after)}s</span></span>
+                    </div>
+                    <div className="px-2 py-1 space-y-0.5">
+                      {t.fields.map(f => (
+                        <div key={f.field}><span className="text-gray-500 capitalize">{f.field}:</span> <span className="line-through text-red-500">{f.before}</span> → <span className="text-green-700">{f.after}</span></div>
+                      ))}
+                      {t.rounds.length > 0 && (
+                        <div className="flex flex-wrap gap-x-3 gap-y-0.5 font-mono">
+                          {t.rounds.map(r => (
+                            <span key={r.round}>R{r.round + 1}: <span className="text-red-500">{fmt(r.before)}</span> → <span className="text-green-700">{fmt(r.after)}</span></span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistory;
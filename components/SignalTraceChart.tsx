@@ -0,0 +1,193 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ReferenceArea,
+  ResponsiveContainer,
+  Customized
+} from 'recharts';
+import { Activity, RefreshCw, RotateCcw } from 'lucide-react';
+import { Cycle, DetectionThresholds, SignalTrace, TriggerStep } from '../types';
+import { DetectorConfig, replayTrace } from '../utils/cycleDetector';
+
+interface Props {
+  trace: SignalTrace | null;
+  steps: TriggerStep[];
+  config: DetectorConfig;          // Detector settings incl. the thresholds being tuned
+  cycles: Cycle[];                 // Current cycle log, for comparison with the preview
+  isOverride: boolean;             // Thresholds were dragged away from the sensitivity preset
+  onThresholdsChange: (thresholds: DetectionThresholds | null) => void;
+  onRederive: (cycles: Omit<Cycle, 'id' | 'aiLabel'>[], hitsPerStep: number[], falseTriggersPerStep: number[]) => void;
+  onSeek?: (time: number) => void;
+}
+
+const MAX_POINTS = 1500; // Rendered samples; longer traces keep the peak of each bucket
+const MIN_GAP = 0.005;   // Smallest allowed distance between low and high threshold
+
+const COLORS = {
+  ZONES: ['#3B82F6', '#10B981', '#8B5CF6', '#F97316', '#EC4899', '#14B8A6'],
+  HIGH: '#EF4444',
+  LOW: '#F59E0B',
+  OK: '#10B981',
+  OVER: '#F43F5E',
+  ABNORMAL: '#A855F7',
+  GRID: '#E5E7EB',
+  TEXT: '#6B7280'
+};
+
+// Draggable hit areas over the threshold lines, positioned with the chart's own Y scale
+const ThresholdHandles = (props: any) => {
+  const { yAxisMap, offset, thresholds, domainMax, onChange } = props;
+  const yAxis: any = yAxisMap && Object.values(yAxisMap)[0];
+  if (!yAxis || !offset) return null;
+  const scale = yAxis.scale;
+
+  const startDrag = (key: 'high' | 'low', e: React.MouseEvent<SVGRectElement>) => {
+    e.preventDefault();
+    const svg = (e.currentTarget as SVGElement).ownerSVGElement;
+    if (!svg) return;
+    const onMove = (ev: MouseEvent) => {
+      const y = ev.clientY - svg.getBoundingClientRect().top;
+      const value = Math.min(domainMax, Math.max(MIN_GAP, scale.invert(y)));
+      onChange(key === 'high'
+        ? { high: Math.max(value, thresholds.low + MIN_GAP), low: thresholds.low }
+        : { high: thresholds.high, low: Math.min(value, thresholds.high - MIN_GAP) });
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  return (
+    <g>
+      {(['high', 'low'] as const).map(key => {
+        const y = scale(thresholds[key]);
+        const color = key === 'high' ? COLORS.HIGH : COLORS.LOW;
+        return (
+          <g key={key} style={{ cursor: 'ns-resize' }}>
+            <rect x={offset.left} y={y - 5} width={offset.width} height={10} fill="transparent" onMouseDown={(e) => startDrag(key, e)} />
+            <rect x={offset.left + offset.width - 44} y={y - 7} width={44} height={14} rx={3} fill={color} onMouseDown={(e) => startDrag(key, e)} />
+            <text x={offset.left + offset.width - 22} y={y + 3} textAnchor="middle" fontSize={9} fontWeight="bold" fill="white" pointerEvents="none">
+              {thresholds[key].toFixed(3)}
+            </text>
+          </g>
+        );
+      })}
+    </g>
+  );
+};
+
+const SignalTraceChart: React.FC<Props> = ({ trace, steps, config, cycles, isOverride, onThresholdsChange, onRederive, onSeek }) => {
+  const thresholds = { high: config.highThreshold, low: config.lowThreshold };
+
+  const chartData = useMemo(() => {
+    if (!trace || trace.samples.length === 0) return [];
+    const bucket = Math.ceil(trace.samples.length / MAX_POINTS);
+    const rows: Record<string, number>[] = [];
+    for (let i = 0; i < trace.samples.length; i += bucket) {
+      const slice = trace.samples.slice(i, i + bucket);
+      const row: Record<string, number> = { time: slice[0].time };
+      trace.stepIds.forEach((_, z) => { row[`z${z}`] = Math.max(...slice.map(s => s.smooth[z] || 0)); });
+      rows.push(row);
+    }
+    return rows;
+  }, [trace]);
+
+  const domainMax = useMemo(() => {
+    let max = 0;
+    trace?.samples.forEach(s => s.smooth.forEach(v => { if (v > max) max = v; }));
+    return Math.max(0.4, max * 1.1);
+  }, [trace]);
+
+  // Cycles the trace yields at the current thresholds
+  const preview = useMemo(() => trace ? replayTrace(trace, steps, config) : null, [trace, steps, config.highThreshold, config.lowThreshold, config.taktTime, config.minCycleTime, config.cooldown]);
+
+  if (!trace || trace.samples.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center bg-white text-gray-400">
+        <Activity size={24} className="mb-1 text-gray-300" />
+        <p className="text-xs">No signal trace yet. Arm the system or run a batch analysis.</p>
+      </div>
+    );
+  }
+
+  const zoneName = (z: number) => steps.find(s => s.id === trace.stepIds[z])?.name || `Zone ${z + 1}`;
+
+  return (
+    <div className="h-full flex flex-col bg-white">
+      <div className="flex items-center justify-between px-2 py-1 border-b border-gray-200 text-[10px] text-gray-600 shrink-0">
+        <div className="flex items-center gap-3">
+          <span className="font-bold text-gray-700 flex items-center gap-1"><Activity size={12}/> Signal Trace</span>
+          <span>{trace.samples.length} samples</span>
+          <span style={{ color: COLORS.HIGH }}>High {thresholds.high.toFixed(3)}</span>
+          <span style={{ color: COLORS.LOW }}>Low {thresholds.low.toFixed(3)}</span>
+          {trace.stepIds.map((_, z) => (
+            <span key={z} className="flex items-center gap-1"><span className="w-2 h-2 rounded-full" style={{ background: COLORS.ZONES[z % COLORS.ZONES.length] }}></span>{zoneName(z)}</span>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          {preview
+            ? <span>Preview: <b>{preview.cycles.length}</b> cycles, {preview.falseTriggersPerStep.reduce((a, b) => a + b, 0)} false triggers (current {cycles.length})</span>
+            : <span className="text-red-500">Zones changed since this trace was recorded</span>}
+          {isOverride && (
+            <button onClick={() => onThresholdsChange(null)} className="flex items-center gap-1 px-1.5 py-0.5 border border-gray-300 rounded hover:bg-gray-100" title="Back to sensitivity preset">
+              <RotateCcw size={10}/> Reset
+            </button>
+          )}
+          <button
+            onClick={() => preview && onRederive(preview.cycles, preview.hitsPerStep, preview.falseTriggersPerStep)}
+            disabled={!preview}
+            className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            title="Replace the cycle log with the cycles derived from this trace"
+          >
+            <RefreshCw size={10}/> Re-derive cycles
+          </button>
+        </div>
+      </div>
+      <div className="flex-grow min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={chartData}
+            margin={{ top: 8, right: 8, left: -20, bottom: 0 }}
+            onClick={(e: any) => { if (onSeek && e && e.activeLabel !== undefined) onSeek(Number(e.activeLabel)); }}
+          >
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={COLORS.GRID} />
+            <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} stroke={COLORS.TEXT} tick={{ fontSize: 9 }} tickFormatter={(t) => `${Number(t).toFixed(0)}s`} />
+            <YAxis domain={[0, domainMax]} stroke={COLORS.TEXT} tick={{ fontSize: 9 }} tickFormatter={(v) => Number(v).toFixed(2)} allowDataOverflow />
+            <Tooltip
+              labelFormatter={(t) => `${Number(t).toFixed(2)}s`}
+              formatter={(v: any, key: any) => [Number(v).toFixed(3), zoneName(Number(String(key).slice(1)))]}
+              contentStyle={{ fontSize: 10 }}
+            />
+            {preview?.cycles.map((c, i) => (
+              <ReferenceArea
+                key={i}
+                x1={c.startTime}
+                x2={c.endTime}
+                fill={c.status === 'abnormal' ? COLORS.ABNORMAL : c.status === 'over' ? COLORS.OVER : COLORS.OK}
+                fillOpacity={0.08}
+                ifOverflow="hidden"
+              />
+            ))}
+            {trace.stepIds.map((_, z) => (
+              <Line key={z} type="linear" dataKey={`z${z}`} stroke={COLORS.ZONES[z % COLORS.ZONES.length]} dot={false} strokeWidth={1.5} isAnimationActive={false} />
+            ))}
+            <ReferenceLine y={thresholds.high} stroke={COLORS.HIGH} strokeDasharray="4 4" />
+            <ReferenceLine y={thresholds.low} stroke={COLORS.LOW} strokeDasharray="4 4" />
+            <Customized component={<ThresholdHandles thresholds={thresholds} domainMax={domainMax} onChange={onThresholdsChange} />} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default SignalTraceChart;
@@ -1,6 +1,7 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { WorkStudyTask, SimulationStats } from '../types';
+import { observedRounds, standardFactor } from '../utils/standardTime';
 import { Calculator, Play, RefreshCw, TrendingUp, AlertTriangle, BarChart2, Target, Settings, BrainCircuit } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Cell } from 'recharts';
 
@@ -8,6 +9,7 @@ interface Props {
   tasks: WorkStudyTask[];
   defaultTaktTime: number;
   onResults?: (stats: SimulationStats) => void;
+  savedResults?: SimulationStats | null; // Last run saved with the project, shown until the next run
 }
 
 interface TaskStats {
@@ -26,7 +28,7 @@ interface SimulationResult {
     isOverTakt: boolean;
 }
 
-const SimulationAnalysis: React.FC<Props> = ({ tasks, defaultTaktTime, onResults }) => {
+const SimulationAnalysis: React.FC<Props> = ({ tasks, defaultTaktTime, onResults, savedResults }) => {
   // --- STATE ---
   const [taskStats, setTaskStats] = useState<TaskStats[]>([]);
   const [iterations, setIterations] = useState(1000);
@@ -37,10 +39,10 @@ const SimulationAnalysis: React.FC<Props> = ({ tasks, defaultTaktTime, onResults
   // Calculate Initial Stats from collected data
   useEffect(() => {
       const stats = tasks.map(t => {
-          const validRounds = t.rounds.filter(r => r);
+          const validRounds = observedRounds(t);
           if (validRounds.length < 2) {
               // Not enough data, assume simple estimates
-              const val = validRounds.length === 1 ? validRounds[0]!.total : 0;
+              const val = validRounds.length === 1 ? validRounds[0]!.total * standardFactor(t, validRounds[0]!) : 0;
               return {
                   id: t.id,
                   name: t.name,
@@ -52,7 +54,7 @@ const SimulationAnalysis: React.FC<Props> = ({ tasks, defaultTaktTime, onResults
               } as TaskStats;
           }
 
-          const values = validRounds.map(r => r!.total);
+          const values = validRounds.map(r => r!.total * standardFactor(t, r!)); // Simulate standard time, not raw observations
           const mean = values.reduce((a, b) => a + b, 0) / values.length;
           const variance = values.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / values.length;
           const stdDev = Math.sqrt(variance);
@@ -113,7 +115,7 @@ const SimulationAnalysis: React.FC<Props> = ({ tasks, defaultTaktTime, onResults
   };
 
   // --- ANALYTICS ---
-  const analysis = useMemo(() => {
+  const computed = useMemo(() => {
       if (simResults.length === 0) return null;
 
       const totalTimes = simResults.map(r => r.totalTime);
@@ -129,7 +131,6 @@ const SimulationAnalysis: React.FC<Props> = ({ tasks, defaultTaktTime, onResults
       const p99 = totalTimes[Math.floor(totalTimes.length * 0.99)];
 
       const stats: SimulationStats = { avg, min, max, riskProb, p90, p99 };
-      if (onResults) onResults(stats);
 
       // Histogram Data
       const bucketCount = 20;
@@ -149,7 +150,13 @@ const SimulationAnalysis: React.FC<Props> = ({ tasks, defaultTaktTime, onResults
       }
 
       return { ...stats, histogram };
-  }, [simResults, taktTime, onResults]);
+  }, [simResults, taktTime]);
+
+  useEffect(() => {
+      if (computed && onResults) onResults(computed);
+  }, [computed, onResults]);
+
+  const analysis = computed || (savedResults ? { ...savedResults, histogram: savedResults.histogram || [] } : null);
 
   return (
     <div className="flex h-full gap-4 bg-gray-900 p-4 text-gray-200">
@@ -283,7 +290,7 @@ const SimulationAnalysis: React.FC<Props> = ({ tasks, defaultTaktTime, onResults
           <div className="flex-grow bg-gray-800 rounded-xl border border-gray-700 shadow-lg p-4 flex flex-col min-h-0">
               <div className="flex justify-between items-center mb-4">
                   <h3 className="font-bold text-white flex items-center gap-2"><BarChart2 className="text-purple-400"/> Cycle Time Distribution (Monte Carlo)</h3>
-                  {analysis && <span className="text-xs text-gray-400">Based on {iterations} iterations</span>}
+                  {analysis && <span className="text-xs text-gray-400">{computed ? `Based on ${iterations} iterations` : 'ผลครั้งก่อน (Saved run)'}</span>}
               </div>
 
               {analysis ? (
@@ -1,6 +1,7 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { WorkStudyTask, ErgoFrame, SimulationStats } from '../types';
+import { cycleTime, elementTime } from '../utils/standardTime';
 import { FileText, Printer, Play, Pause, SkipForward, Repeat, Video, Monitor, AlertCircle, CheckCircle2, Factory, Activity, ShieldAlert, BrainCircuit } from 'lucide-react';
 
 interface Props {
@@ -133,8 +134,7 @@ const SmartReport: React.FC<Props> = ({ tasks, videoSrc, projectTitle = "ขั
                           </thead>
                           <tbody>
                               {validTasks.map((task, idx) => {
-                                  const round = task.rounds[0];
-                                  const time = round ? round.total.toFixed(2) : '-';
+                                  const time = elementTime(task).standard.toFixed(2);
                                   return (
                                       <tr key={task.id} className="break-inside-avoid">
                                           <td className="border border-black p-2 text-center font-bold">{idx + 1}</td>
@@ -227,11 +227,11 @@ const SmartReport: React.FC<Props> = ({ tasks, videoSrc, projectTitle = "ขั
                       <div className="w-64">
                            <div className="flex justify-between border-b border-gray-300 py-1">
                                <span>เวลามาตรฐานรวม:</span>
-                               <span className="font-bold">{validTasks.reduce((acc, t) => acc + (t.rounds[0]?.total || 0), 0).toFixed(2)} วิ</span>
+                               <span className="font-bold">{cycleTime(validTasks).standard.toFixed(2)} วิ</span>
                            </div>
                            <div className="flex justify-between border-b border-gray-300 py-1">
                                <span>กำลังการผลิต/ชม.:</span>
-                               <span className="font-bold">{Math.floor(3600 / (validTasks.reduce((acc, t) => acc + (t.rounds[0]?.total || 0), 0) || 1))} ชิ้น</span>
+                               <span className="font-bold">{Math.floor(3600 / (cycleTime(validTasks).standard || 1))} ชิ้น</span>
                            </div>
                            <div className="mt-4 pt-8 border-t border-black text-center">
                                อนุมัติโดย (ผู้จัดการ)
@@ -311,7 +311,7 @@ const SmartReport: React.FC<Props> = ({ tasks, videoSrc, projectTitle = "ขั
                                   <div className="flex justify-between items-start mb-1">
                                       <div className="font-bold text-sm">{idx + 1}. {t.name}</div>
                                       <div className={`text-[10px] font-mono opacity-80 ${currentStep === idx ? 'text-blue-100' : 'text-gray-400'}`}>
-                                          {t.rounds[0]?.total.toFixed(1)}s
+                                          {elementTime(t).standard.toFixed(1)}s
                                       </div>
                                   </div>
                                   {currentStep === idx && (
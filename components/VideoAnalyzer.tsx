@@ -1,8 +1,16 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { Play, Pause, Square, Video, Zap, Camera, Activity, Info, Anchor, Lock, BoxSelect, Brain } from 'lucide-react';
-import { Rect, Point, Cycle, TriggerStep, AIActionType } from '../types';
+import { Play, Pause, Square, Video, Zap, Camera, Activity, Info, Anchor, Lock, BoxSelect, Brain, FastForward, X } from 'lucide-react';
+import { Rect, Point, Cycle, TriggerStep, AIActionType, ActionSpan, DetectionThresholds, SignalTrace, ReferenceImages } from '../types';
 import { mapScreenToVideo, isPointInRect } from '../utils/geometry';
+import { DetectorConfig, DetectorState, createDetectorState, countFalseTriggers, thresholdsFromSensitivity } from '../utils/cycleDetector';
+import { CV_CONFIG, safeDelete, extractRoiMat, buildReferenceMat, matToPayload } from '../utils/vision';
+import { createVisionClient, VisionClient } from '../workers/visionClient';
+import { FrameResult, PoseLandmark } from '../workers/visionProtocol';
+import { DEFAULT_FPS, FrameClock, createFrameClock, measureFrameRate, seekToFrame } from '../utils/frameClock';
+import { createTraceRecorder } from '../utils/signalTrace';
+import { canvasToThumbnail, captureThumbnail, thumbnailCanvas } from '../utils/thumbnail';
+import { actionsForRange, appendActionSample, labelFromActions } from '../utils/actionTimeline';
 
 interface VideoAnalyzerProps {
   videoSrc: string | null;
@@ -13,18 +21,42 @@ interface VideoAnalyzerProps {
   onRefRectChange: (rect: Rect | null) => void;
   onTriggerStepsChange: (steps: TriggerStep[]) => void;
   onCycleComplete: (cycle: Cycle) => void;
+  onBatchComplete?: (cycles: Cycle[]) => void;
+  thresholds?: DetectionThresholds | null; // Overrides the sensitivity-derived thresholds
+  onSignalTraceChange?: (trace: SignalTrace) => void;
   onFPSUpdate: (fps: number) => void;
+  onFrameRateChange?: (fps: number) => void; // Detected media frame rate
   onStatusUpdate: (status: string) => void;
   seekRequest?: { time: number, id: number } | null;
+  referenceImages?: ReferenceImages | null; // Saved reference crops to rebuild the models from
+  onReferenceImagesChange?: (images: ReferenceImages) => void;
 }
 
-// --- CONFIGURATION ---
-const CV_CONFIG = {
-    BLUR_SIZE: 5,      
-    DIFF_THRESHOLD: 25, 
-    EMA_ALPHA: 0.2,    
-    MIN_CYCLE_TIME: 1.0, 
-};
+const BATCH_SAMPLE_RATES = [5, 10, 20, 30]; // Frames analyzed per second of video
+const TRACE_FLUSH_MS = 1000; // How often the live trace is pushed to the parent
+
+const SEEK_TIMEOUT_MS = 10000;
+
+// Resolves with the frame-start time once the frame is decoded; rejects on a
+// media error, when the seek does not finish in time, or when aborted
+const seekTo = (video: HTMLVideoElement, frameIndex: number, fps: number, signal: AbortSignal) => new Promise<number>((resolve, reject) => {
+    let time = 0;
+    const finish = () => {
+        clearTimeout(timer);
+        video.removeEventListener('seeked', onSeeked);
+        video.removeEventListener('error', onError);
+        signal.removeEventListener('abort', onAbort);
+    };
+    const onSeeked = () => { finish(); resolve(time); };
+    const onError = () => { finish(); reject(new Error(`Seek to frame ${frameIndex} failed`)); };
+    const onAbort = () => { finish(); reject(new DOMException('Batch analysis cancelled', 'AbortError')); };
+    const timer = setTimeout(() => { finish(); reject(new Error(`Seek to frame ${frameIndex} timed out`)); }, SEEK_TIMEOUT_MS);
+    if (signal.aborted) return onAbort();
+    video.addEventListener('seeked', onSeeked);
+    video.addEventListener('error', onError);
+    signal.addEventListener('abort', onAbort);
+    time = seekToFrame(video, frameIndex, fps);
+});
 
 // MediaPipe Landmark Indices
 const POSE_LM = {
@@ -34,14 +66,6 @@ const POSE_LM = {
     LEFT_WRIST: 15, RIGHT_WRIST: 16,
 };
 
-type LogicState = 'IDLE' | 'TRIGGERED' | 'COOLDOWN';
-
-const safeDelete = (mat: any) => {
-    if (mat && typeof mat.delete === 'function' && !mat.isDeleted()) {
-        try { mat.delete(); } catch (e) { console.warn("Failed to delete mat", e); }
-    }
-};
-
 const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ 
   videoSrc, 
   taktTime,
@@ -49,9 +73,15 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
   triggerSteps,
   onTriggerStepsChange,
   onCycleComplete, 
+  onBatchComplete,
+  thresholds,
+  onSignalTraceChange,
   onFPSUpdate, 
+  onFrameRateChange,
   onStatusUpdate,
-  seekRequest
+  seekRequest,
+  referenceImages,
+  onReferenceImagesChange
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -60,10 +90,11 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
   const [isCvReady, setIsCvReady] = useState(false);
   const [isAiReady, setIsAiReady] = useState(false); // Pose Model Ready
   const [mode, setMode] = useState<'setup' | 'running'>('setup');
-  const [setupSubMode, setSetupSubMode] = useState<'start_roi' | 'end_roi' | 'anchor' | 'none'>('none');
+  const [setupSubMode, setSetupSubMode] = useState<'zone_roi' | 'end_roi' | 'anchor' | 'none'>('none');
   const [isPlaying, setIsPlaying] = useState(false); 
   
-  const [refImages, setRefImages] = useState<{start: string | null, end: string | null, anchor: string | null}>({ start: null, end: null, anchor: null });
+  const [refImages, setRefImages] = useState<{end: string | null, anchor: string | null}>({ end: null, anchor: null });
+  const [zoneRefImages, setZoneRefImages] = useState<Record<string, string>>({}); // Keyed by TriggerStep.id
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   
@@ -73,10 +104,8 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
   const dragOffset = useRef<Point>({ x: 0, y: 0 });
 
   // --- CV ENGINE STATE ---
-  const processingCanvas = useRef<HTMLCanvasElement | null>(null);
-  const srcMat = useRef<any>(null);      
-  const grayMat = useRef<any>(null);     
-  const startRefMat = useRef<any>(null); 
+  const processingCanvas = useRef<HTMLCanvasElement | null>(null); // Reference capture only; scoring runs in the worker
+  const zoneRefMats = useRef<Map<string, any>>(new Map()); // Empty-state reference per TriggerStep.id
   const endRefMat = useRef<any>(null);
   const anchorMat = useRef<any>(null);   
   
@@ -84,19 +113,38 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
   const trackingOffset = useRef<{x: number, y: number}>({x: 0, y: 0});
   const isTrackingLost = useRef<boolean>(false);
   
-  const signalState = useRef({ raw: 0, smooth: 0, prevSmooth: 0 });
-  const logicState = useRef<LogicState>('IDLE');
-  const cycleStartTime = useRef<number>(0); 
-  const cooldownTimer = useRef<number>(0);
+  const signalState = useRef<{ raw: number, smooth: number }[]>([]); // Per trigger step
+  const detectorState = useRef<DetectorState>(createDetectorState(0));
   const lastProcessTime = useRef<number>(0);
+  const lastPoseTime = useRef<number>(0);
+  const lastSubmittedTime = useRef<number>(-1);
+  const clockRef = useRef<FrameClock | null>(null);
+  const [frameRate, setFrameRate] = useState<number | null>(null); // Null until detected
+  const traceRecorder = useRef(createTraceRecorder()); // Decimated past MAX_TRACE_SAMPLES
+  const lastTraceFlush = useRef<number>(0);
   const visualState = useRef<string>("Ready");
 
+  // --- VISION WORKERS ---
+  // Zone scoring and pose each get their own worker so a slow model load never stalls the other.
+  const visionRef = useRef<VisionClient | null>(null);
+  const poseClientRef = useRef<VisionClient | null>(null);
+  const frameInFlight = useRef(false);
+  const poseInFlight = useRef(false);
+  // Worker replies land after re-renders; read callbacks and steps from here to avoid stale closures
+  const latestProps = useRef({ triggerSteps, onCycleComplete, onTriggerStepsChange, onStatusUpdate, onSignalTraceChange });
+  latestProps.current = { triggerSteps, onCycleComplete, onTriggerStepsChange, onStatusUpdate, onSignalTraceChange };
+
+  // --- BATCH STATE ---
+  const [batchFps, setBatchFps] = useState(10);
+  const [batchProgress, setBatchProgress] = useState<{ progress: number, cycles: number } | null>(null);
+  const batchAbort = useRef<AbortController | null>(null);
+  useEffect(() => () => batchAbort.current?.abort(), []); // Stop a running batch on unmount
+
   // --- AI ACTION RECOGNITION STATE ---
-  const poseRef = useRef<any>(null);
   const aiState = useRef<{
       currentAction: AIActionType;
       confidence: number;
-      landmarks: any[];
+      landmarks: PoseLandmark[];
       leftHandVel: number;
       rightHandVel: number;
       lastPos: { lx: number, ly: number, rx: number, ry: number } | null;
@@ -108,9 +156,17 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
       rightHandVel: 0,
       lastPos: null
   });
+  const actionSpans = useRef<ActionSpan[]>([]); // Action timeline of the current pass
+
+  const { high: highThreshold, low: lowThreshold } = thresholds || thresholdsFromSensitivity(sensitivity);
 
-  const highThreshold = Math.max(0.01, 0.35 - (sensitivity * 0.02)); 
-  const lowThreshold = highThreshold * 0.6; 
+  const detectorConfig = (): DetectorConfig => ({
+      highThreshold,
+      lowThreshold,
+      taktTime,
+      minCycleTime: CV_CONFIG.MIN_CYCLE_TIME,
+      cooldown: CV_CONFIG.COOLDOWN,
+  });
 
   // Seek Request Handler
   useEffect(() => {
@@ -121,36 +177,89 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
     }
   }, [seekRequest]);
 
+  // Frame clock: timestamps come from the presented media frames
+  useEffect(() => {
+    if (!videoRef.current) return;
+    setFrameRate(null);
+    const clock = createFrameClock(videoRef.current, (_t, fps) => {
+        if (clock.detected) setFrameRate(prev => prev === fps ? prev : fps);
+    });
+    clockRef.current = clock;
+    return () => { clock.dispose(); clockRef.current = null; };
+  }, [videoSrc]);
+
+  useEffect(() => {
+    if (frameRate) onFrameRateChange?.(frameRate);
+  }, [frameRate]);
+
   // Reset State
   useEffect(() => {
     setMode('setup');
     setSetupSubMode('none');
-    setRefImages({ start: null, end: null, anchor: null });
+    setRefImages({ end: null, anchor: null });
+    setZoneRefImages({});
     setAnchorRect(null);
     trackingOffset.current = {x: 0, y: 0};
     
-    logicState.current = 'IDLE';
-    signalState.current = { raw: 0, smooth: 0, prevSmooth: 0 };
+    detectorState.current = createDetectorState(0);
+    signalState.current = [];
     visualState.current = "พร้อมทำงาน";
-    cycleStartTime.current = 0;
     
     setIsPlaying(false);
     setCurrentTime(0);
     setDuration(0);
     
-    safeDelete(startRefMat.current);
+    zoneRefMats.current.forEach(mat => safeDelete(mat));
+    zoneRefMats.current.clear();
     safeDelete(endRefMat.current);
     safeDelete(anchorMat.current);
-    startRefMat.current = null;
     endRefMat.current = null;
     anchorMat.current = null;
 
     if (videoSrc) onStatusUpdate("System Reset. Please configure zones.");
   }, [videoSrc]);
 
-  // Initialize OpenCV & MediaPipe
+  // Rebuild the background models from reference crops saved with the project,
+  // for zones (and the anchor) that were not captured again since
+  useEffect(() => {
+    if (!isCvReady || !videoSrc || !referenceImages) return;
+    let cancelled = false;
+    const restore = async () => {
+        const cv = (window as any).cv;
+        const restored: Record<string, string> = {};
+        for (const step of triggerSteps) {
+            const url = referenceImages.zones[step.id];
+            if (!url || zoneRefMats.current.has(step.id)) continue;
+            const roi = await dataUrlToMat(url);
+            if (!roi) continue;
+            if (cancelled) { safeDelete(roi); return; }
+            zoneRefMats.current.set(step.id, buildReferenceMat(cv, roi));
+            safeDelete(roi);
+            restored[step.id] = url;
+        }
+        const anchor = referenceImages.anchor;
+        if (anchor && !anchorMat.current) {
+            const roi = await dataUrlToMat(anchor.image);
+            if (roi && cancelled) { safeDelete(roi); return; }
+            if (roi) {
+                anchorMat.current = roi;
+                setAnchorRect(anchor.rect);
+                setRefImages(prev => ({ ...prev, anchor: anchor.image }));
+            }
+        }
+        const count = Object.keys(restored).length;
+        if (count > 0) {
+            setZoneRefImages(prev => ({ ...prev, ...restored }));
+            onStatusUpdate(`Restored saved references for ${count} zone(s)`);
+        }
+    };
+    restore();
+    return () => { cancelled = true; };
+  }, [isCvReady, videoSrc, referenceImages]);
+
+  // Initialize OpenCV (reference capture) & the vision workers
   useEffect(() => {
-    // 1. OpenCV
+    // 1. OpenCV on the UI thread is only needed to build reference models
     const checkCv = setInterval(() => {
       if ((window as any).cv && (window as any).cv.Mat) {
         setIsCvReady(true);
@@ -158,44 +267,42 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
       }
     }, 500);
 
-    // 2. MediaPipe Pose (With Retry Logic for Robustness)
-    let poseRetryCount = 0;
-    const checkPose = setInterval(() => {
-        if ((window as any).Pose) {
-            clearInterval(checkPose);
-            try {
-                const pose = new (window as any).Pose({
-                    locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/pose@0.5.1675469404/${file}`,
-                });
-                pose.setOptions({
-                    modelComplexity: 0, // 0 for speed, 1 for accuracy
-                    smoothLandmarks: true,
-                    minDetectionConfidence: 0.5,
-                    minTrackingConfidence: 0.5,
-                });
-                pose.onResults(onPoseResults);
-                poseRef.current = pose;
-                setIsAiReady(true);
-                console.log("AI Pose Model Loaded Successfully");
-            } catch (err) {
-                console.error("Failed to init Pose", err);
-            }
-        } else {
-            poseRetryCount++;
-            if (poseRetryCount > 20) { // Timeout after 10s
-                clearInterval(checkPose);
-                console.warn("MediaPipe Pose failed to load");
-            }
-        }
-    }, 500);
+    visionRef.current = createVisionClient();
+
+    // 2. Pose landmarks from a second worker (lite model for speed)
+    let disposed = false;
+    const poseClient = createVisionClient();
+    poseClient.initPose('lite')
+        .then(() => {
+            if (disposed) return;
+            poseClientRef.current = poseClient;
+            setIsAiReady(true);
+            console.log("AI Pose Model Loaded in Worker");
+        })
+        .catch(err => {
+            if (disposed) return;
+            console.error("Failed to init Pose worker", err);
+            latestProps.current.onStatusUpdate("AI pose model failed to load - action recognition is off");
+            poseClient.dispose();
+        });
 
     return () => {
+        disposed = true;
         clearInterval(checkCv);
-        clearInterval(checkPose);
-        if (poseRef.current) poseRef.current.close();
+        poseClient.dispose();
+        visionRef.current?.dispose();
+        visionRef.current = null;
+        poseClientRef.current = null;
     };
   }, []);
 
+  // Live threshold / takt changes reach the running detector
+  useEffect(() => {
+    if (mode === 'running') {
+        visionRef.current?.setDetectorConfig(detectorConfig()).catch(e => console.error("Detector config failed", e));
+    }
+  }, [highThreshold, lowThreshold, taktTime]);
+
   const syncDimensions = () => {
     if (videoRef.current && canvasRef.current) {
         const v = videoRef.current;
@@ -237,10 +344,7 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
   };
 
   // --- AI ACTION LOGIC ---
-  const onPoseResults = (results: any) => {
-      if (!results.poseLandmarks) return;
-      
-      const lm = results.poseLandmarks;
+  const onPoseResults = (lm: PoseLandmark[], time: number) => {
       aiState.current.landmarks = lm;
 
       // 1. Calculate Hands Velocity
@@ -273,15 +377,21 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
       const rightDist = Math.hypot(rightWrist.x - nose.x, rightWrist.y - nose.y);
       const avgDist = (leftDist + rightDist) / 2;
 
+      // Both wrists above the shoulders (image y grows downward)
+      const handsRaised = leftWrist.y < lm[POSE_LM.LEFT_SHOULDER].y && rightWrist.y < lm[POSE_LM.RIGHT_SHOULDER].y;
+
       let action: AIActionType = 'IDLE';
       
       if (avgVel < moveThreshold) {
           action = 'IDLE';
       } else {
           // If moving fast and far from body -> Transport (Reach/Move)
+          // If working with raised hands -> Setup (fixture/tool change)
           // If moving but close to body -> Operation (Manipulation)
           if (avgDist > 0.4 && avgVel > reachThreshold) {
               action = 'TRANSPORT';
+          } else if (handsRaised) {
+              action = 'SETUP';
           } else {
               action = 'OPERATION';
           }
@@ -289,25 +399,14 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
 
       aiState.current.currentAction = action;
       aiState.current.confidence = Math.min(1.0, avgVel * 50); // Just a mock confidence based on intensity
-  };
 
-  // --- CV & UTILS ---
-  const extractRoiMat = (rect: Rect, sourceMat: any) => {
-      const cv = (window as any).cv;
-      let x = Math.floor(rect.x); let y = Math.floor(rect.y);
-      let w = Math.floor(rect.width); let h = Math.floor(rect.height);
-      if (x < 0) { w += x; x = 0; }
-      if (y < 0) { h += y; y = 0; }
-      if (x + w > sourceMat.cols) w = sourceMat.cols - x;
-      if (y + h > sourceMat.rows) h = sourceMat.rows - y;
-      if (w <= 1 || h <= 1) return null;
-      const cvRect = new cv.Rect(x, y, w, h);
-      const roi = sourceMat.roi(cvRect);
-      const clone = roi.clone();
-      roi.delete();
-      return clone;
+      // Action timeline; a rewind starts a new pass
+      const spans = actionSpans.current;
+      if (spans.length > 0 && time < spans[spans.length - 1].startTime) actionSpans.current = [];
+      appendActionSample(actionSpans.current, time, action);
   };
 
+  // --- CV & UTILS ---
   const matToDataUrl = (mat: any, width: number, height: number): string => {
       try {
           const cv = (window as any).cv;
@@ -318,6 +417,23 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
       } catch (e) { return ""; }
   };
 
+  // RGBA Mat from a saved crop (inverse of matToDataUrl)
+  const dataUrlToMat = (url: string): Promise<any | null> => new Promise(resolve => {
+      const img = new Image();
+      img.onload = () => {
+          try {
+              const tempCanvas = document.createElement('canvas');
+              tempCanvas.width = img.naturalWidth; tempCanvas.height = img.naturalHeight;
+              const ctx = tempCanvas.getContext('2d', { willReadFrequently: true });
+              if (!ctx) return resolve(null);
+              ctx.drawImage(img, 0, 0);
+              resolve((window as any).cv.matFromImageData(ctx.getImageData(0, 0, img.naturalWidth, img.naturalHeight)));
+          } catch (e) { resolve(null); }
+      };
+      img.onerror = () => resolve(null);
+      img.src = url;
+  });
+
   const captureReference = (target: 'start' | 'end' | 'anchor') => {
     if (!videoRef.current) return;
     const video = videoRef.current;
@@ -342,38 +458,32 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
 
         if (target === 'anchor') {
             if (!anchorRect) { alert("Draw anchor box first"); return; }
-            const roi = extractRoiMat(anchorRect, fullFrameMat);
+            const roi = extractRoiMat(cv, anchorRect, fullFrameMat);
             if (roi) {
                 const thumbUrl = matToDataUrl(roi, roi.cols, roi.rows);
                 safeDelete(anchorMat.current);
                 anchorMat.current = roi; 
                 setRefImages(prev => ({ ...prev, anchor: thumbUrl }));
+                onReferenceImagesChange?.({ zones: referenceImages?.zones || {}, anchor: { rect: anchorRect, image: thumbUrl } });
                 onStatusUpdate("Anchor Captured. Tracking Active.");
             }
-        } else {
-            const stepIndex = target === 'start' ? 0 : 1;
-            if (!triggerSteps[stepIndex]) { alert(`Draw ${target} zone first`); return; }
+        } else if (target === 'start') {
+            if (triggerSteps.length === 0) { alert("Draw a work zone first"); safeDelete(fullFrameMat); return; }
             
-            const roi = extractRoiMat(triggerSteps[stepIndex].rect, fullFrameMat);
-            if (roi) {
-                const thumbUrl = matToDataUrl(roi, roi.cols, roi.rows);
+            // Every zone shares the same empty-state frame
+            const thumbs: Record<string, string> = {};
+            triggerSteps.forEach(step => {
+                const roi = extractRoiMat(cv, step.rect, fullFrameMat);
+                if (!roi) return;
+                thumbs[step.id] = matToDataUrl(roi, roi.cols, roi.rows);
                 
-                const gray = new cv.Mat();
-                cv.cvtColor(roi, gray, cv.COLOR_RGBA2GRAY);
-                const blurred = new cv.Mat();
-                const ksize = new cv.Size(CV_CONFIG.BLUR_SIZE, CV_CONFIG.BLUR_SIZE);
-                cv.GaussianBlur(gray, blurred, ksize, 0, 0, cv.BORDER_DEFAULT);
-                
-                if (target === 'start') {
-                    safeDelete(startRefMat.current);
-                    startRefMat.current = blurred; 
-                    setRefImages(prev => ({ ...prev, start: thumbUrl }));
-                }
-                
-                safeDelete(gray);
+                safeDelete(zoneRefMats.current.get(step.id));
+                zoneRefMats.current.set(step.id, buildReferenceMat(cv, roi));
                 safeDelete(roi);
-                onStatusUpdate(`Reference ${target.toUpperCase()} Captured (Background Model Set)`);
-            }
+            });
+            setZoneRefImages(thumbs);
+            onReferenceImagesChange?.({ zones: thumbs, anchor: referenceImages?.anchor || null });
+            onStatusUpdate(`Reference Captured for ${Object.keys(thumbs).length} zone(s) (Background Model Set)`);
         }
         safeDelete(fullFrameMat);
 
@@ -383,67 +493,154 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
     }
   };
 
-  const calculateChangeScore = (currentFrameGray: any, refMat: any, rect: Rect, offset: {x:number, y:number}): number => {
-    try {
-        if (!refMat || refMat.isDeleted()) return 0;
-        const cv = (window as any).cv;
-        
-        const adjustedRect = { ...rect, x: rect.x + offset.x, y: rect.y + offset.y };
-        const roi = extractRoiMat(adjustedRect, currentFrameGray);
-        if (!roi) return 0;
-        
-        const blurred = new cv.Mat();
-        const ksize = new cv.Size(CV_CONFIG.BLUR_SIZE, CV_CONFIG.BLUR_SIZE);
-        cv.GaussianBlur(roi, blurred, ksize, 0, 0, cv.BORDER_DEFAULT);
-        
-        const diff = new cv.Mat();
-        cv.absdiff(blurred, refMat, diff);
-        
-        const thresholded = new cv.Mat();
-        cv.threshold(diff, thresholded, CV_CONFIG.DIFF_THRESHOLD, 255, cv.THRESH_BINARY);
-        
-        const nonZero = cv.countNonZero(thresholded);
-        const totalPixels = rect.width * rect.height;
-        const score = totalPixels > 0 ? nonZero / totalPixels : 0;
-        
-        safeDelete(roi); safeDelete(blurred); safeDelete(diff); safeDelete(thresholded);
-        return score;
-    } catch (e) { return 0; }
+  // Reference models as transferable payloads for the vision worker
+  const buildWorkerInit = (steps: TriggerStep[]): Parameters<VisionClient['init']> => [
+      steps.map(s => ({
+          id: s.id,
+          rect: s.rect,
+          reference: matToPayload(zoneRefMats.current.get(s.id)),
+          adaptive: s.referenceMode === 'adaptive',
+          normalizeExposure: !!s.normalizeExposure,
+      })),
+      anchorMat.current && anchorRect ? { rect: anchorRect, template: matToPayload(anchorMat.current) } : null,
+      { steps, config: detectorConfig() },
+  ];
+
+  const armSystem = async () => {
+      if (triggerSteps.length === 0) { alert("Please draw a Work Zone"); return; }
+      if (triggerSteps.some(s => !zoneRefMats.current.get(s.id))) { alert("Please capture Empty State Reference"); return; }
+      if (!visionRef.current) return;
+      onStatusUpdate("Loading vision worker...");
+      try {
+          await visionRef.current.init(...buildWorkerInit(triggerSteps));
+      } catch (e: any) {
+          console.error("Vision Worker Error:", e);
+          alert(`Vision worker failed: ${e.message}`);
+          return;
+      }
+      trackingOffset.current = { x: 0, y: 0 };
+      isTrackingLost.current = false;
+      detectorState.current = createDetectorState(triggerSteps.length);
+      signalState.current = [];
+      traceRecorder.current.reset();
+      actionSpans.current = [];
+      setMode('running');
+      onStatusUpdate("System Armed");
+      if (videoRef.current) videoRef.current.play();
   };
 
-  const trackAnchor = (fullFrameMat: any) => {
-      if (!anchorMat.current || !anchorRect) return;
-      try {
-          const cv = (window as any).cv;
-          const margin = 50; 
-          const lastX = anchorRect.x + trackingOffset.current.x;
-          const lastY = anchorRect.y + trackingOffset.current.y;
-          
-          let searchX = Math.max(0, lastX - margin);
-          let searchY = Math.max(0, lastY - margin);
-          let searchW = Math.min(fullFrameMat.cols - searchX, anchorRect.width + (margin * 2));
-          let searchH = Math.min(fullFrameMat.rows - searchY, anchorRect.height + (margin * 2));
-          
-          const searchRect = new cv.Rect(searchX, searchY, searchW, searchH);
-          const searchRoi = fullFrameMat.roi(searchRect);
-          
-          const result = new cv.Mat();
-          const mask = new cv.Mat();
-          
-          cv.matchTemplate(searchRoi, anchorMat.current, result, cv.TM_CCOEFF_NORMED, mask);
-          const minMax = cv.minMaxLoc(result, mask);
-          
-          safeDelete(result); safeDelete(mask); safeDelete(searchRoi);
+  const flushTrace = () => {
+      const { triggerSteps: steps, onSignalTraceChange } = latestProps.current;
+      lastTraceFlush.current = performance.now();
+      onSignalTraceChange?.({ stepIds: steps.map(s => s.id), samples: [...traceRecorder.current.samples] });
+  };
+
+  const disarmSystem = () => {
+      setMode('setup');
+      if (videoRef.current) videoRef.current.pause();
+      detectorState.current = createDetectorState(triggerSteps.length);
+      if (traceRecorder.current.samples.length > 0) flushTrace();
+  };
+
+  // --- BATCH ANALYSIS (seek frame by frame, score in worker) ---
+  const runBatchAnalysis = async () => {
+      if (!videoSrc) return;
+      if (triggerSteps.length === 0 || triggerSteps.some(s => !zoneRefMats.current.get(s.id))) {
+          alert("Please draw zones and capture Empty State Reference"); return;
+      }
+      videoRef.current?.pause();
+      const abort = new AbortController();
+      batchAbort.current = abort;
+      setBatchProgress({ progress: 0, cycles: 0 });
+      onStatusUpdate("Batch analysis: loading vision worker...");
+
+      const steps = triggerSteps;
+      const client = createVisionClient();
+      const seeker = document.createElement('video');
+      seeker.muted = true;
+      seeker.preload = 'auto';
+      seeker.src = videoSrc;
+
+      const found: Cycle[] = [];
+      const hitsPerStep: number[] = steps.map(() => 0);
+      const falsePerStep: number[] = steps.map(() => 0);
+      const trace = createTraceRecorder();
+
+      // Thumbnail-sized copy of each frame in flight, so a cycle gets the frame that completed it
+      const frameThumbs = [document.createElement('canvas'), document.createElement('canvas')];
+
+      const consume = ({ result, thumb }: { result: FrameResult, thumb: HTMLCanvasElement | null }) => {
+          if (result.zones && !result.zones.trackingLost) {
+              trace.push({ time: result.time, raw: result.zones.raw, smooth: result.zones.smooth });
+          }
+          result.events.forEach(event => {
+              if (event.type === 'hit') hitsPerStep[event.stepIndex]++;
+              else if (event.type === 'complete') found.push({ ...event.cycle, id: Date.now() + found.length, thumbnail: thumb ? canvasToThumbnail(thumb) : undefined });
+              else if (event.type === 'rejected') countFalseTriggers(falsePerStep, event.hits, steps);
+          });
+      };
 
-          if (minMax.maxVal > 0.6) {
-              const foundX = searchX + minMax.maxLoc.x;
-              const foundY = searchY + minMax.maxLoc.y;
-              trackingOffset.current = { x: foundX - anchorRect.x, y: foundY - anchorRect.y };
-              isTrackingLost.current = false;
+      try {
+          await new Promise<void>((resolve, reject) => {
+              seeker.onloadeddata = () => resolve();
+              seeker.onerror = () => reject(new Error("Cannot open video for batch analysis"));
+              abort.signal.addEventListener('abort', () => reject(new DOMException('Batch analysis cancelled', 'AbortError')));
+          });
+          await client.init(...buildWorkerInit(steps));
+
+          // Step through real frames: sample every `stride`-th frame of the detected rate
+          let fps = frameRate;
+          if (!fps && videoRef.current) fps = await measureFrameRate(videoRef.current);
+          if (fps) setFrameRate(fps);
+          const mediaFps = fps || DEFAULT_FPS;
+          const stride = Math.max(1, Math.round(mediaFps / batchFps));
+          const frameCount = Math.floor(seeker.duration * mediaFps);
+
+          let inFlight: Promise<{ result: FrameResult, thumb: HTMLCanvasElement | null }> | null = null;
+          let sampleIdx = 0;
+          // Seek the next frame while the worker scores the previous one
+          try {
+              for (let frame = 0; frame < frameCount && !abort.signal.aborted; frame += stride, sampleIdx++) {
+                  const t = await seekTo(seeker, frame, mediaFps, abort.signal);
+                  const thumb = thumbnailCanvas(seeker, frameThumbs[sampleIdx % 2]);
+                  const bitmap = await createImageBitmap(seeker);
+                  const next = client.process(t, bitmap, { zones: true }).then(result => ({ result, thumb }));
+                  if (inFlight) consume(await inFlight);
+                  inFlight = next;
+                  if (sampleIdx % 10 === 0) setBatchProgress({ progress: frame / frameCount, cycles: found.length });
+              }
+          } catch (e) {
+              if (!abort.signal.aborted) throw e; // Cancelled mid-seek: keep what was found so far
+          }
+          if (inFlight) consume(await inFlight);
+
+          if (hitsPerStep.some(n => n > 0) || falsePerStep.some(n => n > 0)) {
+              onTriggerStepsChange(steps.map((step, i) => ({
+                  ...step,
+                  hitCount: step.hitCount + hitsPerStep[i],
+                  falseTriggerCount: (step.falseTriggerCount || 0) + falsePerStep[i]
+              })));
+          }
+          onSignalTraceChange?.({ stepIds: steps.map(s => s.id), samples: trace.samples });
+          onBatchComplete?.(found);
+          const falseTotal = falsePerStep.reduce((a, b) => a + b, 0);
+          onStatusUpdate(abort.signal.aborted
+              ? `Batch analysis cancelled: ${found.length} cycles, ${falseTotal} false triggers up to ${formatTime(seeker.currentTime)}`
+              : `Batch analysis finished: ${found.length} cycles, ${falseTotal} false triggers`);
+      } catch (e: any) {
+          if (abort.signal.aborted) {
+              onStatusUpdate("Batch analysis cancelled");
           } else {
-              isTrackingLost.current = true;
+              console.error("Batch Error:", e);
+              alert(`Batch analysis failed: ${e.message}`);
           }
-      } catch (e) { console.error("Tracking failed", e); }
+      } finally {
+          batchAbort.current = null;
+          client.dispose();
+          seeker.removeAttribute('src');
+          seeker.load();
+          setBatchProgress(null);
+      }
   };
 
   // --- MAIN LOOP ---
@@ -459,116 +656,117 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
     if (!ctx) return;
     
     const now = performance.now();
-    const videoTime = video.currentTime;
+    // Timestamp of the frame on screen, not the clock time the rAF happens to run at
+    const videoTime = clockRef.current ? clockRef.current.mediaTime : video.currentTime;
     setCurrentTime(videoTime);
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
     if (video.readyState >= 2) {
         ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-        
-        // Feed AI Pose if ready and running
-        // Using decoupled throttle check to prevent main loop stutter
-        if (isAiReady && poseRef.current && mode === 'running' && !video.paused) {
-             if (now - lastProcessTime.current > 66) { 
-                 poseRef.current.send({ image: video });
-             }
-        }
-    }
 
-    if (!isCvReady || video.paused || (now - lastProcessTime.current < 50)) { 
-        drawUI(ctx);
-        requestRef.current = requestAnimationFrame(processFrame);
-        return;
-    }
-
-    lastProcessTime.current = now;
-
-    try {
-        const cv = (window as any).cv;
-        const pCtx = processingCanvas.current?.getContext('2d', { willReadFrequently: true });
-        
-        if (pCtx) {
-            pCtx.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
-            const imgData = pCtx.getImageData(0, 0, video.videoWidth, video.videoHeight);
-            
-            safeDelete(srcMat.current);
-            safeDelete(grayMat.current);
-            
-            srcMat.current = cv.matFromImageData(imgData);
-            grayMat.current = new cv.Mat();
-            cv.cvtColor(srcMat.current, grayMat.current, cv.COLOR_RGBA2GRAY);
-            
-            if (anchorMat.current) trackAnchor(srcMat.current);
-
-            if (!isTrackingLost.current && startRefMat.current && triggerSteps[0]) {
-                const rawScore = calculateChangeScore(
-                    grayMat.current, 
-                    startRefMat.current, 
-                    triggerSteps[0].rect, 
-                    trackingOffset.current
-                );
-
-                const alpha = CV_CONFIG.EMA_ALPHA;
-                const smoothScore = (alpha * rawScore) + ((1 - alpha) * signalState.current.prevSmooth);
-                
-                signalState.current = { raw: rawScore, smooth: smoothScore, prevSmooth: smoothScore };
-                processLogic(smoothScore, videoTime);
+        // Feed AI Pose if ready and running (throttled, decoupled from zone scoring)
+        if (isAiReady && mode === 'running' && !video.paused && now - lastPoseTime.current > 66) {
+            const poseClient = poseClientRef.current;
+            if (poseClient && !poseInFlight.current) {
+                lastPoseTime.current = now;
+                poseInFlight.current = true;
+                createImageBitmap(video)
+                    .then(bitmap => poseClient.process(videoTime, bitmap, { pose: true }))
+                    .then(result => { if (result.landmarks) onPoseResults(result.landmarks, result.time); })
+                    .catch(e => console.error("Pose Frame Error", e))
+                    .finally(() => { poseInFlight.current = false; });
             }
         }
-    } catch (e) { console.error("Process Frame Error", e); }
+
+        // Zone scoring: one frame in flight at a time, ~20 Hz
+        const client = visionRef.current;
+        const isNewFrame = videoTime !== lastSubmittedTime.current;
+        if (client && mode === 'running' && !video.paused && isNewFrame && !frameInFlight.current && now - lastProcessTime.current >= 50) {
+            const interval = now - lastProcessTime.current;
+            lastProcessTime.current = now;
+            lastSubmittedTime.current = videoTime;
+            frameInFlight.current = true;
+            createImageBitmap(video)
+                .then(bitmap => client.process(videoTime, bitmap, { zones: true }))
+                .then(result => {
+                    processLogic(result);
+                    onFPSUpdate(Math.round(1000 / (interval + 0.1)));
+                })
+                .catch(e => console.error("Process Frame Error", e))
+                .finally(() => { frameInFlight.current = false; });
+        }
+    }
 
     drawUI(ctx);
-    onFPSUpdate(Math.round(1000 / (now - lastProcessTime.current + 0.1)));
     requestRef.current = requestAnimationFrame(processFrame);
-  }, [isCvReady, isAiReady, mode, triggerSteps, sensitivity, taktTime]);
+  }, [isCvReady, isAiReady, mode, triggerSteps, sensitivity, taktTime, anchorRect]);
 
   // --- LOGIC CONTROLLER ---
-  const processLogic = (score: number, timestamp: number) => {
-      if (logicState.current === 'COOLDOWN') {
-          if (timestamp > cooldownTimer.current) {
-              logicState.current = 'IDLE';
-              visualState.current = "Ready";
-          }
-          return;
-      }
-
-      if (logicState.current === 'IDLE') {
-          if (score > highThreshold) {
-              logicState.current = 'TRIGGERED';
-              cycleStartTime.current = timestamp;
+  const processLogic = (result: FrameResult) => {
+      const { triggerSteps: steps, onCycleComplete, onTriggerStepsChange, onStatusUpdate } = latestProps.current;
+      if (!result.zones) return;
+
+      trackingOffset.current = result.zones.offset;
+      isTrackingLost.current = result.zones.trackingLost;
+      if (result.zones.trackingLost) return;
+
+      const { raw, smooth } = result.zones;
+      signalState.current = raw.map((r, i) => ({ raw: r, smooth: smooth[i] }));
+
+      // Record the trace; a rewind (loop or seek) starts a new pass
+      const samples = traceRecorder.current.samples;
+      if (samples.length > 0 && result.time < samples[samples.length - 1].time) traceRecorder.current.reset();
+      traceRecorder.current.push({ time: result.time, raw, smooth });
+      if (performance.now() - lastTraceFlush.current > TRACE_FLUSH_MS) flushTrace();
+      if (!result.detector) return;
+      const state = result.detector;
+      const events = result.events;
+      detectorState.current = state;
+
+      const hitsPerStep: number[] = Array(steps.length).fill(0);
+      const falsePerStep: number[] = Array(steps.length).fill(0);
+      events.forEach(event => {
+          if (event.type === 'hit') {
+              hitsPerStep[event.stepIndex]++;
+              if (!event.inOrder) onStatusUpdate(`Out-of-order hit: ${steps[event.stepIndex]?.name}`);
+          } else if (event.type === 'start') {
               visualState.current = "WORK STARTED";
               onStatusUpdate("Cycle Started");
+          } else if (event.type === 'complete') {
+              // Time in each pose action during the cycle; the label is the dominant one
+              const actions = actionsForRange(actionSpans.current, event.cycle.startTime, event.cycle.endTime);
+              actionSpans.current = actionSpans.current.filter(s => s.endTime >= event.cycle.endTime);
+
+              onCycleComplete({
+                  ...event.cycle,
+                  ...actions,
+                  id: Date.now(),
+                  aiLabel: labelFromActions(actions.actionTime),
+                  thumbnail: videoRef.current ? captureThumbnail(videoRef.current) : undefined
+              });
+              
+              const d = event.cycle.duration;
+              visualState.current = event.cycle.status === 'abnormal' ? `Abnormal Cycle (${d.toFixed(1)}s)` : `Cycle Finished (${d.toFixed(1)}s)`;
+              onStatusUpdate(`Cycle Logged: ${d.toFixed(2)}s${event.cycle.status === 'abnormal' ? ' (abnormal sequence)' : ''}`);
+          } else if (event.type === 'rejected') {
+              visualState.current = "False Trigger (Too Short)";
+              countFalseTriggers(falsePerStep, event.hits, steps);
           }
-      } else if (logicState.current === 'TRIGGERED') {
-          if (score < lowThreshold) {
-              const duration = timestamp - cycleStartTime.current;
-              if (duration > CV_CONFIG.MIN_CYCLE_TIME) {
-                  let status: 'ok' | 'over' | 'abnormal' = 'ok';
-                  if (duration > taktTime) status = 'over';
-                  
-                  // Use AI Classification as Label
-                  const aiLabel = aiState.current.currentAction;
-
-                  onCycleComplete({
-                      id: Date.now(),
-                      startTime: cycleStartTime.current,
-                      endTime: timestamp,
-                      duration: duration,
-                      status: status,
-                      aiLabel: aiLabel === 'IDLE' ? 'Operation' : (aiLabel === 'TRANSPORT' ? 'Transport' : 'Operation')
-                  });
-                  
-                  visualState.current = `Cycle Finished (${duration.toFixed(1)}s)`;
-                  onStatusUpdate(`Cycle Logged: ${duration.toFixed(2)}s`);
-                  logicState.current = 'COOLDOWN';
-                  cooldownTimer.current = timestamp + 1.5; 
-              } else {
-                  logicState.current = 'IDLE';
-                  visualState.current = "False Trigger (Too Short)";
-              }
-          } else {
-              visualState.current = `Working... ${(timestamp - cycleStartTime.current).toFixed(1)}s`;
-          }
+      });
+
+      if (hitsPerStep.some(n => n > 0) || falsePerStep.some(n => n > 0)) {
+          onTriggerStepsChange(steps.map((step, i) => hitsPerStep[i] || falsePerStep[i] ? {
+              ...step,
+              hitCount: step.hitCount + hitsPerStep[i],
+              falseTriggerCount: (step.falseTriggerCount || 0) + falsePerStep[i]
+          } : step));
+      }
+
+      if (state.phase === 'TRIGGERED') {
+          const stepInfo = steps.length > 1 ? ` [${Math.min(state.nextStep, steps.length)}/${steps.length}]` : '';
+          visualState.current = `Working... ${(result.time - state.cycleStart).toFixed(1)}s${stepInfo}`;
+      } else if (state.phase === 'IDLE' && events.length === 0 && visualState.current.startsWith('Working')) {
+          visualState.current = "Ready";
       }
   };
 
@@ -631,14 +829,16 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
           drawHighContrastBox(ax, ay, anchorRect.width, anchorRect.height, color, label, true, true);
       }
 
+      const detector = detectorState.current;
       triggerSteps.forEach((step, idx) => {
-          if (idx > 0) return; 
           const x = step.rect.x + offset.x; const y = step.rect.y + offset.y;
-          const isTriggered = logicState.current === 'TRIGGERED';
-          let color = isTriggered ? '#EF4444' : (signalState.current.smooth > lowThreshold ? '#F59E0B' : '#10B981');
+          const smooth = signalState.current[idx]?.smooth || 0;
+          const isTriggered = detector.zoneActive[idx] === true;
+          const isNext = detector.phase === 'TRIGGERED' && detector.nextStep === idx;
+          let color = isTriggered ? '#EF4444' : (smooth > lowThreshold ? '#F59E0B' : '#10B981');
           
           // Enhanced Label with AI State
-          let label = isTriggered ? "⚡ DETECTED" : "🎯 ZONE";
+          let label = `${idx + 1}. ${isTriggered ? "⚡ DETECTED" : isNext ? "⏭ NEXT" : "🎯 " + step.name}`;
           if (isTriggered && aiState.current.currentAction !== 'IDLE') {
               label += ` (${aiState.current.currentAction})`;
           }
@@ -651,7 +851,7 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
           const barH = step.rect.height;
           ctx.fillStyle = 'rgba(0,0,0,0.6)'; ctx.strokeStyle = 'white'; ctx.lineWidth = 1;
           ctx.strokeRect(barX, y, 8, barH); ctx.fillRect(barX, y, 8, barH);
-          const signalH = Math.min(barH, signalState.current.smooth * barH * 2); 
+          const signalH = Math.min(barH, smooth * barH * 2); 
           ctx.fillStyle = isTriggered ? '#EF4444' : '#10B981';
           ctx.fillRect(barX + 1, y + barH - signalH, 6, signalH);
           ctx.restore();
@@ -699,7 +899,15 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
         if (clickedStep) {
             setDraggingStepId(clickedStep.id);
             dragOffset.current = { x: pt.x - clickedStep.rect.x, y: pt.y - clickedStep.rect.y };
-            setRefImages(prev => ({...prev, start: null})); 
+            // Moving a zone invalidates its reference
+            safeDelete(zoneRefMats.current.get(clickedStep.id));
+            zoneRefMats.current.delete(clickedStep.id);
+            setZoneRefImages(prev => { const next = { ...prev }; delete next[clickedStep.id]; return next; });
+            if (referenceImages?.zones[clickedStep.id]) {
+                const zones = { ...referenceImages.zones };
+                delete zones[clickedStep.id];
+                onReferenceImagesChange?.({ ...referenceImages, zones });
+            }
         }
     }
   };
@@ -731,14 +939,15 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
         setDraggingStepId(null);
     } else if (dragStart.current && drawingRect && drawingRect.width! > 10) {
         const rect = drawingRect as Rect;
-        if (setupSubMode === 'start_roi') {
-            const newSteps = [{ id: 'start', name: "Work Zone", rect: rect, isActive: false, hitCount: 0 }];
-            onTriggerStepsChange(newSteps);
-            setRefImages(prev => ({...prev, start: null}));
+        if (setupSubMode === 'zone_roi') {
+            // Zones are appended in sequence order: 1 starts the cycle, N closes it
+            const newStep: TriggerStep = { id: crypto.randomUUID(), name: triggerSteps.length === 0 ? "Work Zone" : `Zone ${triggerSteps.length + 1}`, rect: rect, isActive: false, hitCount: 0 };
+            onTriggerStepsChange([...triggerSteps, newStep]);
         } else if (setupSubMode === 'anchor') {
             setAnchorRect(rect);
             safeDelete(anchorMat.current);
             anchorMat.current = null;
+            if (referenceImages?.anchor) onReferenceImagesChange?.({ ...referenceImages, anchor: null });
         }
     }
     dragStart.current = null;
@@ -752,16 +961,8 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
           <div className="flex items-center gap-2">
             <button 
                 onClick={() => {
-                   if (mode === 'setup') {
-                       if (triggerSteps.length === 0) { alert("Please draw a Work Zone"); return; }
-                       if (!refImages.start) { alert("Please capture Empty State Reference"); return; }
-                       setMode('running');
-                       if (videoRef.current) videoRef.current.play();
-                   } else {
-                       setMode('setup');
-                       if (videoRef.current) videoRef.current.pause();
-                       logicState.current = 'IDLE';
-                   }
+                   if (mode === 'setup') armSystem();
+                   else disarmSystem();
                 }}
                 className={`flex items-center gap-2 px-4 py-2 rounded font-bold transition-all ${mode === 'running' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'}`}
             >
@@ -779,10 +980,19 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
                     </div>
 
                     <div className="flex items-center gap-1 bg-gray-900 p-1 rounded border border-gray-600">
-                         <button onClick={() => setSetupSubMode('start_roi')} className={`flex items-center gap-1 px-2 py-1 rounded text-xs border ${setupSubMode === 'start_roi' ? 'bg-blue-600 border-blue-400 text-white' : 'bg-gray-700 border-gray-600 text-gray-300'}`}>
-                            <BoxSelect size={14} /> 2. Zone
+                         <button onClick={() => setSetupSubMode('zone_roi')} className={`flex items-center gap-1 px-2 py-1 rounded text-xs border ${setupSubMode === 'zone_roi' ? 'bg-blue-600 border-blue-400 text-white' : 'bg-gray-700 border-gray-600 text-gray-300'}`}>
+                            <BoxSelect size={14} /> 2. Zone {triggerSteps.length > 0 && `(${triggerSteps.length})`}
+                        </button>
+                        <button onClick={() => captureReference('start')} title="Capture empty-state reference for all zones" className={`p-1.5 rounded border ${triggerSteps.length > 0 && triggerSteps.every(s => zoneRefImages[s.id]) ? 'bg-green-600 text-white' : 'bg-gray-700 text-gray-400'}`}><Camera size={14}/></button>
+                    </div>
+
+                    <div className="flex items-center gap-1 bg-gray-900 p-1 rounded border border-purple-700/50">
+                        <select value={batchFps} onChange={(e) => setBatchFps(Number(e.target.value))} disabled={!!batchProgress} className="bg-gray-700 text-gray-200 text-xs rounded px-1 py-1 outline-none" title="Frames analyzed per second of video">
+                            {BATCH_SAMPLE_RATES.map(r => <option key={r} value={r}>{r} fps</option>)}
+                        </select>
+                        <button onClick={runBatchAnalysis} disabled={!!batchProgress || !videoSrc} className="flex items-center gap-1 px-2 py-1 rounded text-xs border bg-gray-700 border-gray-600 text-gray-300 hover:bg-purple-700 disabled:opacity-50" title="Analyze the whole file faster than real time">
+                            <FastForward size={14} /> 3. Batch
                         </button>
-                        <button onClick={() => captureReference('start')} className={`p-1.5 rounded border ${refImages.start ? 'bg-green-600 text-white' : 'bg-gray-700 text-gray-400'}`}><Camera size={14}/></button>
                     </div>
                 </div>
             )}
@@ -795,6 +1005,9 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
               <span className={`px-2 py-0.5 rounded ${isCvReady ? 'bg-green-900/30 text-green-400' : 'bg-red-900/30 text-red-400'}`}>
                 {isCvReady ? "CV: Ready" : "CV: Loading..."}
               </span>
+              <span className="px-2 py-0.5 rounded bg-gray-900/50 text-gray-400" title="Media frame rate (detected from presented frames)">
+                {frameRate ? `${frameRate.toFixed(2)} fps` : "fps: --"}
+              </span>
           </div>
       </div>
 
@@ -814,6 +1027,17 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
                 onMouseUp={handleMouseUp}
                 className="absolute inset-0 w-full h-full object-contain z-10"
             />
+            {batchProgress && (
+                <div className="absolute top-2 left-1/2 -translate-x-1/2 z-20 bg-gray-900/90 border border-purple-500 rounded px-3 py-2 flex items-center gap-3 text-xs text-white shadow-lg">
+                    <FastForward size={14} className="text-purple-400 animate-pulse"/>
+                    <div className="w-48 h-1.5 bg-gray-700 rounded overflow-hidden">
+                        <div className="h-full bg-purple-500" style={{ width: `${(batchProgress.progress * 100).toFixed(1)}%` }}></div>
+                    </div>
+                    <span className="font-mono">{(batchProgress.progress * 100).toFixed(0)}%</span>
+                    <span className="text-gray-400">{batchProgress.cycles} cycles</span>
+                    <button onClick={() => batchAbort.current?.abort()} className="text-gray-400 hover:text-red-400" title="Cancel"><X size={14}/></button>
+                </div>
+            )}
         </div>
             
         <div className="h-12 bg-gray-900 border-t border-gray-700 flex items-center px-4 gap-4 z-30 shrink-0">
@@ -1,31 +1,33 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Camera, Monitor, Wifi, Disc, Save, StopCircle, Clock, Video, CalendarClock, AlertTriangle, Plus, Trash2, ChevronDown, FolderOpen, FileVideo, X, Info, FileQuestion, Signal, Smartphone, Eye, EyeOff, Server } from 'lucide-react';
-
-// Helper to verify permission with better error handling
-async function verifyPermission(fileHandle: FileSystemHandle, readWrite: boolean) {
-  const options = { mode: readWrite ? 'readwrite' as const : 'read' as const };
-  
-  try {
-      // Check if permission was already granted
-      // @ts-ignore - queryPermission is experimental
-      if ((await fileHandle.queryPermission(options)) === 'granted') {
-        return true;
-      }
-      
-      // Request permission (requires user gesture if not already granted)
-      // @ts-ignore - requestPermission is experimental
-      if ((await fileHandle.requestPermission(options)) === 'granted') {
-        return true;
-      }
-  } catch (err) {
-      console.error("Permission check failed:", err);
-  }
-  
-  return false;
+import { Camera, Monitor, Wifi, Disc, Save, StopCircle, Clock, Video, CalendarClock, AlertTriangle, Plus, Trash2, ChevronDown, FolderOpen, FileVideo, X, Info, FileQuestion, Signal, Smartphone, Eye, EyeOff, Server, Activity, Crosshair } from 'lucide-react';
+import { Cycle, TriggerStep } from '../types';
+import { DetectorConfig, DetectorState, countFalseTriggers } from '../utils/cycleDetector';
+import { MatPayload, extractRoiMat, buildReferenceMat, matToPayload, safeDelete } from '../utils/vision';
+import { createVisionClient, VisionClient } from '../workers/visionClient';
+import { FrameResult } from '../workers/visionProtocol';
+import { captureThumbnail } from '../utils/thumbnail';
+import { verifyPermission } from '../utils/fileAccess';
+
+interface VideoRecorderProps {
+  // Live line monitor: the analyzer's trigger zones, scored on the live stream
+  triggerSteps?: TriggerStep[];
+  detectorConfig?: DetectorConfig;
+  onCycleComplete?: (cycle: Cycle) => void;
+  onTriggerStepsChange?: (steps: TriggerStep[]) => void;
+  onStatusUpdate?: (status: string) => void;
 }
 
-const VideoRecorder: React.FC = () => {
+const LIVE_PROCESS_MS = 50;       // Zone scoring rate on the live stream (~20 Hz)
+const RECORD_POST_ROLL_MS = 3000; // Gated recording keeps running this long after a cycle ends
+
+const VideoRecorder: React.FC<VideoRecorderProps> = ({
+  triggerSteps = [],
+  detectorConfig,
+  onCycleComplete,
+  onTriggerStepsChange,
+  onStatusUpdate
+}) => {
   // Source State
   const [sourceType, setSourceType] = useState<'webcam' | 'screen' | 'ip'>('webcam');
   const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
@@ -63,6 +65,19 @@ const VideoRecorder: React.FC = () => {
   const timerRef = useRef<number>(0);
   const hlsRef = useRef<any>(null);
 
+  // Live Monitor State
+  const [isMonitoring, setIsMonitoring] = useState(false);
+  const [recordOnCycle, setRecordOnCycle] = useState(false); // Record only while cycles are detected
+  const [isRecordPaused, setIsRecordPaused] = useState(false);
+  const [liveRefReady, setLiveRefReady] = useState(false);
+  const [liveInfo, setLiveInfo] = useState<{ phase: DetectorState['phase'], smooth: number[], cycles: number, last: Cycle | null }>({ phase: 'IDLE', smooth: [], cycles: 0, last: null });
+  const liveRefs = useRef<Map<string, MatPayload>>(new Map()); // Empty-state reference per TriggerStep.id
+  const liveClientRef = useRef<VisionClient | null>(null);
+  const liveStartRef = useRef<number>(0);
+  const liveInFlight = useRef(false);
+  const postRollTimer = useRef<number>(0);
+  const gatedStarting = useRef(false);
+
   // Load available cameras & Saved IPs
   useEffect(() => {
     const getDevices = async () => {
@@ -124,6 +139,9 @@ const VideoRecorder: React.FC = () => {
         videoRef.current.removeAttribute('crossorigin');
     }
     setIsViewOnly(false);
+    stopMonitoring();
+    liveRefs.current = new Map();
+    setLiveRefReady(false);
   };
 
   // Start Stream Logic
@@ -364,9 +382,11 @@ const VideoRecorder: React.FC = () => {
         mediaRecorderRef.current.stop();
         mediaRecorderRef.current = null;
         if (timerRef.current) clearInterval(timerRef.current);
+        clearTimeout(postRollTimer.current);
         
         // Finalize Logic
         setIsRecording(false);
+        setIsRecordPaused(false);
         
         // Wait briefly for last chunk
         await new Promise(resolve => setTimeout(resolve, 500));
@@ -570,7 +590,8 @@ const VideoRecorder: React.FC = () => {
 
         if (timerRef.current) clearInterval(timerRef.current);
         timerRef.current = window.setInterval(() => {
-            setElapsedTime(prev => prev + 1);
+            // Gated recordings only count the time actually recorded
+            setElapsedTime(prev => mediaRecorderRef.current?.state === 'paused' ? prev : prev + 1);
         }, 1000);
 
     } catch (err) {
@@ -579,6 +600,217 @@ const VideoRecorder: React.FC = () => {
     }
   }, [sourceType, saveDirHandle, forceSaveAs, ipUrl, selectedDeviceId, networkMode, isViewOnly, useProxy]);
 
+  // --- LIVE CYCLE MONITOR ---
+  // Worker replies land after re-renders; read props and callbacks from here
+  const latestLive = useRef({ triggerSteps, detectorConfig, onCycleComplete, onTriggerStepsChange, onStatusUpdate, recordOnCycle, startRecording });
+  latestLive.current = { triggerSteps, detectorConfig, onCycleComplete, onTriggerStepsChange, onStatusUpdate, recordOnCycle, startRecording };
+
+  // References are only valid for the zone layout they were captured with
+  const zoneLayoutKey = triggerSteps.map(s => `${s.id}:${s.rect.x},${s.rect.y},${s.rect.width},${s.rect.height}`).join('|');
+  useEffect(() => {
+    if (isMonitoring) stopMonitoring();
+    liveRefs.current = new Map();
+    setLiveRefReady(false);
+  }, [zoneLayoutKey]);
+
+  // Live threshold / takt changes reach the running detector
+  useEffect(() => {
+    if (isMonitoring && detectorConfig) {
+        liveClientRef.current?.setDetectorConfig(detectorConfig).catch(e => console.error("Detector config failed", e));
+    }
+  }, [detectorConfig]);
+
+  const captureLiveReference = () => {
+    const video = videoRef.current;
+    const cv = (window as any).cv;
+    if (triggerSteps.length === 0) { alert("ยังไม่มีโซนตรวจจับ กรุณาวาดโซนในแท็บ AI Analyzer ก่อน"); return; }
+    if (!video || !video.videoWidth) { setStatusMsg("❌ ไม่มีสัญญาณภาพ!"); return; }
+    if (!cv || !cv.Mat) { setStatusMsg("⏳ OpenCV ยังโหลดไม่เสร็จ"); return; }
+
+    // Zones are drawn in video pixels; the camera must deliver the same resolution
+    const outside = triggerSteps.filter(s => s.rect.x + s.rect.width > video.videoWidth || s.rect.y + s.rect.height > video.videoHeight);
+    if (outside.length > 0) {
+        alert(`โซน ${outside.map(s => s.name).join(', ')} อยู่นอกภาพกล้อง (${video.videoWidth}×${video.videoHeight})\nวาดโซนจากวิดีโอที่อัดด้วยกล้องตัวนี้`);
+        return;
+    }
+
+    let frameMat: any = null;
+    try {
+        const canvas = document.createElement('canvas');
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx) throw new Error("No Context");
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        frameMat = cv.matFromImageData(ctx.getImageData(0, 0, canvas.width, canvas.height));
+
+        const refs = new Map<string, MatPayload>();
+        triggerSteps.forEach(step => {
+            const roi = extractRoiMat(cv, step.rect, frameMat);
+            if (!roi) return;
+            const ref = buildReferenceMat(cv, roi);
+            refs.set(step.id, matToPayload(ref));
+            safeDelete(ref);
+            safeDelete(roi);
+        });
+        liveRefs.current = refs;
+        setLiveRefReady(refs.size === triggerSteps.length);
+        setStatusMsg(`📸 จับภาพอ้างอิง ${refs.size} โซนแล้ว`);
+    } catch (e) {
+        console.error("Live reference capture failed", e);
+        setStatusMsg("❌ จับภาพอ้างอิงไม่สำเร็จ (CORS?)");
+    } finally {
+        safeDelete(frameMat);
+    }
+  };
+
+  const startMonitoring = async () => {
+    if (!detectorConfig || triggerSteps.length === 0) { alert("ยังไม่มีโซนตรวจจับ กรุณาวาดโซนในแท็บ AI Analyzer ก่อน"); return; }
+    if (isViewOnly) { alert("ตรวจจับไม่ได้ในโหมดดูอย่างเดียว (ติดปัญหา CORS)"); return; }
+    if (!liveRefReady || triggerSteps.some(s => !liveRefs.current.get(s.id))) { alert("กรุณาจับภาพอ้างอิง (ไม่มีชิ้นงาน) จากกล้องก่อน"); return; }
+
+    setStatusMsg("⏳ กำลังโหลด Vision Worker...");
+    const client = createVisionClient();
+    try {
+        // A fixed camera needs no anchor tracking
+        await client.init(
+            triggerSteps.map(s => ({
+                id: s.id,
+                rect: s.rect,
+                reference: liveRefs.current.get(s.id)!,
+                adaptive: s.referenceMode === 'adaptive',
+                normalizeExposure: !!s.normalizeExposure,
+            })),
+            null,
+            { steps: triggerSteps, config: detectorConfig }
+        );
+    } catch (e) {
+        console.error("Vision Worker Error:", e);
+        client.dispose();
+        setStatusMsg("❌ โหลด Vision Worker ไม่สำเร็จ");
+        return;
+    }
+    liveClientRef.current = client;
+    liveStartRef.current = performance.now();
+    setLiveInfo({ phase: 'IDLE', smooth: triggerSteps.map(() => 0), cycles: 0, last: null });
+    setIsMonitoring(true);
+    setStatusMsg(`📡 กำลังตรวจจับรอบ (Takt ${detectorConfig.taktTime}s)`);
+    onStatusUpdate?.("Live monitor armed on the capture stream");
+  };
+
+  const stopMonitoring = () => {
+    clearTimeout(postRollTimer.current);
+    liveClientRef.current?.dispose();
+    liveClientRef.current = null;
+    liveInFlight.current = false;
+    setIsMonitoring(false);
+  };
+
+  const handleStopMonitoring = () => {
+    stopMonitoring();
+    if (recordOnCycle && isRecording) stopRecording(true);
+    setStatusMsg(`⏹ หยุดตรวจจับ: ${liveInfo.cycles} รอบ`);
+  };
+
+  // Gated recording: the recorder runs during cycles and pauses in between,
+  // so one file holds only the worked time
+  const resumeGatedRecording = () => {
+    clearTimeout(postRollTimer.current);
+    const recorder = mediaRecorderRef.current;
+    if (!recorder) {
+        if (gatedStarting.current) return;
+        gatedStarting.current = true;
+        latestLive.current.startRecording(true).finally(() => { gatedStarting.current = false; });
+    } else if (recorder.state === 'paused') {
+        recorder.resume();
+        setIsRecordPaused(false);
+        setStatusMsg("🔴 ตรวจพบรอบ: กำลังอัด...");
+    }
+  };
+
+  const scheduleGatedPause = () => {
+    clearTimeout(postRollTimer.current);
+    postRollTimer.current = window.setTimeout(() => {
+        const recorder = mediaRecorderRef.current;
+        if (recorder && recorder.state === 'recording') {
+            recorder.pause();
+            setIsRecordPaused(true);
+            setStatusMsg("⏸ รอรอบถัดไป (พักการอัด)");
+        }
+    }, RECORD_POST_ROLL_MS);
+  };
+
+  const handleLiveResult = (result: FrameResult) => {
+    const { triggerSteps: steps, onCycleComplete, onTriggerStepsChange, onStatusUpdate, recordOnCycle } = latestLive.current;
+    if (!result.zones || !result.detector) return;
+    const state = result.detector;
+
+    const hitsPerStep: number[] = steps.map(() => 0);
+    const falsePerStep: number[] = steps.map(() => 0);
+    let completed: Cycle | null = null;
+    result.events.forEach(event => {
+        if (event.type === 'hit') {
+            hitsPerStep[event.stepIndex]++;
+        } else if (event.type === 'start') {
+            if (recordOnCycle) resumeGatedRecording();
+        } else if (event.type === 'complete') {
+            completed = {
+                ...event.cycle,
+                id: Date.now(),
+                thumbnail: videoRef.current ? captureThumbnail(videoRef.current) : undefined
+            };
+            onCycleComplete?.(completed);
+            onStatusUpdate?.(`Live cycle logged: ${event.cycle.duration.toFixed(2)}s${event.cycle.status === 'over' ? ' (over takt)' : ''}`);
+        } else if (event.type === 'rejected') {
+            countFalseTriggers(falsePerStep, event.hits, steps);
+        }
+    });
+
+    if (hitsPerStep.some(n => n > 0) || falsePerStep.some(n => n > 0)) {
+        onTriggerStepsChange?.(steps.map((step, i) => hitsPerStep[i] || falsePerStep[i] ? {
+            ...step,
+            hitCount: step.hitCount + hitsPerStep[i],
+            falseTriggerCount: (step.falseTriggerCount || 0) + falsePerStep[i]
+        } : step));
+    }
+    if (recordOnCycle && state.phase !== 'TRIGGERED' && result.events.some(e => e.type === 'complete' || e.type === 'rejected')) {
+        scheduleGatedPause();
+    }
+
+    setLiveInfo(prev => ({
+        phase: state.phase,
+        smooth: result.zones!.smooth,
+        cycles: prev.cycles + (completed ? 1 : 0),
+        last: completed || prev.last
+    }));
+  };
+
+  // Score the live stream while monitoring; one frame in flight at a time.
+  // Time runs from the moment monitoring started.
+  useEffect(() => {
+    if (!isMonitoring) return;
+    let frameHandle = 0;
+    let lastProcess = 0;
+    const loop = () => {
+        const video = videoRef.current;
+        const client = liveClientRef.current;
+        const now = performance.now();
+        if (video && client && video.readyState >= 2 && !liveInFlight.current && now - lastProcess >= LIVE_PROCESS_MS) {
+            lastProcess = now;
+            liveInFlight.current = true;
+            const time = (now - liveStartRef.current) / 1000;
+            createImageBitmap(video)
+                .then(bitmap => client.process(time, bitmap, { zones: true }))
+                .then(result => { if (liveClientRef.current === client) handleLiveResult(result); })
+                .catch(e => { if (liveClientRef.current === client) console.error("Live Frame Error", e); })
+                .finally(() => { liveInFlight.current = false; });
+        }
+        frameHandle = requestAnimationFrame(loop);
+    };
+    frameHandle = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frameHandle);
+  }, [isMonitoring]);
+
   // Scheduler Effect
   useEffect(() => {
     if (!isRecording && scheduleStart && scheduleEnd && !statusMsg.startsWith("✅") && !statusMsg.startsWith("❌")) {
@@ -850,9 +1082,38 @@ const VideoRecorder: React.FC = () => {
          
          {/* Recording Overlay */}
          {isRecording && (
-            <div className="absolute top-4 right-4 flex items-center gap-3 bg-black/60 backdrop-blur px-4 py-2 rounded-full border border-red-900">
-                <div className="w-3 h-3 bg-red-600 rounded-full animate-pulse"></div>
-                <span className="font-mono text-xl font-bold text-red-500">{formatTime(elapsedTime)}</span>
+            <div className={`absolute top-4 right-4 flex items-center gap-3 bg-black/60 backdrop-blur px-4 py-2 rounded-full border ${isRecordPaused ? 'border-gray-600' : 'border-red-900'}`}>
+                <div className={`w-3 h-3 rounded-full ${isRecordPaused ? 'bg-gray-500' : 'bg-red-600 animate-pulse'}`}></div>
+                <span className={`font-mono text-xl font-bold ${isRecordPaused ? 'text-gray-400' : 'text-red-500'}`}>{formatTime(elapsedTime)}</span>
+            </div>
+         )}
+
+         {/* Live Monitor Overlay */}
+         {isMonitoring && (
+            <div className="absolute top-4 left-4 bg-black/70 backdrop-blur px-3 py-2 rounded border border-gray-700 text-xs z-10 min-w-[200px]">
+                <div className="flex items-center justify-between gap-3 mb-1">
+                    <span className={`font-bold ${liveInfo.phase === 'TRIGGERED' ? 'text-green-400' : liveInfo.phase === 'COOLDOWN' ? 'text-yellow-400' : 'text-gray-300'}`}>
+                        {liveInfo.phase === 'TRIGGERED' ? '● กำลังทำงาน' : liveInfo.phase === 'COOLDOWN' ? 'Cooldown' : 'รอรอบถัดไป'}
+                    </span>
+                    <span className="text-gray-400">{liveInfo.cycles} รอบ</span>
+                </div>
+                {liveInfo.last && (
+                    <div className={`mb-1 font-mono ${liveInfo.last.status === 'ok' ? 'text-green-400' : liveInfo.last.status === 'over' ? 'text-red-400' : 'text-purple-400'}`}>
+                        ล่าสุด {liveInfo.last.duration.toFixed(1)}s / Takt {detectorConfig?.taktTime}s
+                    </div>
+                )}
+                {triggerSteps.map((step, i) => {
+                    const high = detectorConfig?.highThreshold || 1;
+                    const level = Math.min(1, (liveInfo.smooth[i] || 0) / high);
+                    return (
+                        <div key={step.id} className="flex items-center gap-2 mt-0.5">
+                            <span className="w-16 truncate text-gray-400">{step.name}</span>
+                            <div className="flex-grow h-1.5 bg-gray-700 rounded overflow-hidden">
+                                <div className={`h-full ${level >= 1 ? 'bg-green-400' : 'bg-blue-500'}`} style={{ width: `${level * 100}%` }}></div>
+                            </div>
+                        </div>
+                    );
+                })}
             </div>
          )}
          
@@ -907,6 +1168,40 @@ const VideoRecorder: React.FC = () => {
              </div>
          </div>
 
+         {/* Live Cycle Monitor */}
+         <div className="flex items-center gap-3 bg-gray-900/50 px-4 py-2 rounded-lg border border-gray-700">
+             <div className="flex items-center gap-2 text-gray-400">
+                <Activity size={16} className={isMonitoring ? 'text-green-400' : ''} />
+                <span className="text-xs font-bold uppercase tracking-wide">ตรวจจับรอบ (Live)</span>
+             </div>
+             <span className="text-xs text-gray-500">{triggerSteps.length} โซน · Takt {detectorConfig ? `${detectorConfig.taktTime}s` : '-'}</span>
+             <button
+                onClick={captureLiveReference}
+                disabled={isMonitoring || triggerSteps.length === 0}
+                className={`flex items-center gap-1 px-2 py-1 rounded text-xs border disabled:opacity-50 ${liveRefReady ? 'border-green-600 text-green-300' : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+                title="จับภาพสถานีตอนไม่มีชิ้นงาน (Empty State) จากกล้อง"
+             >
+                <Crosshair size={12} /> {liveRefReady ? 'อ้างอิงพร้อม' : 'จับภาพอ้างอิง'}
+             </button>
+             <button
+                onClick={isMonitoring ? handleStopMonitoring : startMonitoring}
+                disabled={!isMonitoring && (!liveRefReady || isViewOnly)}
+                className={`px-3 py-1 rounded text-xs font-bold disabled:opacity-50 ${isMonitoring ? 'bg-gray-700 border border-gray-500 hover:bg-gray-600' : 'bg-green-600 hover:bg-green-700'}`}
+             >
+                {isMonitoring ? 'หยุดตรวจจับ' : 'เริ่มตรวจจับ'}
+             </button>
+             <label className="flex items-center gap-1 text-xs text-gray-300 cursor-pointer select-none" title="เริ่มอัดเมื่อตรวจพบรอบ และพักการอัดระหว่างรอบ">
+                <input
+                    type="checkbox"
+                    checked={recordOnCycle}
+                    onChange={(e) => setRecordOnCycle(e.target.checked)}
+                    disabled={isMonitoring}
+                    className="w-3 h-3 rounded bg-gray-800 border-gray-600"
+                />
+                อัดเฉพาะช่วงที่มีรอบ
+             </label>
+         </div>
+
          <div className="flex items-center gap-4">
             {!isRecording ? (
                 <button 
@@ -0,0 +1,55 @@
+import React, { useRef } from 'react';
+import { FileQuestion, FolderOpen, FileVideo, X } from 'lucide-react';
+import { VideoRef } from '../types';
+
+interface Props {
+  video: VideoRef;
+  isChecking: boolean;                  // A chosen file is being hashed
+  onRelink: (file: File) => void;
+  onGrantAccess?: () => void;           // Video folder needs permission again after a reload
+  onDismiss: () => void;
+}
+
+const formatSize = (bytes: number) => bytes >= 1024 * 1024 * 1024
+  ? `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`
+  : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const VideoRelinkDialog: React.FC<Props> = ({ video, isChecking, onRelink, onGrantAccess, onDismiss }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-[60] flex items-center justify-center p-4">
+      <div className="bg-white border border-[#a0a0a0] shadow-2xl w-full max-w-md text-xs">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-gray-300 bg-[#f0f0f0]">
+          <span className="font-bold text-gray-700 flex items-center gap-2"><FileQuestion size={14} className="text-amber-600"/> ไม่พบวิดีโอของโปรเจกต์</span>
+          <button onClick={onDismiss} className="text-gray-400 hover:text-gray-700"><X size={16}/></button>
+        </div>
+        <div className="p-4 space-y-3">
+          <p className="text-gray-600">
+            {video.storage === 'directory'
+              ? 'วิดีโอถูกเก็บไว้ในโฟลเดอร์วิดีโอ แต่ยังไม่ได้รับสิทธิ์เข้าถึง หรือไฟล์ถูกย้าย/ลบไปแล้ว'
+              : 'วิดีโอไม่อยู่ในฐานข้อมูลของเบราว์เซอร์นี้ (เช่น เปิดโปรเจกต์จากไฟล์ JSON)'}
+            {' '}ลิงก์เวลาของแต่ละรอบจะใช้งานได้เมื่อเชื่อมวิดีโอเดิมกลับมา
+          </p>
+          <div className="border border-gray-200 bg-gray-50 rounded p-2 space-y-0.5">
+            <div className="flex items-center gap-2 font-bold text-gray-800"><FileVideo size={14}/> {video.name}</div>
+            <div className="text-gray-500">{formatSize(video.size)} · {video.type || 'video'}</div>
+            <div className="text-gray-400 font-mono text-[10px] truncate" title={video.hash}>SHA-256 {video.hash}</div>
+          </div>
+        </div>
+        <div className="flex justify-end gap-2 px-3 py-2 border-t border-gray-200 bg-[#f0f0f0]">
+          <input type="file" accept="video/*" ref={inputRef} className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) onRelink(file); e.target.value = ''; }} />
+          <button onClick={onDismiss} className="px-3 py-1 border border-gray-300 rounded bg-white hover:bg-gray-100">ข้ามไป</button>
+          {video.storage === 'directory' && onGrantAccess && (
+            <button onClick={onGrantAccess} className="flex items-center gap-1 px-3 py-1 border border-gray-300 rounded bg-white hover:bg-gray-100"><FolderOpen size={12}/> อนุญาตโฟลเดอร์</button>
+          )}
+          <button onClick={() => inputRef.current?.click()} disabled={isChecking} className="flex items-center gap-1 px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50">
+            <FileVideo size={12}/> {isChecking ? 'กำลังตรวจสอบ...' : 'เลือกไฟล์วิดีโอ...'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VideoRelinkDialog;
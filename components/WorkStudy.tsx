@@ -1,15 +1,27 @@
 
 import React, { useState, useRef, useEffect, useCallback, useLayoutEffect } from 'react';
-import { Play, Pause, Footprints, Clock, Plus, Trash2, Download, FolderOpen, Truck, Activity, PackageCheck, Coffee, AlertOctagon, Edit3, X, ChevronRight, ChevronLeft, Settings2, Edit, Calculator, ScanEye, Camera, Layers, ZoomIn, ZoomOut, Move, SkipBack, SkipForward, FileSpreadsheet, FileUp } from 'lucide-react';
-import { WorkStudyTask, WorkStudyRound, LogisticsEvent, ActivityType } from '../types';
+import { Play, Pause, Footprints, Clock, Plus, Trash2, Download, FolderOpen, Truck, Activity, PackageCheck, Coffee, AlertOctagon, Edit3, X, ChevronRight, ChevronLeft, Settings2, Edit, Calculator, ScanEye, Camera, Layers, ZoomIn, ZoomOut, Move, SkipBack, SkipForward, FileSpreadsheet, FileUp, Target, SlidersHorizontal } from 'lucide-react';
+import { WorkStudyTask, WorkStudyRound, LogisticsEvent, ActivityType, OutlierRule, ObservationTarget, RatingMethod, WestinghouseFactor, AllowanceBreakdown } from '../types';
 import ExcelJS from 'exceljs';
+import { CONFIDENCE_Z, cycleTime, elementTime, isValidRating, missingRounds, pendingRounds, requiredObservations, roundCycleTime } from '../utils/standardTime';
+import { OUTLIER_RULES, flagOutliers, setRoundExcluded } from '../utils/outliers';
+import { describeAllowance, withAllowance } from '../utils/allowance';
+import AllowanceBuilder from './AllowanceBuilder';
+import { RATING_METHODS, WESTINGHOUSE, WESTINGHOUSE_FACTORS, applyRating, describeRating, setRatingMethod } from '../utils/rating';
+import { DEFAULT_FPS, FrameClock, createFrameClock, frameIndexAt, seekToFrame, snapToFrame } from '../utils/frameClock';
 
 interface Props {
   videoSrc: string | null;
   tasks: WorkStudyTask[];
   setTasks: React.Dispatch<React.SetStateAction<WorkStudyTask[]>>;
+  logisticsEvents: LogisticsEvent[];
+  setLogisticsEvents: React.Dispatch<React.SetStateAction<LogisticsEvent[]>>;
+  observationTarget: ObservationTarget;
+  onObservationTargetChange: (target: ObservationTarget) => void;
 }
 
+const ACCURACY_OPTIONS = [5, 10];
+
 // --- PMTS / MODAPTS DATA ---
 const MODAPTS_CODES = [
     { code: 'M1', val: 0.129, desc: 'Movement (Finger)' },
@@ -42,15 +54,22 @@ const FLOW_SYMBOLS: { type: ActivityType, label: string, thaiLabel: string, path
     { type: 'Hold', label: 'V', thaiLabel: 'เก็บ', path: <polygon points="4,4 20,4 12,20" stroke="currentColor" strokeWidth="2" /> }
 ];
 
-const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
+const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks, logisticsEvents, setLogisticsEvents, observationTarget, onObservationTargetChange }) => {
   const [mode, setMode] = useState<'standard' | 'logistics'>('standard');
   const [currentRound, setCurrentRound] = useState(0); 
   const [activeTaskIndex, setActiveTaskIndex] = useState<number>(-1); 
   const [selectedTaskIndex, setSelectedTaskIndex] = useState<number | null>(null);
   const [selectedRoundIndex, setSelectedRoundIndex] = useState<number | null>(null);
   
-  const [logisticsEvents, setLogisticsEvents] = useState<LogisticsEvent[]>([]);
-  const [currentLogisticsEvent, setCurrentLogisticsEvent] = useState<Partial<LogisticsEvent> | null>(null);
+  const currentLogisticsEvent = logisticsEvents.find(e => e.endTime === undefined) || null; // Still running
+
+  // Sample size: rounds each element still needs for the chosen confidence / accuracy
+  const checks = tasks.map(t => requiredObservations(t, observationTarget));
+  const pending = tasks.map((t, i) => pendingRounds(t, checks[i]));
+  const requiredRounds = Math.max(0, ...checks.map(c => c.required ?? 0)); // Shown as a number only
+  const targetRounds = Math.max(0, ...tasks.map((t, i) => pending[i].length ? pending[i][pending[i].length - 1] + 1 : t.rounds.length));
+  const roundColumns = Math.max(3, currentRound + 1, targetRounds);
+  const nextPendingRound = pending.some(p => p.length) ? Math.min(...pending.flat()) : null;
 
   const [isTiming, setIsTiming] = useState(false);
   const [isWalking, setIsWalking] = useState(false);
@@ -58,6 +77,8 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
   const [walkStart, setWalkStart] = useState(0);
   const [accumulatedWalk, setAccumulatedWalk] = useState(0);
   
+  const [allowanceBuilderOpen, setAllowanceBuilderOpen] = useState(false);
+
   const [editingResult, setEditingResult] = useState<{taskIdx: number, roundIdx: number, ht: number, wt: number, mt: number} | null>(null);
 
   // Video State
@@ -65,6 +86,9 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [playbackRate, setPlaybackRate] = useState(1);
+  const clockRef = useRef<FrameClock | null>(null);
+  const pendingFrame = useRef<number | null>(null); // Target of a step whose frame is not on screen yet
+  const [frameRate, setFrameRate] = useState<number | null>(null);
   const [zoomLevel, setZoomLevel] = useState(1);
   const [panPosition, setPanPosition] = useState({ x: 0, y: 0 });
   const [isPanning, setIsPanning] = useState(false);
@@ -106,6 +130,30 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
     return () => window.removeEventListener('resize', calculatePath);
   }, [calculatePath]);
 
+  // Frame clock: media timestamps and detected frame rate of the loaded video
+  useEffect(() => {
+    if (!videoRef.current) return;
+    setFrameRate(null);
+    const video = videoRef.current;
+    const clock = createFrameClock(video, (mediaTime, fps) => {
+        pendingFrame.current = null;
+        if (clock.detected) setFrameRate(prev => prev === fps ? prev : fps);
+        if (video.paused) setCurrentTime(snapToFrame(mediaTime, fps)); // Seeks/steps; playback uses timeupdate
+    });
+    clockRef.current = clock;
+    return () => { clock.dispose(); clockRef.current = null; };
+  }, [videoSrc]);
+
+  // Video time of the frame on screen, snapped to the frame start
+  const frameTime = (): number => {
+      const video = videoRef.current;
+      if (!video) return 0;
+      const clock = clockRef.current;
+      if (!clock) return video.currentTime;
+      if (pendingFrame.current !== null) return pendingFrame.current / clock.fps;
+      return snapToFrame(clock.mediaTime, clock.fps);
+  };
+
   // Keyboard
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -139,18 +187,22 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
   };
 
   const stepFrame = (frames: number) => {
-      if (videoRef.current) {
-          videoRef.current.pause();
-          videoRef.current.currentTime += (frames * 0.033); // Assume 30fps
-      }
+      const video = videoRef.current;
+      if (!video) return;
+      video.pause();
+      const fps = clockRef.current?.fps || DEFAULT_FPS;
+      // Consecutive key presses build on the pending target so no frame is skipped or repeated
+      const current = pendingFrame.current ?? frameIndexAt(clockRef.current ? clockRef.current.mediaTime : video.currentTime, fps);
+      pendingFrame.current = frameIndexAt(seekToFrame(video, current + frames, fps), fps);
   };
 
-  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
-      const time = parseFloat(e.target.value);
+  const seekTo = (time: number) => {
       setCurrentTime(time);
       if (videoRef.current) videoRef.current.currentTime = time;
   };
 
+  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => seekTo(parseFloat(e.target.value));
+
   const formatTime = (seconds: number) => {
       if (!Number.isFinite(seconds) || isNaN(seconds) || seconds < 0) return "0:00.00";
       const m = Math.floor(seconds / 60);
@@ -213,7 +265,7 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
   // --- Standard Work Logic ---
   const toggleWalk = () => {
       if (!isTiming || !videoRef.current) return;
-      const now = videoRef.current.currentTime;
+      const now = frameTime();
       if (!isWalking) {
           setIsWalking(true);
           setWalkStart(now);
@@ -231,7 +283,8 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
           if (nextIndex < tasks.length) setTimeout(() => startTaskLogic(nextIndex), 50);
           return;
       }
-      let targetIndex = tasks.findIndex(t => !t.rounds[currentRound]);
+      let targetIndex = pending.findIndex(p => p.includes(currentRound));
+      if (targetIndex === -1) targetIndex = tasks.findIndex(t => !t.rounds[currentRound]);
       if (targetIndex === -1) targetIndex = 0; 
       startTaskLogic(targetIndex);
   };
@@ -241,7 +294,7 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
       setActiveTaskIndex(index);
       setSelectedTaskIndex(index); 
       setSelectedRoundIndex(currentRound);
-      setStartTime(videoRef.current.currentTime);
+      setStartTime(frameTime());
       setAccumulatedWalk(0);
       setIsWalking(false);
       setIsTiming(true);
@@ -250,7 +303,7 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
 
   const handleEndTask = () => {
       if (!isTiming || activeTaskIndex === -1 || !videoRef.current) return;
-      const endTime = videoRef.current.currentTime;
+      const endTime = frameTime();
       let finalWalk = accumulatedWalk;
       if (isWalking) finalWalk += (endTime - walkStart);
 
@@ -301,11 +354,66 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
       }
   };
 
+  // --- Rating ---
+  const updateRating = (idx: number, update: (task: WorkStudyTask) => WorkStudyTask) =>
+      setTasks(prev => prev.map((t, i) => i === idx ? applyRating(update(t)) : t));
+
+  const setWestinghouseGrade = (idx: number, factor: WestinghouseFactor, grade: string) =>
+      updateRating(idx, t => ({ ...t, ratingBreakdown: { ...t.ratingBreakdown!, westinghouse: { ...t.ratingBreakdown!.westinghouse!, [factor]: grade } } }));
+
+  const setSyntheticCodes = (idx: number, codes: string[]) =>
+      updateRating(idx, t => ({
+          ...t,
+          ratingBreakdown: { ...t.ratingBreakdown!, synthetic: { codes, pmtsTime: codes.reduce((acc, c) => acc + (MODAPTS_CODES.find(m => m.code === c)?.val || 0), 0) } }
+      }));
+
+  // --- Allowance ---
+  const applyAllowance = (breakdown: AllowanceBreakdown, scope: 'task' | 'all') => {
+      setTasks(prev => prev.map((t, i) => scope === 'all' || i === selectedTaskIndex ? withAllowance(t, breakdown) : t));
+      setAllowanceBuilderOpen(false);
+  };
+
+  const setRoundRating = (taskIdx: number, roundIdx: number, rating: number) =>
+      setTasks(prev => prev.map((t, i) => {
+          if (i !== taskIdx || !t.rounds[roundIdx]) return t;
+          const rounds = [...t.rounds];
+          rounds[roundIdx] = { ...rounds[roundIdx]!, rating };
+          return { ...t, rounds };
+      }));
+
+  // --- Logistics ---
+  // One event runs at a time: starting an action ends the running one at the same frame
+  const closeLogistics = (events: LogisticsEvent[], time: number) =>
+      events.map(e => e.endTime === undefined ? { ...e, endTime: time, duration: Math.max(0, time - e.startTime) } : e);
+
+  const startLogistics = (action: typeof LOGISTICS_ACTIONS[number]) => {
+      const time = frameTime();
+      setLogisticsEvents(prev => [
+          ...closeLogistics(prev, time),
+          { id: crypto.randomUUID(), name: action.name, category: action.category as LogisticsEvent['category'], startTime: time, duration: 0, color: action.color }
+      ]);
+  };
+
+  const stopLogistics = () => setLogisticsEvents(prev => closeLogistics(prev, frameTime()));
+
   // --- Task Management & Export ---
   const addTask = () => {
       setTasks([...tasks, { id: crypto.randomUUID(), name: `Element ${tasks.length + 1}`, rounds: [], activity: 'Operation', rating: 100, allowance: 10 }]);
       setSelectedTaskIndex(tasks.length); setSelectedRoundIndex(currentRound);
   };
+  // Replaces the task instead of editing it in place, so undo keeps the old values
+  const updateTask = (idx: number, patch: Partial<WorkStudyTask>) =>
+      setTasks(prev => prev.map((t, i) => i === idx ? { ...t, ...patch } : t));
+
+  const excludeRound = (taskIdx: number, roundIdx: number) => {
+      const reason = prompt("เหตุผลที่ตัดรอบนี้ออก (เช่น ทำชิ้นงานหล่น, ถูกขัดจังหวะ):");
+      if (!reason?.trim()) return;
+      setTasks(prev => prev.map((t, i) => i === taskIdx ? setRoundExcluded(t, roundIdx, reason.trim()) : t));
+  };
+
+  const includeRound = (taskIdx: number, roundIdx: number) =>
+      setTasks(prev => prev.map((t, i) => i === taskIdx ? setRoundExcluded(t, roundIdx, null) : t));
+
   const removeTask = (idx: number) => {
       if (confirm("ลบรายการนี้?")) setTasks(tasks.filter((_, i) => i !== idx));
       setSelectedTaskIndex(null);
@@ -451,7 +559,8 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
                             transform: `scale(${zoomLevel}) translate(${panPosition.x}px, ${panPosition.y}px)`,
                             transition: isPanning ? 'none' : 'transform 0.1s'
                         }}
-                        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                        onTimeUpdate={() => setCurrentTime(frameTime())}
+                        onSeeked={() => setCurrentTime(frameTime())}
                         onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
                         controls={false}
                     />
@@ -510,6 +619,9 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
 
                     <button onClick={() => stepFrame(1)} className="win-btn px-2 py-1" title="+1 Frame"><ChevronRight size={14}/></button>
                     <button onClick={() => stepFrame(5)} className="win-btn px-2 py-1" title="+5 Frames"><SkipForward size={14}/></button>
+                    <span className="ml-2 text-[10px] font-mono text-gray-500" title="Media frame rate (detected from presented frames)">
+                        {frameRate ? `${frameRate.toFixed(2)} fps` : `${DEFAULT_FPS} fps?`}
+                    </span>
                 </div>
                 
                 <div className="h-6 w-px bg-gray-300 mx-2"></div>
@@ -562,11 +674,11 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
              {/* Logistics Buttons (Same as before) */}
               <div className="flex justify-between items-center mb-1 px-1">
                  <h3 className="font-bold text-gray-700 text-xs">Logistics Actions</h3>
-                 {currentLogisticsEvent && <button onClick={() => {}} className="win-btn px-2 py-0.5 text-[10px] text-red-600 font-bold border-red-300 bg-red-50">STOP</button>}
+                 {currentLogisticsEvent && <button onClick={stopLogistics} className="win-btn px-2 py-0.5 text-[10px] text-red-600 font-bold border-red-300 bg-red-50">STOP</button>}
              </div>
              <div className="grid grid-cols-4 gap-1">
                  {LOGISTICS_ACTIONS.map((action, idx) => (
-                     <button key={idx} className="win-btn py-1.5 px-1 text-[10px] font-bold text-gray-700 flex flex-col items-center gap-1">
+                     <button key={idx} onClick={() => startLogistics(action)} className={`win-btn py-1.5 px-1 text-[10px] font-bold flex flex-col items-center gap-1 ${currentLogisticsEvent?.name === action.name ? `${action.color} text-white` : 'text-gray-700'}`}>
                          {action.icon}<span className="truncate w-full text-center">{action.name}</span>
                      </button>
                  ))}
@@ -600,8 +712,16 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
                         <button onClick={addTask} className="win-btn px-2 py-0.5 text-blue-700 font-bold" title="เพิ่มรายการ"><Plus size={14} /></button>
                         <div className="h-full w-px bg-gray-400 mx-1"></div>
                         <button onClick={() => currentRound > 0 && setCurrentRound(r => r-1)} className="win-btn px-1"><ChevronLeft size={14} /></button>
-                        <span className="text-xs font-bold self-center bg-white border border-gray-300 px-2 py-0.5 min-w-[30px] text-center">รอบที่ {currentRound + 1}</span>
+                        <span className="text-xs font-bold self-center bg-white border border-gray-300 px-2 py-0.5 min-w-[30px] text-center" title="Rounds required by the sample size target">รอบที่ {currentRound + 1}{requiredRounds > 0 && <span className="font-normal text-gray-500"> / {requiredRounds}</span>}</span>
                         <button onClick={() => setCurrentRound(r => r+1)} className="win-btn px-1"><ChevronRight size={14} /></button>
+                        <button onClick={() => nextPendingRound !== null && setCurrentRound(nextPendingRound)} disabled={nextPendingRound === null} className={`win-btn px-1 ${nextPendingRound !== null ? 'text-amber-700' : 'text-gray-400'}`} title={nextPendingRound !== null ? `ไปยังรอบที่ยังต้องจับ (Round ${nextPendingRound + 1})` : 'จำนวนรอบครบทุกงานแล้ว'}><Target size={14} /></button>
+                        <div className="h-full w-px bg-gray-400 mx-1"></div>
+                        <select className="bg-white text-xs border border-gray-400 px-1 py-0.5 outline-none" value={observationTarget.confidence} onChange={(e) => onObservationTargetChange({ ...observationTarget, confidence: Number(e.target.value) })} title="Confidence level">
+                            {Object.keys(CONFIDENCE_Z).map(c => <option key={c} value={c}>{c}%</option>)}
+                        </select>
+                        <select className="bg-white text-xs border border-gray-400 px-1 py-0.5 outline-none" value={observationTarget.accuracy} onChange={(e) => onObservationTargetChange({ ...observationTarget, accuracy: Number(e.target.value) })} title="Accuracy of the element mean">
+                            {ACCURACY_OPTIONS.map(a => <option key={a} value={a}>±{a}%</option>)}
+                        </select>
                     </>
                   )}
               </div>
@@ -623,8 +743,11 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
                               <th rowSpan={2} className="p-1 border-r border-gray-300 w-8 text-center font-normal bg-[#e1e1e1] border-b border-gray-300 align-middle">#</th>
                               <th rowSpan={2} className="p-1 border-r border-gray-300 font-normal bg-[#e1e1e1] border-b border-gray-300 align-middle">ชื่องาน (Element Name)</th>
                               <th colSpan={5} className="p-1 border-r border-gray-300 text-center font-bold bg-[#e1e1e1] border-b border-gray-300 h-8 align-middle">ประเภท</th>
-                              <th colSpan={Math.max(3, currentRound + 1)} className="p-1 border-r border-gray-300 text-center font-normal bg-[#e1e1e1] border-b border-gray-300 align-middle">เวลาที่จับได้ (Observed Time)</th>
-                              <th rowSpan={2} className="p-1 text-center w-12 font-bold bg-[#e1e1e1] border-b border-gray-300 align-middle">เฉลี่ย</th>
+                              <th colSpan={roundColumns} className="p-1 border-r border-gray-300 text-center font-normal bg-[#e1e1e1] border-b border-gray-300 align-middle">เวลาที่จับได้ (Observed Time)</th>
+                              <th rowSpan={2} className="p-1 border-r border-gray-300 text-center w-12 font-bold bg-[#e1e1e1] border-b border-gray-300 align-middle" title="Observed mean">เฉลี่ย</th>
+                              <th rowSpan={2} className="p-1 border-r border-gray-300 text-center w-12 font-bold bg-[#e1e1e1] border-b border-gray-300 align-middle" title="Normal time = observed × rating">NT</th>
+                              <th rowSpan={2} className="p-1 border-r border-gray-300 text-center w-12 font-bold bg-[#e1e1e1] border-b border-gray-300 align-middle" title="Standard time = normal × (1 + allowance)">ST</th>
+                              <th rowSpan={2} className="p-1 text-center w-14 font-bold bg-[#e1e1e1] border-b border-gray-300 align-middle" title={`Rounds counted / required for ${observationTarget.confidence}% confidence, ±${observationTarget.accuracy}% accuracy`}>n / n'</th>
                           </tr>
                           <tr>
                               {FLOW_SYMBOLS.map((sym) => (
@@ -635,8 +758,8 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
                                       </div>
                                   </th>
                               ))}
-                              {Array.from({length: Math.max(3, currentRound + 1)}).map((_, rIdx) => (
-                                  <th key={rIdx} className={`p-1 border-r border-gray-300 text-center min-w-[80px] font-normal border-b border-gray-300 align-middle ${rIdx === currentRound ? 'bg-blue-100 font-bold' : 'bg-[#f9f9f9]'}`}>รอบ {rIdx + 1}</th>
+                              {Array.from({length: roundColumns}).map((_, rIdx) => (
+                                  <th key={rIdx} className={`p-1 border-r border-gray-300 text-center min-w-[80px] font-normal border-b border-gray-300 align-middle ${rIdx === currentRound ? 'bg-blue-100 font-bold' : pending.some(p => p.includes(rIdx)) ? 'bg-amber-50' : 'bg-[#f9f9f9]'}`}>รอบ {rIdx + 1}</th>
                               ))}
                           </tr>
                       </thead>
@@ -644,8 +767,8 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
                           {tasks.map((task, idx) => {
                               const isActive = idx === activeTaskIndex;
                               const isSelected = idx === selectedTaskIndex;
-                              const validRounds = task.rounds.filter(r => r);
-                              const avg = validRounds.length ? (validRounds.reduce((acc, r) => acc + r!.total, 0) / validRounds.length) : 0;
+                              const time = elementTime(task);
+                              const check = checks[idx];
                               return (
                                   <tr 
                                     key={task.id} 
@@ -657,22 +780,26 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
                                           <div className="flex items-center gap-2">
                                               {task.thumbnail && <img src={task.thumbnail} className="w-6 h-4 object-cover border border-gray-300"/>}
                                               {task.name}
+                                              {pending[idx].length > 0 && <span className="ml-auto w-1.5 h-1.5 rounded-full bg-amber-500 shrink-0" title={`ต้องจับเพิ่มอีก ${missingRounds(checks[idx])} รอบ`}></span>}
                                           </div>
                                       </td>
                                       {FLOW_SYMBOLS.map((sym) => {
                                           const isActiveType = (task.activity || 'Operation') === sym.type;
                                           return (
-                                              <td key={sym.type} data-active={isActiveType} onClick={(e) => {e.stopPropagation(); setTasks(prev => { const n = [...prev]; n[idx].activity = sym.type; return n; })}} className="p-1 text-center border-r border-gray-200 align-middle hover:bg-gray-200">
+                                              <td key={sym.type} data-active={isActiveType} onClick={(e) => {e.stopPropagation(); updateTask(idx, { activity: sym.type }); }} className="p-1 text-center border-r border-gray-200 align-middle hover:bg-gray-200">
                                                   <div className={`w-6 h-6 mx-auto ${isActiveType ? 'text-blue-900 scale-110' : 'text-gray-300'}`}><svg viewBox="0 0 24 24" className="w-full h-full fill-none stroke-current stroke-2">{sym.path}</svg></div>
                                               </td>
                                           );
                                       })}
-                                      {Array.from({length: Math.max(3, currentRound + 1)}).map((_, rIdx) => {
+                                      {Array.from({length: roundColumns}).map((_, rIdx) => {
                                           const isRoundSelected = isSelected && selectedRoundIndex === rIdx;
                                           return (
                                               <td key={rIdx} className={`p-0 border-r border-gray-200 align-top relative ${isRoundSelected ? 'bg-blue-50 ring-2 ring-inset ring-blue-500 z-10' : ''}`} onClick={(e) => {e.stopPropagation(); setSelectedTaskIndex(idx); setSelectedRoundIndex(rIdx);}}>
                                                   {task.rounds[rIdx] ? (
-                                                      <div className="text-[10px] w-full flex flex-col gap-px py-1">
+                                                      <div
+                                                        className={`text-[10px] w-full flex flex-col gap-px py-1 ${task.rounds[rIdx]!.cycleId !== undefined && !task.rounds[rIdx]!.verified ? 'border-l-2 border-amber-400' : ''} ${task.rounds[rIdx]!.exclusion ? 'line-through opacity-50 bg-gray-100' : ''}`}
+                                                        title={task.rounds[rIdx]!.exclusion ? `Excluded (${task.rounds[rIdx]!.exclusion!.rule}): ${task.rounds[rIdx]!.exclusion!.reason}` : task.rounds[rIdx]!.cycleId !== undefined && !task.rounds[rIdx]!.verified ? 'Detected cycle not verified yet' : undefined}
+                                                      >
                                                           {/* Hand Time */}
                                                           <div className="flex justify-between px-1">
                                                               <span className="text-gray-400 text-[9px]">มือ</span>
@@ -695,24 +822,86 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
                                                               </div>
                                                           )}
 
+                                                          {task.ratingBreakdown?.method === 'perRound' && task.rounds[rIdx]!.rating !== undefined && (
+                                                              <div className="flex justify-between px-1">
+                                                                  <span className="text-purple-500 text-[9px]">Rating</span>
+                                                                  <span className="font-mono text-purple-700">{task.rounds[rIdx]!.rating}%</span>
+                                                              </div>
+                                                          )}
+
                                                           {/* Total Time */}
                                                           <div className="flex justify-between px-1 bg-gray-100 border-t border-gray-200 mt-0.5">
                                                               <span className="text-gray-900 font-bold text-[9px]">รวม</span>
                                                               <span className="font-mono font-bold text-black">{task.rounds[rIdx]!.total.toFixed(2)}</span>
                                                           </div>
                                                       </div>
+                                                  ) : pending[idx].includes(rIdx) ? (
+                                                      <div className="h-full min-h-[48px] text-center text-amber-500 bg-amber-50 flex items-center justify-center" title="ต้องจับเพิ่ม (Required round)">•</div>
                                                   ) : <div className="h-full min-h-[48px] text-center text-gray-300 flex items-center justify-center">-</div>}
                                               </td>
                                           );
                                       })}
-                                      <td className="p-1 text-center font-bold bg-[#f5f5f5] text-blue-700 align-middle">{avg > 0 ? avg.toFixed(1) : ''}</td>
+                                      <td className="p-1 text-center font-bold bg-[#f5f5f5] text-blue-700 align-middle border-r border-gray-200">{time.rounds > 0 ? time.observed.toFixed(2) : ''}</td>
+                                      <td className="p-1 text-center bg-[#f5f5f5] text-gray-700 align-middle border-r border-gray-200" title={`Rating ${task.rating}%${task.ratingBreakdown && task.ratingBreakdown.method !== 'direct' ? ` (${RATING_METHODS.find(m => m.id === task.ratingBreakdown!.method)?.label}) ${describeRating(task)}` : ''}`}>{time.rounds > 0 ? time.normal.toFixed(2) : ''}</td>
+                                      <td className="p-1 text-center font-bold bg-green-50 text-green-700 align-middle border-r border-gray-200" title={`Allowance ${task.allowance || 0}%${task.allowanceBreakdown ? ` = ${describeAllowance(task.allowanceBreakdown)}` : ''}`}>{time.rounds > 0 ? time.standard.toFixed(2) : ''}</td>
+                                      <td className={`p-1 text-center font-mono align-middle ${check.sufficient ? 'text-green-700' : 'bg-amber-50 text-amber-700 font-bold'}`} title={check.required === null ? 'ต้องมีอย่างน้อย 2 รอบเพื่อคำนวณ' : check.sufficient ? 'จำนวนรอบเพียงพอ' : `ต้องจับเพิ่มอีก ${check.required - check.observed} รอบ`}>
+                                          {check.observed} / {check.required ?? '-'}
+                                      </td>
                                   </tr>
                               );
                           })}
                       </tbody>
+                      {tasks.length > 0 && (() => {
+                          const total = cycleTime(tasks);
+                          return (
+                              <tfoot className="sticky bottom-0 z-30 bg-[#e1e1e1] font-bold text-gray-800 border-t-2 border-gray-400">
+                                  <tr>
+                                      <td colSpan={2 + FLOW_SYMBOLS.length} className="p-1 text-right border-r border-gray-300">รวมต่อรอบ (Cycle)</td>
+                                      {Array.from({length: roundColumns}).map((_, rIdx) => {
+                                          const round = roundCycleTime(tasks, rIdx);
+                                          return (
+                                              <td key={rIdx} className="p-1 text-center font-mono border-r border-gray-300" title={round ? `NT ${round.normal.toFixed(2)}s · ST ${round.standard.toFixed(2)}s` : undefined}>
+                                                  {round ? round.observed.toFixed(2) : '-'}
+                                              </td>
+                                          );
+                                      })}
+                                      <td className="p-1 text-center text-blue-700 border-r border-gray-300">{total.observed.toFixed(2)}</td>
+                                      <td className="p-1 text-center border-r border-gray-300">{total.normal.toFixed(2)}</td>
+                                      <td className="p-1 text-center text-green-700 bg-green-100 border-r border-gray-300">{total.standard.toFixed(2)}</td>
+                                      <td className="p-1 text-center font-mono">{checks.filter(c => c.sufficient).length}/{tasks.length}</td>
+                                  </tr>
+                              </tfoot>
+                          );
+                      })()}
                   </table>
              ) : (
-                 <div className="p-2 text-center text-gray-500">Logistics Data View</div>
+                 <table className="w-full text-xs text-left border-collapse">
+                     <thead className="bg-[#f0f0f0] text-gray-700 sticky top-0 shadow-sm border-b border-gray-300">
+                         <tr>
+                             <th className="p-1 border-r border-gray-300 w-8 text-center font-normal">#</th>
+                             <th className="p-1 border-r border-gray-300 font-normal">กิจกรรม (Action)</th>
+                             <th className="p-1 border-r border-gray-300 font-normal text-center w-16">ประเภท</th>
+                             <th className="p-1 border-r border-gray-300 font-normal text-right w-20">เริ่ม (s)</th>
+                             <th className="p-1 border-r border-gray-300 font-normal text-right w-20">เวลา (s)</th>
+                             <th className="p-1 w-8"></th>
+                         </tr>
+                     </thead>
+                     <tbody>
+                         {logisticsEvents.length === 0 && (
+                             <tr><td colSpan={6} className="p-4 text-center text-gray-400">กดปุ่ม Logistics Actions ระหว่างเล่นวิดีโอเพื่อบันทึกกิจกรรม</td></tr>
+                         )}
+                         {logisticsEvents.map((e, i) => (
+                             <tr key={e.id} className="border-b border-gray-100 hover:bg-[#e5f3ff] cursor-pointer" onClick={() => seekTo(e.startTime)}>
+                                 <td className="p-1 text-center text-gray-500 border-r border-gray-200">{i + 1}</td>
+                                 <td className="p-1 border-r border-gray-200 font-bold text-gray-700">{e.name}</td>
+                                 <td className={`p-1 border-r border-gray-200 text-center font-bold ${e.category === 'VA' ? 'text-green-700' : e.category === 'NVA' ? 'text-red-600' : 'text-yellow-700'}`}>{e.category}</td>
+                                 <td className="p-1 border-r border-gray-200 text-right font-mono">{e.startTime.toFixed(2)}</td>
+                                 <td className="p-1 border-r border-gray-200 text-right font-mono">{e.endTime === undefined ? <span className="text-red-600 animate-pulse">REC</span> : e.duration.toFixed(2)}</td>
+                                 <td className="p-1 text-center"><button onClick={(ev) => { ev.stopPropagation(); setLogisticsEvents(prev => prev.filter(x => x.id !== e.id)); }} className="text-gray-400 hover:text-red-600"><Trash2 size={12}/></button></td>
+                             </tr>
+                         ))}
+                     </tbody>
+                 </table>
              )}
           </div>
       </div>
@@ -751,6 +940,26 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
                                <span className="text-xs font-bold text-gray-700">เวลารวม (Total)</span>
                                <span className="text-sm font-bold font-mono text-black bg-white px-2 border border-gray-300 rounded">{(tasks[selectedTaskIndex].rounds[selectedRoundIndex]?.total || 0).toFixed(2)}s</span>
                            </div>
+                           {tasks[selectedTaskIndex].ratingBreakdown?.method === 'perRound' && tasks[selectedTaskIndex].rounds[selectedRoundIndex] && (
+                               <div className="mt-2 flex justify-between items-center">
+                                   <label className="text-xs font-bold text-purple-700">Rating % (รอบนี้)</label>
+                                   <input type="number" className={`w-14 win-inset px-1 text-right text-xs ${isValidRating(tasks[selectedTaskIndex].rounds[selectedRoundIndex]!.rating ?? tasks[selectedTaskIndex].rating) ? '' : 'text-red-600 bg-red-50'}`} value={tasks[selectedTaskIndex].rounds[selectedRoundIndex]!.rating ?? tasks[selectedTaskIndex].rating} onChange={(e) => { const v = parseFloat(e.target.value); if (Number.isFinite(v)) setRoundRating(selectedTaskIndex, selectedRoundIndex, v); }}/>
+                               </div>
+                           )}
+                           {tasks[selectedTaskIndex].rounds[selectedRoundIndex] && (() => {
+                               const exclusion = tasks[selectedTaskIndex].rounds[selectedRoundIndex]!.exclusion;
+                               return exclusion ? (
+                                   <div className="mt-2 p-1 bg-white border border-gray-300 rounded text-[10px]">
+                                       <div className="font-bold text-red-600">ไม่นำมาคิดเวลา ({exclusion.rule === 'manual' ? 'ตัดเอง' : OUTLIER_RULES.find(r => r.id === exclusion.rule)?.label})</div>
+                                       <div className="text-gray-600 break-words">{exclusion.reason}</div>
+                                       {exclusion.rule === 'manual' && (
+                                           <button onClick={() => includeRound(selectedTaskIndex, selectedRoundIndex)} className="win-btn w-full mt-1 py-0.5 text-[10px]">นำกลับมาคิดเวลา (Include)</button>
+                                       )}
+                                   </div>
+                               ) : (
+                                   <button onClick={() => excludeRound(selectedTaskIndex, selectedRoundIndex)} className="win-btn w-full mt-2 py-0.5 text-[10px] text-red-600 border-red-300">ตัดรอบนี้ออก (Exclude)...</button>
+                               );
+                           })()}
                        </div>
                    )}
 
@@ -779,21 +988,86 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
                    {/* GENERAL INFO */}
                    <fieldset className="border border-gray-300 p-2 bg-white rounded-sm">
                        <legend className="text-[10px] text-gray-500 font-bold px-1">รายละเอียดงาน</legend>
-                       <input className="w-full win-inset px-1 py-1 text-xs mb-2 font-bold" value={tasks[selectedTaskIndex].name} onChange={(e) => {const n=[...tasks]; n[selectedTaskIndex].name=e.target.value; setTasks(n)}} placeholder="Task Name"/>
-                       <textarea className="w-full win-inset px-1 py-1 text-xs h-16 resize-none" value={tasks[selectedTaskIndex].description || ''} onChange={(e) => {const n=[...tasks]; n[selectedTaskIndex].description=e.target.value; setTasks(n)}} placeholder="Description..."/>
+                       <input className="w-full win-inset px-1 py-1 text-xs mb-2 font-bold" value={tasks[selectedTaskIndex].name} onChange={(e) => updateTask(selectedTaskIndex, { name: e.target.value })} placeholder="Task Name"/>
+                       <textarea className="w-full win-inset px-1 py-1 text-xs h-16 resize-none" value={tasks[selectedTaskIndex].description || ''} onChange={(e) => updateTask(selectedTaskIndex, { description: e.target.value })} placeholder="Description..."/>
                    </fieldset>
 
                    {/* CALCULATIONS */}
                    <fieldset className="border border-gray-300 p-2 bg-white rounded-sm">
                        <legend className="text-[10px] text-gray-500 font-bold px-1">ปรับแก้เวลา</legend>
                        <div className="flex items-center justify-between mb-1">
-                           <label className="text-xs">Rating %</label>
-                           <input type="number" className="w-12 win-inset px-1 text-right text-xs" value={tasks[selectedTaskIndex].rating || 100} onChange={(e) => {const n=[...tasks]; n[selectedTaskIndex].rating=parseInt(e.target.value); setTasks(n)}}/>
+                           <label className="text-xs">Outlier Rule</label>
+                           <select className="win-inset px-1 text-xs" value={tasks[selectedTaskIndex].outlierRule || 'none'} onChange={(e) => setTasks(prev => prev.map((t, i) => i === selectedTaskIndex ? flagOutliers({ ...t, outlierRule: e.target.value as OutlierRule }) : t))}>
+                               {OUTLIER_RULES.map(r => <option key={r.id} value={r.id}>{r.label}{r.minRounds ? ` (≥${r.minRounds} รอบ)` : ''}</option>)}
+                           </select>
+                       </div>
+                       <div className="flex items-center justify-between mb-1">
+                           <label className="text-xs">Rating Method</label>
+                           <select className="win-inset px-1 text-xs" value={tasks[selectedTaskIndex].ratingBreakdown?.method || 'direct'} onChange={(e) => updateRating(selectedTaskIndex, t => setRatingMethod(t, e.target.value as RatingMethod))}>
+                               {RATING_METHODS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                           </select>
+                       </div>
+                       {(() => {
+                           const task = tasks[selectedTaskIndex];
+                           const breakdown = task.ratingBreakdown;
+                           if (breakdown?.method === 'westinghouse' && breakdown.westinghouse) return (
+                               <div className="mb-1 pl-2 border-l-2 border-purple-200 space-y-0.5">
+                                   {WESTINGHOUSE_FACTORS.map(f => (
+                                       <div key={f} className="flex items-center justify-between">
+                                           <label className="text-[10px] text-gray-600">{WESTINGHOUSE[f].label}</label>
+                                           <select className="win-inset px-1 text-[10px]" value={breakdown.westinghouse![f]} onChange={(e) => setWestinghouseGrade(selectedTaskIndex, f, e.target.value)}>
+                                               {WESTINGHOUSE[f].grades.map(g => <option key={g.grade} value={g.grade}>{g.grade} {g.label} ({g.value >= 0 ? '+' : ''}{g.value.toFixed(2)})</option>)}
+                                           </select>
+                                       </div>
+                                   ))}
+                               </div>
+                           );
+                           if (breakdown?.method === 'synthetic' && breakdown.synthetic) return (
+                               <div className="mb-1 pl-2 border-l-2 border-purple-200 space-y-1">
+                                   <div className="flex flex-wrap gap-0.5">
+                                       {breakdown.synthetic.codes.map((code, ci) => (
+                                           <button key={ci} onClick={() => setSyntheticCodes(selectedTaskIndex, breakdown.synthetic!.codes.filter((_, j) => j !== ci))} className="px-1 text-[10px] font-mono bg-purple-100 text-purple-800 border border-purple-200 rounded hover:line-through" title="Remove">{code}</button>
+                                       ))}
+                                       <select className="win-inset px-1 text-[10px]" value="" onChange={(e) => e.target.value && setSyntheticCodes(selectedTaskIndex, [...breakdown.synthetic!.codes, e.target.value])}>
+                                           <option value="">+ MODAPTS</option>
+                                           {MODAPTS_CODES.map(m => <option key={m.code} value={m.code}>{m.code} ({m.val.toFixed(3)}s)</option>)}
+                                       </select>
+                                   </div>
+                                   <div className="flex justify-between text-[10px] font-mono"><span className="font-sans text-gray-500">PMTS / Observed</span><span>{breakdown.synthetic.pmtsTime.toFixed(3)}s / {elementTime(task).observed.toFixed(3)}s</span></div>
+                               </div>
+                           );
+                           return null;
+                       })()}
+                       <div className="flex items-center justify-between mb-1">
+                           <label className="text-xs">{tasks[selectedTaskIndex].ratingBreakdown?.method === 'perRound' ? 'Rating % (ค่าเริ่มต้น)' : 'Rating %'}</label>
+                           {['westinghouse', 'synthetic'].includes(tasks[selectedTaskIndex].ratingBreakdown?.method || 'direct') ? (
+                               <span className="w-12 px-1 text-right text-xs font-bold text-purple-700">{tasks[selectedTaskIndex].rating}</span>
+                           ) : (
+                               <input type="number" className={`w-12 win-inset px-1 text-right text-xs ${isValidRating(tasks[selectedTaskIndex].rating) ? '' : 'text-red-600 bg-red-50'}`} value={tasks[selectedTaskIndex].rating} onChange={(e) => { const v = parseFloat(e.target.value); if (Number.isFinite(v)) updateTask(selectedTaskIndex, { rating: v }); }}/>
+                           )}
                        </div>
                        <div className="flex items-center justify-between">
                            <label className="text-xs">Allowance %</label>
-                           <input type="number" className="w-12 win-inset px-1 text-right text-xs" value={tasks[selectedTaskIndex].allowance || 0} onChange={(e) => {const n=[...tasks]; n[selectedTaskIndex].allowance=parseInt(e.target.value); setTasks(n)}}/>
+                           <div className="flex items-center gap-1">
+                               <button onClick={() => setAllowanceBuilderOpen(true)} className={`win-btn px-1 ${tasks[selectedTaskIndex].allowanceBreakdown ? 'text-blue-700' : ''}`} title="Allowance Builder (PFD / ILO)"><SlidersHorizontal size={12}/></button>
+                               {/* Typing a value replaces the built allowance */}
+                               <input type="number" className="w-12 win-inset px-1 text-right text-xs" value={tasks[selectedTaskIndex].allowance || 0} onChange={(e) => updateTask(selectedTaskIndex, { allowance: parseInt(e.target.value), allowanceBreakdown: undefined })}/>
+                           </div>
                        </div>
+                       {tasks[selectedTaskIndex].allowanceBreakdown && (
+                           <div className="text-[9px] text-gray-500 text-right mb-1">{describeAllowance(tasks[selectedTaskIndex].allowanceBreakdown!)}</div>
+                       )}
+                       {(() => {
+                           const t = elementTime(tasks[selectedTaskIndex]);
+                           return (
+                               <div className="mt-2 pt-1 border-t border-gray-200 text-xs space-y-0.5 font-mono">
+                                   <div className="flex justify-between"><span className="font-sans text-gray-500">Observed ({t.rounds} รอบ)</span><span>{t.observed.toFixed(2)}s</span></div>
+                                   <div className="flex justify-between"><span className="font-sans text-gray-500">Normal Time</span><span>{t.normal.toFixed(2)}s</span></div>
+                                   <div className="flex justify-between font-bold text-green-700"><span className="font-sans">Standard Time</span><span>{t.standard.toFixed(2)}s</span></div>
+                                   <div className={`flex justify-between ${checks[selectedTaskIndex].sufficient ? 'text-gray-500' : 'text-amber-700 font-bold'}`}><span className="font-sans">Required ({observationTarget.confidence}%, ±{observationTarget.accuracy}%)</span><span>{checks[selectedTaskIndex].required ?? '-'} รอบ</span></div>
+                               </div>
+                           );
+                       })()}
                    </fieldset>
 
                    <button onClick={() => removeTask(selectedTaskIndex!)} className="win-btn w-full py-1 text-xs text-red-600 border-red-300 hover:bg-red-50 flex items-center justify-center gap-1 mt-2">
@@ -860,6 +1134,15 @@ const WorkStudy: React.FC<Props> = ({ videoSrc, tasks, setTasks }) => {
           outline: none;
         }
       `}</style>
+
+      {allowanceBuilderOpen && selectedTaskIndex !== null && tasks[selectedTaskIndex] && (
+          <AllowanceBuilder
+            taskName={tasks[selectedTaskIndex].name}
+            initial={tasks[selectedTaskIndex].allowanceBreakdown}
+            onApply={applyAllowance}
+            onClose={() => setAllowanceBuilderOpen(false)}
+          />
+      )}
     </div>
   );
 };
@@ -1,5 +1,4 @@
-
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   BarChart,
   Bar,
@@ -12,12 +11,20 @@ import {
   Cell,
   Legend
 } from 'recharts';
-import { Timer, TrendingUp, AlertOctagon, Activity } from 'lucide-react';
-import { Cycle } from '../types';
+import { Timer, TrendingUp, TrendingDown, AlertOctagon, Activity, Layers, Users, Plus, Trash2, X, Edit3, Bookmark } from 'lucide-react';
+import { ActivityType, Cycle, LineConfig, LineStation, WorkStudyTask, YamazumiBaseline, YamazumiStation } from '../types';
+import { valueSplit } from '../utils/actionTimeline';
+import { compareStations, createBaseline, defaultLine, lineToYamazumi, stationCycleTime, stationFromTasks, stationWorkContent, workContentReduction } from '../utils/yamazumi';
 
 interface Props {
   cycles: Cycle[];
   taktTime: number;
+  tasks?: WorkStudyTask[];     // Work Study elements for the element and line views
+  stationName?: string;
+  line?: LineConfig | null;    // Station layout for the line view; one station when unset
+  onLineChange?: (line: LineConfig) => void;
+  baselines?: YamazumiBaseline[];  // Saved line states to compare the current line against
+  onBaselinesChange?: (baselines: YamazumiBaseline[]) => void;
   onCycleClick?: (timestamp: number) => void;
 }
 
@@ -27,12 +34,26 @@ const COLORS = {
   NNVA: '#FBBF24', // Amber 400 - Necessary Non-Value
   WASTE: '#F43F5E',// Rose 500 - Waste
   ABNORMAL: '#A855F7', // Purple 500 - Abnormal/Break
+  UNCLASSIFIED: '#94A3B8', // Slate 400 - Cycle time without pose data
   TAKT: '#BE123C', // Rose 700 - Takt Line
+  TARGET: '#D97706', // Amber 600 - Target cycle line (takt × planned efficiency)
+  BASELINE: '#475569', // Slate 600 - Baseline outline in overlay mode
+  BETTER: '#059669',
+  WORSE: '#E11D48',
   BG: '#FFFFFF',
   GRID: '#E5E7EB',
   TEXT: '#6B7280'
 };
 
+// Element colors by flow-process activity (same symbols as the Work Study table)
+const ACTIVITY_COLORS: Record<ActivityType, string> = {
+  Operation: '#10B981',
+  Transport: '#3B82F6',
+  Inspection: '#8B5CF6',
+  Delay: '#F43F5E',
+  Hold: '#F59E0B'
+};
+
 const KPICard = ({ title, value, unit, icon: Icon, colorClass }: any) => (
   <div className="bg-white p-3 rounded-lg shadow-sm border border-gray-200 flex items-center justify-between">
     <div>
@@ -50,33 +71,47 @@ const KPICard = ({ title, value, unit, icon: Icon, colorClass }: any) => (
 
 const CustomTooltip = ({ active, payload, label, taktTime }: any) => {
   if (active && payload && payload.length) {
-    const total = payload.reduce((acc: number, p: any) => acc + (p.value || 0), 0);
+    const row = payload[0].payload;
+    const total = row.total;
     const isOver = total > taktTime;
-    const isAbnormal = payload.some((p: any) => p.dataKey === 'abnormal' && p.value > 0);
-    
+    const isAbnormal = row.abnormal > 0;
+
     return (
       <div className="bg-white border border-gray-200 shadow-xl rounded-lg p-3 z-50">
         <div className="flex justify-between items-center mb-2 border-b border-gray-100 pb-1">
-          <span className="font-bold text-gray-700 text-xs">รอบที่ {label}</span>
-          <span className="font-mono text-xs text-gray-500">{payload[0].payload.timestamp.toFixed(1)}s</span>
+          <span className="font-bold text-gray-700 text-xs">รอบที่ {label} <span className="font-normal text-[10px] text-gray-400">{row.measured ? '(Pose)' : '(ไม่มีข้อมูลท่าทาง)'}</span></span>
+          <span className="font-mono text-xs text-gray-500">{row.timestamp.toFixed(1)}s</span>
         </div>
-        
+
         {isAbnormal ? (
              <div className="text-xs text-purple-600 font-bold mb-2">Abnormal / Idle Time</div>
-        ) : (
+        ) : row.measured ? (
             <div className="space-y-1 text-xs mb-2">
             <div className="flex justify-between gap-4">
                 <span className="text-emerald-600 font-medium">เพิ่มมูลค่า (VA):</span>
-                <span className="font-mono font-bold">{payload[0]?.value.toFixed(2)}s</span>
+                <span className="font-mono font-bold">{row.va.toFixed(2)}s</span>
             </div>
             <div className="flex justify-between gap-4">
                 <span className="text-amber-500 font-medium">จำเป็น (NNVA):</span>
-                <span className="font-mono font-bold">{payload[1]?.value.toFixed(2)}s</span>
+                <span className="font-mono font-bold">{row.nnva.toFixed(2)}s</span>
             </div>
             <div className="flex justify-between gap-4">
                 <span className="text-rose-500 font-medium">ความสูญเปล่า (Waste):</span>
-                <span className="font-mono font-bold">{payload[2]?.value.toFixed(2)}s</span>
+                <span className="font-mono font-bold">{row.waste.toFixed(2)}s</span>
+            </div>
             </div>
+        ) : (
+            <div className="space-y-1 text-xs mb-2">
+            <div className="flex justify-between gap-4">
+                <span className="text-slate-500 font-medium">เวลารอบ (ไม่แยกประเภท):</span>
+                <span className="font-mono font-bold">{row.unclassified.toFixed(2)}s</span>
+            </div>
+            {row.waste > 0 && (
+                <div className="flex justify-between gap-4">
+                    <span className="text-rose-500 font-medium">เกิน Takt:</span>
+                    <span className="font-mono font-bold">{row.waste.toFixed(2)}s</span>
+                </div>
+            )}
             </div>
         )}
 
@@ -92,94 +127,345 @@ const CustomTooltip = ({ active, payload, label, taktTime }: any) => {
   return null;
 };
 
-const YamazumiChart: React.FC<Props> = ({ cycles, taktTime, onCycleClick }) => {
-  // Transformation Logic: Simulate VA/NNVA breakdown if not provided by backend
+const ElementTooltip = ({ active, payload, stations, taktTime }: any) => {
+  if (!active || !payload || payload.length === 0) return null;
+  const station = stations[payload[0].payload.index];
+  if (!station) return null;
+  const total = stationCycleTime(station);
+  return (
+    <div className="bg-white border border-gray-200 shadow-xl rounded-lg p-3 z-50 text-xs">
+      <div className="font-bold text-gray-700 mb-2 border-b border-gray-100 pb-1 flex justify-between gap-4">
+        <span>{station.name}</span>
+        <span className="font-normal text-gray-500 flex items-center gap-1"><Users size={10}/> {station.operators} คน</span>
+      </div>
+      <div className="space-y-0.5 mb-2">
+        {[...station.elements].reverse().map((e: any) => (
+          <div key={e.id} className="flex justify-between gap-4">
+            <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-sm" style={{ background: ACTIVITY_COLORS[e.activity as ActivityType] }}></span>{e.name}</span>
+            <span className="font-mono">{e.time.toFixed(2)}s</span>
+          </div>
+        ))}
+      </div>
+      {station.operators > 1 && (
+        <div className="flex justify-between text-gray-500">
+          <span>Work Content:</span>
+          <span className="font-mono">{stationWorkContent(station).toFixed(2)}s ÷ {station.operators}</span>
+        </div>
+      )}
+      <div className="pt-2 border-t border-gray-100 flex justify-between items-center">
+        <span className="font-bold text-gray-600">{station.operators > 1 ? 'Cycle / Operator:' : 'Standard Time:'}</span>
+        <span className={`text-sm font-mono font-bold ${total > taktTime ? 'text-rose-600' : 'text-emerald-600'}`}>{total.toFixed(2)}s</span>
+      </div>
+    </div>
+  );
+};
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${delta.toFixed(1)}s`;
+
+const CompareTooltip = ({ active, payload, deltas, baselineName }: any) => {
+  if (!active || !payload || payload.length === 0) return null;
+  const d = deltas[payload[0].payload.index];
+  if (!d) return null;
+  return (
+    <div className="bg-white border border-gray-200 shadow-xl rounded-lg p-3 z-50 text-xs">
+      <div className="font-bold text-gray-700 mb-2 border-b border-gray-100 pb-1">{d.name}</div>
+      <div className="space-y-0.5">
+        <div className="flex justify-between gap-4 text-gray-500">
+          <span>{baselineName}:</span>
+          <span className="font-mono">{d.before ? `${d.beforeTime.toFixed(2)}s · ${d.before.operators} คน` : 'ไม่มีสถานีนี้'}</span>
+        </div>
+        <div className="flex justify-between gap-4 text-gray-700">
+          <span>ปัจจุบัน:</span>
+          <span className="font-mono">{d.after ? `${d.afterTime.toFixed(2)}s · ${d.after.operators} คน` : 'ยกเลิกสถานีแล้ว'}</span>
+        </div>
+      </div>
+      <div className="pt-2 mt-2 border-t border-gray-100 flex justify-between items-center">
+        <span className="font-bold text-gray-600">ส่วนต่าง:</span>
+        <span className={`text-sm font-mono font-bold ${d.delta < 0 ? 'text-emerald-600' : d.delta > 0 ? 'text-rose-600' : 'text-gray-500'}`}>{formatDelta(d.delta)}</span>
+      </div>
+    </div>
+  );
+};
+
+// Station label with its cycle time change under it
+const DeltaTick = ({ x, y, index, payload, deltas }: any) => {
+  const d = deltas[index];
+  return (
+    <g transform={`translate(${x},${y})`}>
+      <text dy={10} textAnchor="middle" fontSize={10} fill={COLORS.TEXT}>{payload.value}</text>
+      {d && (
+        <text dy={22} textAnchor="middle" fontSize={10} fontWeight="bold" fill={d.delta < 0 ? COLORS.BETTER : d.delta > 0 ? COLORS.WORSE : COLORS.TEXT}>
+          {formatDelta(d.delta)}
+        </text>
+      )}
+    </g>
+  );
+};
+
+const YamazumiChart: React.FC<Props> = ({ cycles, taktTime, tasks, stationName, line, onLineChange, baselines, onBaselinesChange, onCycleClick }) => {
+  const [view, setView] = useState<'cycles' | 'elements' | 'line'>('cycles');
+  const [isEditingLine, setIsEditingLine] = useState(false);
+  const [compareId, setCompareId] = useState(''); // Baseline shown next to the line view; '' = none
+  const [compareMode, setCompareMode] = useState<'side' | 'overlay'>('side');
+
+  // Transformation Logic: VA/NNVA/NVA from the pose action timeline. Cycles without
+  // one are shown unsplit; only the part over takt is marked.
   const chartData = useMemo(() => {
     return cycles.map((cycle, idx) => {
-      // Logic: Anything over Takt is Waste. The rest is split 80/20 VA/NNVA for visualization
-      
+      const base = { name: `${idx + 1}`, va: 0, nnva: 0, waste: 0, unclassified: 0, abnormal: 0, total: cycle.duration, timestamp: cycle.startTime, status: cycle.status, measured: false };
+
       if (cycle.status === 'abnormal') {
-          return {
-              name: `${idx + 1}`,
-              va: 0,
-              nnva: 0,
-              waste: 0,
-              abnormal: cycle.duration,
-              total: cycle.duration,
-              timestamp: cycle.startTime,
-              status: cycle.status
-          };
+          return { ...base, abnormal: cycle.duration };
       }
 
-      let waste = 0;
-      let usefulTime = cycle.duration;
-
-      if (cycle.duration > taktTime) {
-        waste = cycle.duration - taktTime;
-        usefulTime = taktTime;
-      } else {
-        // Even under takt, assume small waste/NNVA variance
-        waste = cycle.duration * 0.05; 
-        usefulTime = cycle.duration - waste;
+      if (cycle.actionTime) {
+          // Time without pose samples is spread over the measured shares
+          const split = valueSplit(cycle.actionTime);
+          const covered = split.va + split.nnva + split.nva;
+          if (covered > 0) {
+              const scale = cycle.duration / covered;
+              return {
+                  ...base,
+                  va: parseFloat((split.va * scale).toFixed(2)),
+                  nnva: parseFloat((split.nnva * scale).toFixed(2)),
+                  waste: parseFloat((split.nva * scale).toFixed(2)),
+                  measured: true
+              };
+          }
       }
 
-      const nnva = usefulTime * 0.25; // Assume 25% represents setups/walks
-      const va = usefulTime * 0.75;   // Assume 75% is actual work
-
+      const overTakt = Math.max(0, cycle.duration - taktTime);
       return {
-        name: `${idx + 1}`,
-        va: parseFloat(va.toFixed(2)),
-        nnva: parseFloat(nnva.toFixed(2)),
-        waste: parseFloat(waste.toFixed(2)),
-        abnormal: 0,
-        total: cycle.duration,
-        timestamp: cycle.startTime,
-        status: cycle.status
+        ...base,
+        unclassified: parseFloat((cycle.duration - overTakt).toFixed(2)),
+        waste: parseFloat(overTakt.toFixed(2))
       };
     });
   }, [cycles, taktTime]);
 
+  // --- ELEMENT & LINE VIEWS: Work Study elements at standard time, one bar per station ---
+  const effectiveLine = useMemo(() => line || (tasks ? defaultLine(tasks) : null), [line, tasks]);
+  const stations = useMemo(() => {
+      if (!tasks) return [];
+      if (view === 'line' && effectiveLine) return lineToYamazumi(effectiveLine, tasks);
+      return [stationFromTasks('study', stationName || 'Station 1', tasks)];
+  }, [view, effectiveLine, tasks, stationName]);
+
+  // --- BEFORE/AFTER: current line against a saved baseline ---
+  const baseline = view === 'line' ? baselines?.find(b => b.id === compareId) || null : null;
+  const deltas = useMemo(() => baseline ? compareStations(baseline.stations, stations) : null, [baseline, stations]);
+  const reduction = baseline ? workContentReduction(baseline.stations, stations) : null;
+  // One chart row per station; in comparison mode stations removed since the baseline get a row too
+  const rows = useMemo(() => deltas
+      ? deltas.map(d => ({ after: d.after, before: d.before }))
+      : stations.map(s => ({ after: s as YamazumiStation | null, before: null as YamazumiStation | null })), [deltas, stations]);
+  const maxElements = Math.max(0, ...rows.map(r => r.after?.elements.length || 0));
+  const maxBaseElements = Math.max(0, ...rows.map(r => r.before?.elements.length || 0));
+
+  // Segments are per operator so the bar height is the station cycle time
+  const perOperator = (time: number, station: YamazumiStation) => parseFloat((time / Math.max(1, station.operators)).toFixed(2));
+  const elementData = useMemo(() => rows.map(({ after, before }, index) => {
+      const station = (after || before)!;
+      const row: Record<string, any> = { name: view === 'line' ? `${station.name} (${after ? `${after.operators}คน` : 'ยกเลิก'})` : station.name, index };
+      after?.elements.forEach((e, i) => { row[`e${i}`] = perOperator(e.time, after); });
+      if (before) {
+          before.elements.forEach((e, i) => { row[`b${i}`] = perOperator(e.time, before); });
+          row.baseTotal = parseFloat(stationCycleTime(before).toFixed(2));
+      }
+      return row;
+  }), [rows, view]);
+
   // KPI Calculations
   const kpis = useMemo(() => {
     if (cycles.length === 0) return { avg: 0, efficiency: 0, total: 0 };
-    
+
     // Filter out abnormal cycles for Average calc to not skew data
     const validCycles = cycles.filter(c => c.status !== 'abnormal');
     const avg = validCycles.length > 0 ? validCycles.reduce((acc, c) => acc + c.duration, 0) / validCycles.length : 0;
-    
+
     const overCycleCount = validCycles.filter(c => c.duration > taktTime).length;
     const efficiency = validCycles.length > 0 ? ((validCycles.length - overCycleCount) / validCycles.length) * 100 : 0;
-    
+
     return { avg, efficiency, total: cycles.length };
   }, [cycles, taktTime]);
 
+  const workContent = stations.reduce((acc, s) => acc + stationWorkContent(s), 0);
+  const elementCount = stations.reduce((acc, s) => acc + s.elements.length, 0);
+  const taktLoad = taktTime > 0 ? (workContent / taktTime) * 100 : 0;
+  const plannedEfficiency = effectiveLine?.plannedEfficiency ?? 100;
+  const targetCycle = taktTime * plannedEfficiency / 100;
+  const operatorCount = stations.reduce((acc, s) => acc + Math.max(1, s.operators), 0);
+  const lineEfficiency = operatorCount > 0 && taktTime > 0 ? (workContent / (operatorCount * taktTime)) * 100 : 0;
+  const bottleneck = Math.max(0, ...stations.map(stationCycleTime));
+  const assignedIds = new Set(effectiveLine?.stations.flatMap(s => s.taskIds) || []);
+  const unassignedCount = tasks ? tasks.filter(t => !assignedIds.has(t.id)).length : 0;
+
+  // --- LINE EDITING ---
+  const updateLine = (changes: Partial<LineConfig>) => {
+      if (effectiveLine && onLineChange) onLineChange({ ...effectiveLine, ...changes });
+  };
+  const updateStation = (id: string, changes: Partial<LineStation>) => {
+      if (!effectiveLine) return;
+      updateLine({ stations: effectiveLine.stations.map(s => s.id === id ? { ...s, ...changes } : s) });
+  };
+  const addStation = () => {
+      if (!effectiveLine) return;
+      updateLine({ stations: [...effectiveLine.stations, { id: crypto.randomUUID(), name: `Station ${effectiveLine.stations.length + 1}`, operators: 1, taskIds: [] }] });
+  };
+  const removeStation = (id: string) => {
+      if (!effectiveLine || effectiveLine.stations.length <= 1) return;
+      updateLine({ stations: effectiveLine.stations.filter(s => s.id !== id) }); // Its elements become unassigned
+  };
+  // Moves an element to a station ('' = unassigned), keeping Work Study order inside the station
+  const assignTask = (taskId: string, stationId: string) => {
+      if (!effectiveLine || !tasks) return;
+      const order = new Map(tasks.map((t, i) => [t.id, i]));
+      updateLine({
+          stations: effectiveLine.stations.map(s => {
+              const ids = s.taskIds.filter(id => id !== taskId);
+              if (s.id === stationId) ids.push(taskId);
+              return { ...s, taskIds: ids.sort((a, b) => (order.get(a) ?? 0) - (order.get(b) ?? 0)) };
+          })
+      });
+  };
+  const stationOfTask = (taskId: string) => effectiveLine?.stations.find(s => s.taskIds.includes(taskId))?.id || '';
+
+  // --- BASELINES ---
+  const saveBaseline = () => {
+      if (!onBaselinesChange) return;
+      const name = prompt('ตั้งชื่อ Baseline (เช่น ก่อน Kaizen)', `Baseline ${new Date().toLocaleDateString()}`);
+      if (!name) return;
+      const snapshot = createBaseline(name, stations, taktTime);
+      onBaselinesChange([...(baselines || []), snapshot]);
+      setCompareId(snapshot.id);
+  };
+  const deleteBaseline = (id: string) => {
+      if (!onBaselinesChange || !confirm('ลบ Baseline นี้?')) return;
+      onBaselinesChange((baselines || []).filter(b => b.id !== id));
+      if (compareId === id) setCompareId('');
+  };
+  const baseBottleneck = baseline ? Math.max(0, ...baseline.stations.map(stationCycleTime)) : 0;
+
+  const usedActivities = Object.keys(ACTIVITY_COLORS).filter(a => stations.some(s => s.elements.some(e => e.activity === a))) as ActivityType[];
+
+  const taktLine = (
+    <ReferenceLine
+      y={taktTime}
+      stroke={COLORS.TAKT}
+      strokeDasharray="4 4"
+      strokeWidth={2}
+      label={{
+        value: `Takt: ${taktTime}s`,
+        position: 'insideTopRight',
+        fill: COLORS.TAKT,
+        fontSize: 10,
+        fontWeight: 'bold',
+        dy: -10
+      }}
+    />
+  );
+
   return (
     <div className="flex flex-col h-full bg-gray-50 rounded-lg p-2 gap-2 overflow-hidden">
-      
+
       {/* 1. Header & KPI Section */}
-      <div className="grid grid-cols-3 gap-2 shrink-0">
-        <KPICard 
-          title="เวลาเฉลี่ย (Avg)" 
-          value={kpis.avg.toFixed(1)} 
-          unit="วิ" 
-          icon={Timer} 
-          colorClass="text-blue-600" 
-        />
-        <KPICard 
-          title="ประสิทธิภาพ (Eff)" 
-          value={kpis.efficiency.toFixed(0)} 
-          unit="%" 
-          icon={Activity} 
-          colorClass={kpis.efficiency > 85 ? 'text-emerald-600' : 'text-amber-500'} 
-        />
-        <KPICard 
-          title="จำนวนรอบรวม" 
-          value={kpis.total} 
-          unit="รอบ" 
-          icon={TrendingUp} 
-          colorClass="text-purple-600" 
-        />
-      </div>
+      {view === 'cycles' ? (
+        <div className="grid grid-cols-3 gap-2 shrink-0">
+          <KPICard
+            title="เวลาเฉลี่ย (Avg)"
+            value={kpis.avg.toFixed(1)}
+            unit="วิ"
+            icon={Timer}
+            colorClass="text-blue-600"
+          />
+          <KPICard
+            title="ประสิทธิภาพ (Eff)"
+            value={kpis.efficiency.toFixed(0)}
+            unit="%"
+            icon={Activity}
+            colorClass={kpis.efficiency > 85 ? 'text-emerald-600' : 'text-amber-500'}
+          />
+          <KPICard
+            title="จำนวนรอบรวม"
+            value={kpis.total}
+            unit="รอบ"
+            icon={TrendingUp}
+            colorClass="text-purple-600"
+          />
+        </div>
+      ) : view === 'line' && reduction ? (
+        <div className="grid grid-cols-3 gap-2 shrink-0">
+          <KPICard
+            title="Work Content"
+            value={reduction.after.toFixed(1)}
+            unit={`วิ (เดิม ${reduction.before.toFixed(1)})`}
+            icon={Layers}
+            colorClass="text-blue-600"
+          />
+          <KPICard
+            title="ลดลง (Reduction)"
+            value={reduction.percent.toFixed(1)}
+            unit={`% (${formatDelta(-reduction.saved)})`}
+            icon={TrendingDown}
+            colorClass={reduction.saved >= 0 ? 'text-emerald-600' : 'text-rose-600'}
+          />
+          <KPICard
+            title="คอขวด (Bottleneck)"
+            value={bottleneck.toFixed(1)}
+            unit={`วิ (เดิม ${baseBottleneck.toFixed(1)})`}
+            icon={Timer}
+            colorClass={bottleneck > taktTime ? 'text-rose-600' : 'text-emerald-600'}
+          />
+        </div>
+      ) : view === 'line' ? (
+        <div className="grid grid-cols-3 gap-2 shrink-0">
+          <KPICard
+            title="จำนวนคน"
+            value={operatorCount}
+            unit={`คน / ${stations.length} สถานี`}
+            icon={Users}
+            colorClass="text-blue-600"
+          />
+          <KPICard
+            title="ประสิทธิภาพไลน์"
+            value={lineEfficiency.toFixed(0)}
+            unit={`% (แผน ${plannedEfficiency}%)`}
+            icon={Activity}
+            colorClass={lineEfficiency >= plannedEfficiency ? 'text-emerald-600' : 'text-amber-500'}
+          />
+          <KPICard
+            title="คอขวด (Bottleneck)"
+            value={bottleneck.toFixed(1)}
+            unit="วิ"
+            icon={Timer}
+            colorClass={bottleneck > taktTime ? 'text-rose-600' : 'text-emerald-600'}
+          />
+        </div>
+      ) : (
+        <div className="grid grid-cols-3 gap-2 shrink-0">
+          <KPICard
+            title="Standard Time"
+            value={workContent.toFixed(1)}
+            unit="วิ"
+            icon={Timer}
+            colorClass="text-blue-600"
+          />
+          <KPICard
+            title="ภาระต่อ Takt"
+            value={taktLoad.toFixed(0)}
+            unit="%"
+            icon={Activity}
+            colorClass={taktLoad > 100 ? 'text-rose-600' : 'text-emerald-600'}
+          />
+          <KPICard
+            title="จำนวนงานย่อย"
+            value={elementCount}
+            unit="งาน"
+            icon={Layers}
+            colorClass="text-purple-600"
+          />
+        </div>
+      )}
 
       {/* 2. Main Chart Card */}
       <div className="flex-grow bg-white rounded-xl shadow-md border border-gray-200 p-4 flex flex-col min-h-0 relative">
@@ -187,75 +473,222 @@ const YamazumiChart: React.FC<Props> = ({ cycles, taktTime, onCycleClick }) => {
           <div>
             <h3 className="text-sm font-bold text-gray-800 flex items-center gap-2">
               <AlertOctagon size={14} className="text-gray-400"/>
-              ความแปรปรวนรอบเวลา (Yamazumi)
+              {view === 'cycles' ? 'ความแปรปรวนรอบเวลา (Yamazumi)' : view === 'line' ? 'สมดุลสายการผลิต (Line Yamazumi)' : 'งานย่อยตามเวลามาตรฐาน (Yamazumi)'}
+              {tasks && (
+                <span className="flex border border-gray-300 rounded overflow-hidden text-[10px] font-normal ml-1">
+                  <button onClick={() => setView('cycles')} className={`px-1.5 ${view === 'cycles' ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'}`}>Cycles</button>
+                  <button onClick={() => setView('elements')} className={`px-1.5 ${view === 'elements' ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'}`}>Elements</button>
+                  <button onClick={() => setView('line')} className={`px-1.5 ${view === 'line' ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'}`}>Line</button>
+                </span>
+              )}
+              {view === 'line' && onLineChange && (
+                <button onClick={() => setIsEditingLine(!isEditingLine)} className="text-gray-400 hover:text-blue-600" title="แก้ไขสถานี"><Edit3 size={12}/></button>
+              )}
+              {view === 'line' && onBaselinesChange && (
+                <button onClick={saveBaseline} disabled={elementCount === 0} className="text-gray-400 hover:text-blue-600 disabled:opacity-30" title="บันทึกสถานะปัจจุบันเป็น Baseline"><Bookmark size={12}/></button>
+              )}
+              {view === 'line' && baselines && baselines.length > 0 && (
+                <span className="flex items-center gap-1 text-[10px] font-normal">
+                  <select className="border border-gray-300 rounded bg-white outline-none max-w-[120px]" value={compareId} onChange={(e) => setCompareId(e.target.value)} title="เทียบกับ Baseline">
+                    <option value="">ไม่เทียบ</option>
+                    {baselines.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                  </select>
+                  {baseline && (
+                    <>
+                      <span className="flex border border-gray-300 rounded overflow-hidden">
+                        <button onClick={() => setCompareMode('side')} className={`px-1.5 ${compareMode === 'side' ? 'bg-slate-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'}`}>Side</button>
+                        <button onClick={() => setCompareMode('overlay')} className={`px-1.5 ${compareMode === 'overlay' ? 'bg-slate-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'}`}>Overlay</button>
+                      </span>
+                      {onBaselinesChange && <button onClick={() => deleteBaseline(baseline.id)} className="text-gray-400 hover:text-red-600" title="ลบ Baseline"><Trash2 size={11}/></button>}
+                    </>
+                  )}
+                </span>
+              )}
             </h3>
-            <p className="text-[10px] text-gray-400 mt-0.5">Stacked Analysis: Value Added vs Waste</p>
-          </div>
-          <div className="flex gap-4 text-[10px]">
-            <div className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full bg-emerald-500"></div>VA</div>
-            <div className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full bg-amber-400"></div>NNVA</div>
-            <div className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full bg-rose-500"></div>Waste</div>
-            <div className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full bg-purple-500"></div>Abnormal</div>
+            <p className="text-[10px] text-gray-400 mt-0.5">
+              {view === 'cycles' ? (
+                <>
+                  Stacked Analysis: Value Added vs Waste
+                  {chartData.length > 0 && ` · Pose ${chartData.filter(d => d.measured).length}/${chartData.length} รอบ`}
+                </>
+              ) : view === 'line' && baseline ? (
+                <>
+                  เทียบกับ {baseline.name} ({new Date(baseline.createdAt).toLocaleDateString()}, Takt {baseline.taktTime}s) · ส่วนต่างเวลารอบใต้แต่ละสถานี
+                </>
+              ) : view === 'line' ? (
+                <>
+                  Takt {taktTime}s · Target {targetCycle.toFixed(1)}s (Takt × {plannedEfficiency}%)
+                  {unassignedCount > 0 && <span className="text-amber-600"> · {unassignedCount} งานยังไม่ได้จัดสถานี</span>}
+                </>
+              ) : 'Work Study elements × standard time, colored by activity'}
+            </p>
           </div>
+          {view === 'cycles' ? (
+            <div className="flex gap-4 text-[10px]">
+              <div className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full bg-emerald-500"></div>VA</div>
+              <div className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full bg-amber-400"></div>NNVA</div>
+              <div className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full bg-rose-500"></div>Waste</div>
+              <div className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full bg-slate-400"></div>Unclassified</div>
+              <div className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full bg-purple-500"></div>Abnormal</div>
+            </div>
+          ) : (
+            <div className="flex gap-4 text-[10px]">
+              {usedActivities.map(a => (
+                <div key={a} className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full" style={{ background: ACTIVITY_COLORS[a] }}></div>{a}</div>
+              ))}
+              {baseline && (
+                compareMode === 'side'
+                  ? <div className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full bg-gray-400 opacity-50"></div>Baseline (ซ้าย)</div>
+                  : <div className="flex items-center gap-1.5"><div className="w-2.5 h-2 border border-dashed border-slate-600"></div>Baseline</div>
+              )}
+            </div>
+          )}
         </div>
 
         <div className="flex-grow min-h-0">
           <ResponsiveContainer width="100%" height="100%">
-            <BarChart 
-              data={chartData} 
-              margin={{ top: 20, right: 10, left: -20, bottom: 0 }}
-              barCategoryGap="20%"
-            >
-              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={COLORS.GRID} />
-              <XAxis 
-                dataKey="name" 
-                stroke={COLORS.TEXT} 
-                tick={{ fontSize: 10 }} 
-                tickLine={false}
-                axisLine={false}
-                dy={5}
-              />
-              <YAxis 
-                stroke={COLORS.TEXT} 
-                tick={{ fontSize: 10 }} 
-                tickLine={false}
-                axisLine={false}
-              />
-              <Tooltip 
-                content={<CustomTooltip taktTime={taktTime} />} 
-                cursor={{ fill: '#F3F4F6', opacity: 0.6 }} 
-              />
-              
-              <ReferenceLine 
-                y={taktTime} 
-                stroke={COLORS.TAKT} 
-                strokeDasharray="4 4" 
-                strokeWidth={2}
-                label={{ 
-                  value: `Takt: ${taktTime}s`, 
-                  position: 'insideTopRight', 
-                  fill: COLORS.TAKT, 
-                  fontSize: 10, 
-                  fontWeight: 'bold',
-                  dy: -10 
-                }} 
-              />
-
-              {/* Stacked Bars */}
-              <Bar dataKey="va" stackId="a" fill={COLORS.VA} radius={[0, 0, 0, 0]} onClick={(data: any) => onCycleClick && onCycleClick(data.payload.timestamp)} style={{ cursor: 'pointer' }} />
-              <Bar dataKey="nnva" stackId="a" fill={COLORS.NNVA} radius={[0, 0, 0, 0]} onClick={(data: any) => onCycleClick && onCycleClick(data.payload.timestamp)} style={{ cursor: 'pointer' }} />
-              <Bar dataKey="waste" stackId="a" fill={COLORS.WASTE} radius={[4, 4, 0, 0]} onClick={(data: any) => onCycleClick && onCycleClick(data.payload.timestamp)} style={{ cursor: 'pointer' }} />
-              <Bar dataKey="abnormal" stackId="a" fill={COLORS.ABNORMAL} radius={[4, 4, 4, 4]} onClick={(data: any) => onCycleClick && onCycleClick(data.payload.timestamp)} style={{ cursor: 'pointer' }} />
-            </BarChart>
+            {view === 'cycles' ? (
+              <BarChart
+                data={chartData}
+                margin={{ top: 20, right: 10, left: -20, bottom: 0 }}
+                barCategoryGap="20%"
+              >
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={COLORS.GRID} />
+                <XAxis
+                  dataKey="name"
+                  stroke={COLORS.TEXT}
+                  tick={{ fontSize: 10 }}
+                  tickLine={false}
+                  axisLine={false}
+                  dy={5}
+                />
+                <YAxis
+                  stroke={COLORS.TEXT}
+                  tick={{ fontSize: 10 }}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <Tooltip
+                  content={<CustomTooltip taktTime={taktTime} />}
+                  cursor={{ fill: '#F3F4F6', opacity: 0.6 }}
+                />
+
+                {taktLine}
+
+                {/* Stacked Bars */}
+                <Bar dataKey="va" stackId="a" fill={COLORS.VA} radius={[0, 0, 0, 0]} onClick={(data: any) => onCycleClick && onCycleClick(data.payload.timestamp)} style={{ cursor: 'pointer' }} />
+                <Bar dataKey="nnva" stackId="a" fill={COLORS.NNVA} radius={[0, 0, 0, 0]} onClick={(data: any) => onCycleClick && onCycleClick(data.payload.timestamp)} style={{ cursor: 'pointer' }} />
+                <Bar dataKey="unclassified" stackId="a" fill={COLORS.UNCLASSIFIED} radius={[0, 0, 0, 0]} onClick={(data: any) => onCycleClick && onCycleClick(data.payload.timestamp)} style={{ cursor: 'pointer' }} />
+                <Bar dataKey="waste" stackId="a" fill={COLORS.WASTE} radius={[4, 4, 0, 0]} onClick={(data: any) => onCycleClick && onCycleClick(data.payload.timestamp)} style={{ cursor: 'pointer' }} />
+                <Bar dataKey="abnormal" stackId="a" fill={COLORS.ABNORMAL} radius={[4, 4, 4, 4]} onClick={(data: any) => onCycleClick && onCycleClick(data.payload.timestamp)} style={{ cursor: 'pointer' }} />
+              </BarChart>
+            ) : (
+              <BarChart
+                data={elementData}
+                margin={{ top: 20, right: 10, left: -20, bottom: deltas ? 12 : 0 }}
+                barCategoryGap="30%"
+              >
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={COLORS.GRID} />
+                {deltas
+                  ? <XAxis dataKey="name" stroke={COLORS.TEXT} tickLine={false} axisLine={false} interval={0} tick={<DeltaTick deltas={deltas} />} />
+                  : <XAxis dataKey="name" stroke={COLORS.TEXT} tick={{ fontSize: 10 }} tickLine={false} axisLine={false} dy={5} />}
+                {/* Second category axis so the baseline outline sits exactly over the current bar */}
+                {deltas && compareMode === 'overlay' && <XAxis xAxisId="base" dataKey="name" hide />}
+                <YAxis stroke={COLORS.TEXT} tick={{ fontSize: 10 }} tickLine={false} axisLine={false} domain={[0, (max: number) => Math.max(max, taktTime) * 1.1]} />
+                <Tooltip
+                  content={deltas ? <CompareTooltip deltas={deltas} baselineName={baseline?.name} /> : <ElementTooltip stations={stations} taktTime={taktTime} />}
+                  cursor={{ fill: '#F3F4F6', opacity: 0.6 }}
+                />
+
+                {taktLine}
+                {view === 'line' && (
+                  <ReferenceLine
+                    y={targetCycle}
+                    stroke={COLORS.TARGET}
+                    strokeDasharray="2 3"
+                    strokeWidth={1.5}
+                    label={{ value: `Target: ${targetCycle.toFixed(1)}s`, position: 'insideTopLeft', fill: COLORS.TARGET, fontSize: 10, fontWeight: 'bold', dy: -10 }}
+                  />
+                )}
+
+                {/* Side by side: the baseline stack is drawn faded left of the current one */}
+                {deltas && compareMode === 'side' && Array.from({ length: maxBaseElements }, (_, i) => (
+                  <Bar key={`b${i}`} dataKey={`b${i}`} stackId="b" stroke="#FFFFFF" strokeWidth={1} fillOpacity={0.35} isAnimationActive={false}>
+                    {rows.map((r, row) => (
+                      <Cell key={row} fill={r.before?.elements[i] ? ACTIVITY_COLORS[r.before.elements[i].activity] : 'transparent'} />
+                    ))}
+                  </Bar>
+                ))}
+
+                {/* One stacked segment per element position; each station colors its own element */}
+                {Array.from({ length: maxElements }, (_, i) => (
+                  <Bar key={i} dataKey={`e${i}`} stackId="e" stroke="#FFFFFF" strokeWidth={1} isAnimationActive={false}>
+                    {rows.map((r, row) => (
+                      <Cell key={row} fill={r.after?.elements[i] ? ACTIVITY_COLORS[r.after.elements[i].activity] : 'transparent'} />
+                    ))}
+                  </Bar>
+                ))}
+
+                {deltas && compareMode === 'overlay' && (
+                  <Bar xAxisId="base" dataKey="baseTotal" fill="none" stroke={COLORS.BASELINE} strokeWidth={1.5} strokeDasharray="4 3" isAnimationActive={false} />
+                )}
+              </BarChart>
+            )}
           </ResponsiveContainer>
         </div>
-        
-        {chartData.length === 0 && (
+
+        {view === 'cycles' && chartData.length === 0 && (
            <div className="absolute inset-0 flex flex-col items-center justify-center bg-white/50 backdrop-blur-sm">
               <TrendingUp className="text-gray-300 mb-2" size={48} />
               <p className="text-xs text-gray-400 font-medium">รอข้อมูลรอบเวลา...</p>
            </div>
         )}
+        {view !== 'cycles' && elementCount === 0 && !isEditingLine && (
+           <div className="absolute inset-0 flex flex-col items-center justify-center bg-white/50 backdrop-blur-sm">
+              <Layers className="text-gray-300 mb-2" size={48} />
+              <p className="text-xs text-gray-400 font-medium">ยังไม่มีงานย่อยที่จับเวลาแล้วใน Work Study</p>
+           </div>
+        )}
+
+        {/* Line Editor */}
+        {view === 'line' && isEditingLine && effectiveLine && tasks && (
+           <div className="absolute inset-2 bg-white border border-gray-300 rounded-lg shadow-xl z-20 flex flex-col text-xs">
+              <div className="flex items-center justify-between px-2 py-1 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+                 <span className="font-bold text-gray-700 flex items-center gap-1"><Users size={12}/> สถานีในไลน์</span>
+                 <div className="flex items-center gap-2">
+                    <label className="flex items-center gap-1 text-gray-600">
+                       ประสิทธิภาพตามแผน
+                       <input type="number" min={1} max={100} className="w-12 border border-gray-300 rounded px-1 text-right" value={effectiveLine.plannedEfficiency} onChange={(e) => updateLine({ plannedEfficiency: Math.min(100, Math.max(1, Number(e.target.value) || 0)) })}/>%
+                    </label>
+                    <button onClick={addStation} className="flex items-center gap-1 px-1.5 py-0.5 border border-gray-300 rounded hover:bg-gray-100"><Plus size={10}/> สถานี</button>
+                    <button onClick={() => setIsEditingLine(false)} className="text-gray-400 hover:text-gray-700"><X size={14}/></button>
+                 </div>
+              </div>
+              <div className="flex-grow grid grid-cols-2 gap-2 p-2 min-h-0">
+                 <div className="overflow-y-auto space-y-1">
+                    {effectiveLine.stations.map(s => (
+                       <div key={s.id} className="flex items-center gap-1">
+                          <input className="flex-grow min-w-0 border border-gray-300 rounded px-1" value={s.name} onChange={(e) => updateStation(s.id, { name: e.target.value })}/>
+                          <Users size={10} className="text-gray-400 shrink-0"/>
+                          <input type="number" min={1} className="w-10 border border-gray-300 rounded px-1 text-right" value={s.operators} onChange={(e) => updateStation(s.id, { operators: Math.max(1, parseInt(e.target.value) || 1) })} title="จำนวนคน"/>
+                          <button onClick={() => removeStation(s.id)} disabled={effectiveLine.stations.length <= 1} className="text-gray-400 hover:text-red-600 disabled:opacity-30"><Trash2 size={12}/></button>
+                       </div>
+                    ))}
+                 </div>
+                 <div className="overflow-y-auto space-y-1 border-l border-gray-200 pl-2">
+                    {tasks.map((t, i) => (
+                       <div key={t.id} className="flex items-center gap-1">
+                          <span className="flex-grow truncate text-gray-700">{i + 1}. {t.name}</span>
+                          <select className={`border rounded outline-none max-w-[110px] ${stationOfTask(t.id) ? 'border-gray-300' : 'border-amber-400 text-amber-700'}`} value={stationOfTask(t.id)} onChange={(e) => assignTask(t.id, e.target.value)}>
+                             <option value="">— ไม่จัด —</option>
+                             {effectiveLine.stations.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                          </select>
+                       </div>
+                    ))}
+                 </div>
+              </div>
+           </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AllowanceBreakdown } from '../types';
+import { AllowanceProfiles } from './AllowanceProfiles';
+
+const breakdown: AllowanceBreakdown = { personal: 5, basicFatigue: 4, factors: { noise: 'loud' }, delay: 1 };
+
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => { store.set(key, value); },
+  });
+});
+
+describe('AllowanceProfiles', () => {
+  it('round-trips a saved profile', () => {
+      const saved = AllowanceProfiles.save('Plant A', 'Assembly', { ...breakdown, profileId: 'old' });
+
+      expect(AllowanceProfiles.list()).toEqual([saved]);
+      expect(saved.breakdown).toEqual(breakdown); // The link to a previous profile is not stored
+  });
+
+  it('replaces a profile with the same plant and name, and sorts by plant then name', () => {
+      const first = AllowanceProfiles.save('Plant B', 'Paint', breakdown);
+      AllowanceProfiles.save('Plant A', 'Weld', breakdown);
+      const updated = AllowanceProfiles.save('Plant B', 'Paint', { ...breakdown, delay: 3 });
+
+      expect(updated.id).toBe(first.id);
+      expect(AllowanceProfiles.list().map(p => `${p.plant}/${p.name}/${p.breakdown.delay}`)).toEqual(['Plant A/Weld/1', 'Plant B/Paint/3']);
+  });
+
+  it('removes a profile', () => {
+      const saved = AllowanceProfiles.save('Plant A', 'Assembly', breakdown);
+      AllowanceProfiles.remove(saved.id);
+      expect(AllowanceProfiles.list()).toEqual([]);
+  });
+});
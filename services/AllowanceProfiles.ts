@@ -0,0 +1,39 @@
+import { AllowanceProfile } from '../types';
+
+// Allowance profiles belong to a plant, not to a project, so they are kept in
+// localStorage and shared by every project on this machine.
+const PROFILES_KEY = 'wsp_allowance_profiles';
+
+const write = (profiles: AllowanceProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  return profiles;
+};
+
+export const AllowanceProfiles = {
+  // Sorted by plant, then name
+  list(): AllowanceProfile[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(PROFILES_KEY) || '[]');
+      if (!Array.isArray(stored)) return [];
+      return stored
+        .filter((p: AllowanceProfile) => p && typeof p.id === 'string' && p.breakdown)
+        .sort((a: AllowanceProfile, b: AllowanceProfile) => a.plant.localeCompare(b.plant) || a.name.localeCompare(b.name));
+    } catch (e) {
+      return [];
+    }
+  },
+
+  // Replaces the profile with the same plant and name, if any
+  save(plant: string, name: string, breakdown: AllowanceProfile['breakdown']): AllowanceProfile {
+    const profiles = this.list();
+    const existing = profiles.find(p => p.plant === plant && p.name === name);
+    const { profileId, ...values } = breakdown;
+    const profile: AllowanceProfile = { id: existing?.id || crypto.randomUUID(), plant, name, breakdown: values };
+    write([...profiles.filter(p => p.id !== profile.id), profile]);
+    return profile;
+  },
+
+  remove(id: string): void {
+    write(this.list().filter(p => p.id !== id));
+  },
+};
@@ -0,0 +1,42 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { ProjectRepository } from './ProjectRepository';
+
+const DB_NAME = 'WorkStudyProDB';
+
+const open = (version: number, upgrade?: (db: IDBDatabase) => void) => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, version);
+  request.onupgradeneeded = () => upgrade?.(request.result);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+describe('ProjectRepository connection', () => {
+  it('rejects with a readable Error while an older tab blocks the upgrade', async () => {
+      const older = await open(1); // Another tab on an old version that ignores versionchange
+      older.onversionchange = null;
+
+      const error = await ProjectRepository.list().catch(e => e);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.message).toMatch(/close the other tabs/);
+
+      older.close();
+      await expect(ProjectRepository.list()).resolves.toEqual([]);
+  });
+
+  it('tells the app when another tab upgrades the database', async () => {
+      const messages: string[] = [];
+      ProjectRepository.onVersionChange(message => messages.push(message));
+      await ProjectRepository.list();
+
+      const newer = await open(99);
+      expect(messages).toHaveLength(1);
+      expect(messages[0]).toMatch(/reload this tab/);
+
+      const error = await ProjectRepository.list().catch(e => e);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.message).toMatch(/newer version/);
+      newer.close();
+      ProjectRepository.onVersionChange(null);
+  });
+});
@@ -1,72 +1,254 @@
 
-import { ProjectData } from '../types';
+import { ProjectData, ProjectHistory, ProjectRevision, ProjectSummary } from '../types';
+import { PROJECT_SCHEMA_VERSION, formatIssues, readProject } from '../utils/projectSchema';
+import { StoredHistory, packHistory, unpackHistory } from '../utils/history';
 
 const DB_NAME = 'WorkStudyProDB';
-const STORE_NAME = 'projects';
-const PROJECT_KEY = 'current_project';
+const DB_VERSION = 4;
+const STORE_NAME = 'projects';        // Full project data, keyed by project id
+const INDEX_STORE = 'projectIndex';   // One ProjectSummary per id, so listing never reads whole projects
+const HISTORY_STORE = 'history';      // Undo/redo history per project id
+const REVISION_STORE = 'revisions';   // ProjectRevision by id, indexed by project id
+const LEGACY_KEY = 'current_project'; // Single-project key used before the project library
+const ACTIVE_KEY = 'wsp_active_project';
+
+const newSummary = (name: string, thumbnail?: string): ProjectSummary => {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), name, createdAt: now, updatedAt: now, thumbnail };
+};
+
+// Simple IndexedDB wrapper. One connection is shared; it is closed as soon as
+// another tab upgrades the database, and reopened on next use.
+let connection: Promise<IDBDatabase> | null = null;
+let versionChangeListener: ((message: string) => void) | null = null;
 
-// Simple IndexedDB wrapper
 const openDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, 1);
-    
+  if (connection) return connection;
+  connection = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let blocked = false;
+
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
+      const transaction = (event.target as IDBOpenDBRequest).transaction!;
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME);
       }
+      if (!db.objectStoreNames.contains(INDEX_STORE)) {
+        db.createObjectStore(INDEX_STORE, { keyPath: 'id' });
+
+        // Move the project saved under the old single key into the library
+        const store = transaction.objectStore(STORE_NAME);
+        const legacy = store.get(LEGACY_KEY);
+        legacy.onsuccess = () => {
+          if (!legacy.result) return;
+          const summary = { ...newSummary('Project 1'), updatedAt: legacy.result.updatedAt || Date.now() };
+          store.put(legacy.result, summary.id);
+          store.delete(LEGACY_KEY);
+          transaction.objectStore(INDEX_STORE).put(summary);
+          localStorage.setItem(ACTIVE_KEY, summary.id);
+        };
+      }
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        db.createObjectStore(HISTORY_STORE);
+      }
+      if (!db.objectStoreNames.contains(REVISION_STORE)) {
+        db.createObjectStore(REVISION_STORE, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+      }
+    };
+
+    // An older version is still open in another tab and did not close it
+    request.onblocked = () => {
+      blocked = true;
+      connection = null;
+      reject(new Error('The project database is blocked by another tab of this app - close the other tabs and reload'));
     };
 
     request.onsuccess = (event) => {
-      resolve((event.target as IDBOpenDBRequest).result);
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (blocked) {
+        db.close(); // Opened after the caller gave up; the next call opens afresh
+        return;
+      }
+      db.onversionchange = () => {
+        db.close();
+        connection = null;
+        versionChangeListener?.('Another tab upgraded the project database - reload this tab before making more changes');
+      };
+      db.onclose = () => { connection = null; };
+      resolve(db);
     };
 
-    request.onerror = (event) => {
-      reject('IndexedDB Error');
+    request.onerror = () => {
+      connection = null;
+      reject(request.error?.name === 'VersionError'
+        ? new Error('The project database was upgraded by a newer version of the app - reload this tab')
+        : new Error(`Could not open the project database (${request.error?.message || 'unknown error'})`));
     };
   });
+  return connection;
+};
+
+// Runs `work` in one transaction over all stores and resolves once it has committed
+const withStores = async <T>(
+  mode: IDBTransactionMode,
+  error: string,
+  work: (projects: IDBObjectStore, index: IDBObjectStore, done: (result: T) => void, history: IDBObjectStore, revisions: IDBObjectStore) => void
+): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, INDEX_STORE, HISTORY_STORE, REVISION_STORE], mode);
+    let result: T;
+    work(
+      transaction.objectStore(STORE_NAME),
+      transaction.objectStore(INDEX_STORE),
+      (value) => { result = value; },
+      transaction.objectStore(HISTORY_STORE),
+      transaction.objectStore(REVISION_STORE)
+    );
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(new Error(error));
+    transaction.onabort = () => reject(new Error(error));
+  });
 };
 
 export const ProjectRepository = {
-  async save(data: Partial<ProjectData>): Promise<void> {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      
-      // We merge with existing data to prevent overwriting with partials if not careful,
-      // but for this simple implementation, we assume 'data' contains the full state we want to persist
-      // or we fetch first. Here we assume full save for simplicity in App logic.
-      const request = store.put({ ...data, updatedAt: Date.now() }, PROJECT_KEY);
-
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject('Save failed');
+  // Called when another tab upgrades the database and this tab's connection is closed
+  onVersionChange(listener: ((message: string) => void) | null): void {
+    versionChangeListener = listener;
+  },
+
+  // All projects, most recently modified first
+  async list(): Promise<ProjectSummary[]> {
+    const summaries = await withStores<ProjectSummary[]>('readonly', 'List failed', (_projects, index, done) => {
+      const request = index.getAll();
+      request.onsuccess = () => done(request.result as ProjectSummary[]);
+    });
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+
+  async create(name: string, data: Partial<ProjectData> = {}, thumbnail?: string): Promise<ProjectSummary> {
+    const summary = newSummary(name, thumbnail);
+    await withStores<void>('readwrite', 'Create failed', (projects, index) => {
+      projects.put({ ...data, schemaVersion: PROJECT_SCHEMA_VERSION, updatedAt: summary.updatedAt }, summary.id);
+      index.put(summary);
+    });
+    return summary;
+  },
+
+  // Writes the full state of a project; the thumbnail is kept when none is given.
+  // The undo history, when given, is written in the same transaction so the two
+  // never disagree after a crash. A project deleted in the meantime is not brought back.
+  async save(id: string, data: Partial<ProjectData>, thumbnail?: string, history?: ProjectHistory): Promise<void> {
+    const updatedAt = Date.now();
+    const stored = history && packHistory(history);
+    return withStores<void>('readwrite', 'Save failed', (projects, index, _done, histories) => {
+      const request = index.get(id);
+      request.onsuccess = () => {
+        const summary = request.result as ProjectSummary | undefined;
+        if (!summary) return;
+        projects.put({ ...data, schemaVersion: PROJECT_SCHEMA_VERSION, updatedAt }, id);
+        index.put({ ...summary, updatedAt, thumbnail: thumbnail ?? summary.thumbnail });
+        if (stored) histories.put(stored, id);
+      };
     });
   },
 
-  async load(): Promise<ProjectData | null> {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([STORE_NAME], 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.get(PROJECT_KEY);
+  // Records from older versions are migrated on the way out; invalid ones are rejected with the field list
+  async load(id: string): Promise<ProjectData | null> {
+    const record = await withStores<unknown>('readonly', 'Load failed', (projects, _index, done) => {
+      const request = projects.get(id);
+      request.onsuccess = () => done(request.result);
+    });
+    if (!record) return null;
+    const result = readProject(record);
+    if (!result.data) throw new Error(`Stored project does not match the project schema:\n${formatIssues(result.issues)}`);
+    return result.data;
+  },
 
+  async loadHistory(id: string): Promise<ProjectHistory> {
+    const stored = await withStores<StoredHistory | undefined>('readonly', 'Load failed', (_projects, _index, done, histories) => {
+      const request = histories.get(id);
+      request.onsuccess = () => done(request.result);
+    });
+    return unpackHistory(stored);
+  },
+
+  async rename(id: string, name: string): Promise<void> {
+    return withStores<void>('readwrite', 'Rename failed', (_projects, index) => {
+      const request = index.get(id);
       request.onsuccess = () => {
-        resolve(request.result as ProjectData || null);
+        if (request.result) index.put({ ...request.result, name });
+      };
+    });
+  },
+
+  async duplicate(id: string, name: string): Promise<ProjectSummary | null> {
+    return withStores<ProjectSummary | null>('readwrite', 'Duplicate failed', (projects, index, done) => {
+      done(null);
+      const source = index.get(id);
+      const data = projects.get(id);
+      data.onsuccess = () => {
+        if (!source.result || !data.result) return;
+        const summary = newSummary(name, source.result.thumbnail);
+        projects.put({ ...data.result, updatedAt: summary.updatedAt }, summary.id);
+        index.put(summary);
+        done(summary);
       };
-      request.onerror = () => reject('Load failed');
     });
   },
 
-  async clear(): Promise<void> {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.delete(PROJECT_KEY);
-      
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject('Clear failed');
+  async remove(id: string): Promise<void> {
+    if (this.getActiveId() === id) localStorage.removeItem(ACTIVE_KEY);
+    return withStores<void>('readwrite', 'Delete failed', (projects, index, _done, histories, revisions) => {
+      projects.delete(id);
+      index.delete(id);
+      histories.delete(id);
+      const request = revisions.index('projectId').getAllKeys(id);
+      request.onsuccess = () => request.result.forEach(key => revisions.delete(key));
     });
+  },
+
+  // --- REVISIONS ---
+  // Stored with the schema version of the app that took them and migrated when read
+
+  async createRevision(projectId: string, data: ProjectData, author: string, note: string): Promise<ProjectRevision> {
+    return withStores<ProjectRevision>('readwrite', 'Revision failed', (_projects, _index, done, _histories, revisions) => {
+      const request = revisions.index('projectId').count(projectId);
+      request.onsuccess = () => {
+        const revision: ProjectRevision = {
+          id: crypto.randomUUID(),
+          projectId,
+          number: request.result + 1,
+          createdAt: Date.now(),
+          author,
+          note,
+          data: { ...data, schemaVersion: PROJECT_SCHEMA_VERSION, videoSrc: null },
+        };
+        revisions.put(revision);
+        done(revision);
+      };
+    });
+  },
+
+  // Newest first; revisions that no longer pass validation are left out
+  async listRevisions(projectId: string): Promise<ProjectRevision[]> {
+    const stored = await withStores<ProjectRevision[]>('readonly', 'List failed', (_projects, _index, done, _histories, revisions) => {
+      const request = revisions.index('projectId').getAll(projectId);
+      request.onsuccess = () => done(request.result as ProjectRevision[]);
+    });
+    return stored
+      .map(rev => ({ ...rev, data: readProject(rev.data).data }))
+      .filter((rev): rev is ProjectRevision => !!rev.data)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  },
+
+  // Project reopened on the next start
+  getActiveId(): string | null {
+    return localStorage.getItem(ACTIVE_KEY);
+  },
+
+  setActiveId(id: string) {
+    localStorage.setItem(ACTIVE_KEY, id);
   }
 };
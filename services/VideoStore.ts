@@ -0,0 +1,127 @@
+
+import { VideoRef } from '../types';
+import { verifyPermission } from '../utils/fileAccess';
+
+const DB_NAME = 'WorkStudyProMedia';
+const VIDEO_STORE = 'videos';     // Blob per content hash
+const SETTINGS_STORE = 'settings';
+const DIR_KEY = 'videoDirectory'; // FileSystemDirectoryHandle chosen by the user
+
+const SAMPLE_BYTES = 4 * 1024 * 1024; // Hash window at start, middle and end of large files
+
+const openDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(VIDEO_STORE)) db.createObjectStore(VIDEO_STORE);
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) db.createObjectStore(SETTINGS_STORE);
+    };
+
+    request.onsuccess = (event) => {
+      resolve((event.target as IDBOpenDBRequest).result);
+    };
+
+    request.onerror = () => {
+      reject('IndexedDB Error');
+    };
+  });
+};
+
+const getValue = async <T>(storeName: string, key: string): Promise<T | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction([storeName], 'readonly').objectStore(storeName).get(key);
+    request.onsuccess = () => resolve(request.result as T | undefined);
+    request.onerror = () => reject('Read failed');
+  });
+};
+
+const putValue = async (storeName: string, key: string, value: any): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readwrite');
+    if (value === undefined) transaction.objectStore(storeName).delete(key);
+    else transaction.objectStore(storeName).put(value, key);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Write failed');
+    transaction.onabort = () => reject('Write failed (storage quota?)');
+  });
+};
+
+/**
+ * Content hash of a video. Multi-GB files are not read whole: the hash covers
+ * the size plus fixed windows at the start, middle and end, which is enough to
+ * tell recordings apart and to recognise the same file after a rename.
+ */
+export const hashVideo = async (file: Blob): Promise<string> => {
+  const parts: BlobPart[] = [String(file.size)];
+  if (file.size <= SAMPLE_BYTES * 3) {
+      parts.push(file);
+  } else {
+      const mid = Math.floor(file.size / 2);
+      parts.push(
+          file.slice(0, SAMPLE_BYTES),
+          file.slice(mid - SAMPLE_BYTES / 2, mid + SAMPLE_BYTES / 2),
+          file.slice(file.size - SAMPLE_BYTES)
+      );
+  }
+  const digest = await crypto.subtle.digest('SHA-256', await new Blob(parts).arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const directoryFileName = (hash: string, name: string) => `${hash.slice(0, 12)}_${name.replace(/[\\/:*?"<>|]/g, '_')}`;
+
+export const VideoStore = {
+  // Folder videos are written to instead of the browser database; null = IndexedDB
+  async getDirectory(): Promise<FileSystemDirectoryHandle | null> {
+    return (await getValue<FileSystemDirectoryHandle>(SETTINGS_STORE, DIR_KEY)) || null;
+  },
+
+  async setDirectory(handle: FileSystemDirectoryHandle | null): Promise<void> {
+    return putValue(SETTINGS_STORE, DIR_KEY, handle || undefined);
+  },
+
+  // Stores a video and returns the reference to keep in the project
+  async put(file: File): Promise<VideoRef> {
+    const hash = await hashVideo(file);
+    const ref: VideoRef = { hash, name: file.name, size: file.size, type: file.type, storage: 'indexeddb' };
+
+    const dir = await this.getDirectory();
+    if (dir && await verifyPermission(dir, true)) {
+        const fileName = directoryFileName(hash, file.name);
+        const handle = await dir.getFileHandle(fileName, { create: true });
+        const existing = await handle.getFile();
+        if (existing.size !== file.size) {
+            const writable = await handle.createWritable();
+            await writable.write(file);
+            await writable.close();
+        }
+        return { ...ref, storage: 'directory', fileName };
+    }
+
+    if (!(await getValue<Blob>(VIDEO_STORE, hash))) {
+        await putValue(VIDEO_STORE, hash, file);
+    }
+    return ref;
+  },
+
+  /**
+   * Looks the video up where the reference says it is. Resolves null when it
+   * is gone or folder access was not granted (needs a user gesture after a reload).
+   */
+  async get(ref: VideoRef): Promise<Blob | null> {
+    if (ref.storage === 'directory' && ref.fileName) {
+        const dir = await this.getDirectory();
+        if (!dir || !(await verifyPermission(dir, false))) return null;
+        try {
+            return await (await dir.getFileHandle(ref.fileName)).getFile();
+        } catch (e) {
+            return null;
+        }
+    }
+    const blob = await getValue<Blob>(VIDEO_STORE, ref.hash);
+    return blob || null;
+  }
+};
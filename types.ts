@@ -18,6 +18,30 @@ export interface Cycle {
   duration: number;
   status: 'ok' | 'over' | 'abnormal';
   aiLabel?: 'Operation' | 'Transport' | 'Idle' | 'Unknown'; // New AI Field
+  stepHits?: CycleStepHit[]; // Trigger zone hits in the order they happened
+  segments?: CycleSegment[]; // Element breakdown derived from the zone sequence
+  thumbnail?: string;        // Frame at detection time (small JPEG data URL)
+  mappedTaskIndex?: number;  // Work Study task the first element was written to
+  verified?: boolean;        // Confirmed or corrected by a reviewer
+  actionSpans?: ActionSpan[]; // Pose action timeline within the cycle
+  actionTime?: ActionTime;    // Seconds spent in each pose action
+}
+
+export interface CycleStepHit {
+  stepId: string;
+  name: string;
+  time: number;     // Video time of the zone entry
+  inOrder: boolean; // False when the zone was hit out of sequence
+}
+
+export interface CycleSegment {
+  stepId: string;
+  name: string; // Element name (taken from the trigger zone)
+  startTime: number;
+  endTime: number;
+  duration: number;
+  activity: ActivityType;
+  elementIndex?: number; // Position in the zone sequence; selects the task (mappedTaskIndex + elementIndex)
 }
 
 export interface TriggerStep {
@@ -26,6 +50,26 @@ export interface TriggerStep {
   rect: Rect;
   isActive: boolean;
   hitCount: number;
+  activity?: ActivityType; // Activity of the element that starts at this zone
+  referenceMode?: 'static' | 'adaptive'; // Adaptive = background model follows slow changes while the zone is idle
+  normalizeExposure?: boolean;           // Match frame brightness to the reference before differencing
+  falseTriggerCount?: number;            // Sequences started here that were too short to be a cycle
+}
+
+export interface DetectionThresholds {
+  high: number; // Zone entry score
+  low: number;  // Zone release score
+}
+
+export interface SignalSample {
+  time: number;
+  raw: number[];    // Change score per trigger step, in step order
+  smooth: number[]; // EMA of raw as fed to the detector
+}
+
+export interface SignalTrace {
+  stepIds: string[]; // TriggerStep ids the score columns belong to
+  samples: SignalSample[];
 }
 
 export interface AppState {
@@ -37,6 +81,7 @@ export interface AppState {
 }
 
 export interface ProjectData {
+  schemaVersion?: number; // Missing in files from before versioning (version 1)
   videoSrc: string | null;
   cycles: Cycle[];
   taktTime: number;
@@ -44,11 +89,118 @@ export interface ProjectData {
   refRect: Rect | null;
   triggerSteps: TriggerStep[];
   workStudyTasks: WorkStudyTask[]; // Added for persistence
+  signalTrace?: SignalTrace | null;       // Per-frame scores of the last analysis run
+  thresholds?: DetectionThresholds | null; // Manual override of the sensitivity-derived thresholds
+  frameRate?: number | null;               // Detected media frame rate of the analyzed video
+  line?: LineConfig | null;                // Station assignment of the Work Study elements
+  yamazumiBaselines?: YamazumiBaseline[];  // Saved line states for before/after comparison
+  video?: VideoRef | null;                 // Source video kept in the video store
+  referenceImages?: ReferenceImages | null; // Captured empty-state and anchor crops
+  modules?: ModuleStates;                  // Working state of the analysis modules
+  observationTarget?: ObservationTarget;   // Precision the study has to reach
   updatedAt: number; // Added for sync
 }
 
+// Reference crops captured in the analyzer (PNG data URLs at video resolution),
+// kept so the background models can be rebuilt after a reload
+export interface ReferenceImages {
+  zones: Record<string, string>; // Keyed by TriggerStep.id
+  anchor?: { rect: Rect, image: string } | null;
+}
+
+// Source video of a project, looked up in the video store by content hash
+export interface VideoRef {
+  hash: string;      // SHA-256 over the file size and sampled content
+  name: string;      // Original file name
+  size: number;
+  type: string;      // MIME type
+  storage: 'indexeddb' | 'directory';
+  fileName?: string; // Name inside the video folder when storage is 'directory'
+}
+
+// Parts of the project covered by undo/redo
+export type HistorySnapshot = Pick<ProjectData, 'cycles' | 'taktTime' | 'sensitivity' | 'refRect' | 'triggerSteps' | 'workStudyTasks' | 'thresholds' | 'line'>;
+
+// One undoable change: the values of the fields it touched, before and after
+export interface HistoryEntry {
+  at: number;
+  label: string;
+  before: Partial<HistorySnapshot>;
+  after: Partial<HistorySnapshot>;
+}
+
+export interface ProjectHistory {
+  entries: HistoryEntry[];
+  index: number; // Entries [0, index) are applied; the rest can be redone
+}
+
+// Named copy of a project, taken on every explicit save
+export interface ProjectRevision {
+  id: string;
+  projectId: string;
+  number: number;     // 1-based, per project
+  createdAt: number;
+  author: string;
+  note: string;
+  data: ProjectData;
+}
+
+// Project library entry; the project data itself is stored separately
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  thumbnail?: string; // First cycle or element thumbnail
+}
+
 export type ActivityType = 'Operation' | 'Transport' | 'Inspection' | 'Delay' | 'Hold';
 
+// How the performance rating of an element is obtained
+export type RatingMethod = 'direct' | 'westinghouse' | 'synthetic' | 'perRound';
+export type WestinghouseFactor = 'skill' | 'effort' | 'conditions' | 'consistency';
+
+export interface RatingBreakdown {
+  method: RatingMethod;
+  westinghouse?: Record<WestinghouseFactor, string>; // Grade per factor, e.g. skill 'C1'
+  synthetic?: { codes: string[], pmtsTime: number };  // MODAPTS codes of the element and their time (s)
+}
+
+// ILO variable fatigue allowance factors
+export type IloFactor = 'standing' | 'posture' | 'weight' | 'light' | 'noise' | 'mentalStrain' | 'monotony';
+
+// Personal + fatigue + delay (PFD) allowance, all in % of normal time
+export interface AllowanceBreakdown {
+  personal: number;
+  basicFatigue: number;
+  factors: Partial<Record<IloFactor, string>>; // Chosen level id per variable factor
+  delay: number;
+  profileId?: string;                          // AllowanceProfile it was taken from
+}
+
+// Reusable allowance set, saved per plant
+export interface AllowanceProfile {
+  id: string;
+  plant: string;
+  name: string;
+  breakdown: AllowanceBreakdown;
+}
+
+// Required precision of the element means: within ±accuracy % at confidence %
+export interface ObservationTarget {
+  confidence: number; // 90 | 95 | 99
+  accuracy: number;   // %
+}
+
+// How rounds outside the normal spread of an element are found
+export type OutlierRule = 'none' | 'sigma2' | 'iqr'; // Off, mean ± 2σ, 1.5 × IQR fences
+
+// Why a round is left out of the averages; the round itself is kept for traceability
+export interface RoundExclusion {
+  rule: 'manual' | 'sigma2' | 'iqr';
+  reason: string;
+}
+
 export interface WorkStudyRound {
   ht: number; // Hand Time
   wt: number; // Walk Time
@@ -56,6 +208,10 @@ export interface WorkStudyRound {
   total: number;
   startTime?: number;
   endTime?: number;
+  cycleId?: number;   // Detected cycle this round was written from
+  verified?: boolean; // Copy of Cycle.verified for cycle rounds
+  exclusion?: RoundExclusion | null; // Set = not counted in the element time
+  rating?: number;    // Own rating (%) under the 'perRound' method; missing = task rating
 }
 
 export interface WorkStudyTask {
@@ -67,6 +223,47 @@ export interface WorkStudyTask {
   rating: number;
   allowance: number;
   thumbnail?: string;
+  outlierRule?: OutlierRule; // Missing = 'none'
+  ratingBreakdown?: RatingBreakdown; // How `rating` was obtained; missing = typed directly
+  allowanceBreakdown?: AllowanceBreakdown; // Components of `allowance`; missing = typed directly
+}
+
+// --- YAMAZUMI TYPES ---
+
+export interface YamazumiElement {
+  id: string;              // WorkStudyTask.id
+  name: string;
+  activity: ActivityType;
+  time: number;            // Standard time (s)
+}
+
+export interface YamazumiStation {
+  id: string;
+  name: string;
+  operators: number;
+  elements: YamazumiElement[]; // Stacked bottom-up in work order
+}
+
+// Line layout shared by the line Yamazumi, Rearrangement and the Digital Twin
+export interface LineStation {
+  id: string;
+  name: string;
+  operators: number;
+  taskIds: string[];       // WorkStudyTask ids in work order
+}
+
+export interface LineConfig {
+  stations: LineStation[];
+  plannedEfficiency: number; // % of takt a station is planned to be loaded to
+}
+
+// Snapshot of the line Yamazumi, e.g. before a kaizen
+export interface YamazumiBaseline {
+  id: string;
+  name: string;
+  createdAt: number;
+  taktTime: number;
+  stations: YamazumiStation[]; // Elements and standard times as they were
 }
 
 export interface LogisticsEvent {
@@ -116,6 +313,29 @@ export interface SimulationStats {
   histogram?: { range: string, count: number, mid: number }[];
 }
 
+// --- MODULE STATE ---
+// What each analysis module needs to pick up where it left off
+
+export interface RearrangementState {
+  stations: string[][];     // WorkStudyTask ids per station, in work order
+  taktTime: number;
+  laborRate: number;        // $/hr
+  targetEfficiency: number; // %
+}
+
+// Configured part of a Digital Twin station; the run-time fields are not kept
+export type DigitalTwinStation = Pick<StationNode, 'id' | 'name' | 'baseCycleTime' | 'variance' | 'operators' | 'bufferSize'>;
+
+export interface ModuleStates {
+  logisticsEvents?: LogisticsEvent[];
+  multiAxial?: { resources: MultiAxialResource[], events: MultiAxialEvent[] };
+  rearrangement?: RearrangementState;
+  dependencies?: Record<string, string[]>; // Precedence: task id -> ids of its predecessors
+  digitalTwin?: DigitalTwinStation[];
+  ergonomics?: ErgoFrame[];
+  simulation?: SimulationStats | null;
+}
+
 // --- DIGITAL TWIN & SIMULATION TYPES ---
 
 export type StationStatus = 'IDLE' | 'BUSY' | 'BLOCKED' | 'STARVED' | 'DOWN';
@@ -156,6 +376,14 @@ export interface SimulationScenario {
 
 export type AIActionType = 'IDLE' | 'OPERATION' | 'TRANSPORT' | 'SETUP';
 
+export interface ActionSpan {
+  action: AIActionType;
+  startTime: number;
+  endTime: number;
+}
+
+export type ActionTime = Record<AIActionType, number>;
+
 export interface SyncStatus {
   state: 'synced' | 'syncing' | 'offline' | 'error';
   lastSyncedAt: Date;
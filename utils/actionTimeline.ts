@@ -0,0 +1,69 @@
+
+import { AIActionType, ActionSpan, ActionTime, Cycle } from '../types';
+
+// Pose action timeline. Each pose result is a sample that holds until the next
+// one; consecutive samples with the same action merge into one span. A cycle
+// keeps the spans inside its time range plus the time spent in each action.
+
+export const ACTION_TYPES: AIActionType[] = ['OPERATION', 'SETUP', 'TRANSPORT', 'IDLE'];
+
+// Value classification of each pose action
+export const ACTION_VALUE: Record<AIActionType, 'VA' | 'NNVA' | 'NVA'> = {
+  OPERATION: 'VA',
+  SETUP: 'NNVA',
+  TRANSPORT: 'NNVA',
+  IDLE: 'NVA',
+};
+
+const MAX_SAMPLE_GAP = 0.5; // Longer gaps between pose samples (pause, dropped model) are left unattributed
+
+export const appendActionSample = (spans: ActionSpan[], time: number, action: AIActionType) => {
+  const last = spans[spans.length - 1];
+  const contiguous = !!last && time >= last.endTime && time - last.endTime <= MAX_SAMPLE_GAP;
+  if (contiguous) last.endTime = time;
+  if (contiguous && last.action === action) return;
+  spans.push({ action, startTime: time, endTime: time });
+};
+
+export const summarizeActions = (spans: ActionSpan[]): ActionTime => {
+  const totals = { IDLE: 0, OPERATION: 0, TRANSPORT: 0, SETUP: 0 };
+  spans.forEach(s => { totals[s.action] += s.endTime - s.startTime; });
+  return totals;
+};
+
+/**
+ * Spans clipped to [start, end]. The action of the last sample is carried to
+ * `end` when it is recent enough.
+ */
+export const clipActionSpans = (spans: ActionSpan[], start: number, end: number): ActionSpan[] => {
+  const kept = spans
+      .filter(s => s.endTime >= start && s.startTime < end)
+      .map(s => ({ ...s, startTime: Math.max(s.startTime, start), endTime: Math.min(s.endTime, end) }));
+  const last = kept[kept.length - 1];
+  if (last && end - last.endTime <= MAX_SAMPLE_GAP) last.endTime = end;
+  return kept.filter(s => s.endTime > s.startTime);
+};
+
+// Timeline fields of a cycle covering [start, end]; empty when pose saw nothing
+export const actionsForRange = (spans: ActionSpan[] | undefined, start: number, end: number): Pick<Cycle, 'actionSpans' | 'actionTime'> => {
+  const clipped = clipActionSpans(spans || [], start, end);
+  if (clipped.length === 0) return { actionSpans: undefined, actionTime: undefined };
+  return { actionSpans: clipped, actionTime: summarizeActions(clipped) };
+};
+
+export const valueSplit = (actionTime: ActionTime) => {
+  const split = { va: 0, nnva: 0, nva: 0 };
+  ACTION_TYPES.forEach(action => {
+      const key = ACTION_VALUE[action].toLowerCase() as keyof typeof split;
+      split[key] += actionTime[action] || 0;
+  });
+  return split;
+};
+
+// Cycle label from the action that took the most time
+export const labelFromActions = (actionTime: ActionTime | undefined): Cycle['aiLabel'] => {
+  if (!actionTime) return 'Unknown';
+  const top = ACTION_TYPES.reduce((best, a) => (actionTime[a] || 0) > (actionTime[best] || 0) ? a : best, ACTION_TYPES[0]);
+  if (!(actionTime[top] > 0)) return 'Unknown';
+  return top === 'TRANSPORT' ? 'Transport' : top === 'IDLE' ? 'Idle' : 'Operation'; // Setup work counts as operation
+};
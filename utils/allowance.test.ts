@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { AllowanceBreakdown, WorkStudyTask } from '../types';
+import { DEFAULT_ALLOWANCE, allowanceParts, describeAllowance, withAllowance } from './allowance';
+import { elementTime } from './standardTime';
+
+// Standing 2, awkward posture 2, 10 kg 3, high monotony 4
+const breakdown: AllowanceBreakdown = {
+  personal: 5,
+  basicFatigue: 4,
+  factors: { standing: 'yes', posture: 'awkward', weight: '10', monotony: 'high' },
+  delay: 2,
+};
+
+const task: WorkStudyTask = { id: 't', name: 'T', activity: 'Operation', rating: 100, allowance: 0, rounds: [{ ht: 10, wt: 0, mt: 0, total: 10 }] };
+
+describe('allowanceParts', () => {
+  it('is P + basic fatigue + variable ILO factors + D', () => {
+      expect(allowanceParts(breakdown)).toEqual({ personal: 5, fatigue: 4 + 2 + 2 + 3 + 4, delay: 2, total: 22 });
+  });
+
+  it('counts only the constant allowances by default', () => {
+      expect(allowanceParts(DEFAULT_ALLOWANCE)).toEqual({ personal: 5, fatigue: 4, delay: 0, total: 9 });
+  });
+
+  it('ignores unknown factor levels', () => {
+      expect(allowanceParts({ ...DEFAULT_ALLOWANCE, factors: { weight: '99' } }).total).toBe(9);
+  });
+});
+
+describe('withAllowance', () => {
+  it('stores the total as the allowance the standard time uses', () => {
+      const allowed = withAllowance(task, breakdown);
+      expect(allowed.allowance).toBe(22);
+      expect(allowed.allowanceBreakdown).toBe(breakdown);
+      expect(elementTime(allowed).standard).toBeCloseTo(12.2);
+  });
+});
+
+describe('describeAllowance', () => {
+  it('lists the parts and the variable factors that add time', () => {
+      expect(describeAllowance(breakdown)).toBe('P 5% + F 15% (basic 4, standing 2, posture 2, weight 3, monotony 4) + D 2%');
+      expect(describeAllowance(DEFAULT_ALLOWANCE)).toBe('P 5% + F 4% (basic 4) + D 0%');
+  });
+});
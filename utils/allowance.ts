@@ -0,0 +1,79 @@
+
+import { AllowanceBreakdown, IloFactor, WorkStudyTask } from '../types';
+
+// PFD allowance: personal + fatigue (ILO constant basic fatigue plus the
+// variable factors) + delay. The total is written to `task.allowance`, the
+// breakdown travels with the task so reports can show how it was built.
+
+// ILO variable allowance table (Introduction to Work Study), % of normal time
+export const ILO_FACTORS: Record<IloFactor, { label: string, levels: { id: string, label: string, value: number }[] }> = {
+  standing: { label: 'ยืนทำงาน (Standing)', levels: [
+      { id: 'no', label: 'ไม่ใช่ (Sitting)', value: 0 },
+      { id: 'yes', label: 'ยืนตลอด (Standing)', value: 2 },
+  ] },
+  posture: { label: 'ท่าทาง (Posture)', levels: [
+      { id: 'slight', label: 'Slightly awkward', value: 0 },
+      { id: 'awkward', label: 'Awkward (bending)', value: 2 },
+      { id: 'very', label: 'Very awkward (lying, stretching)', value: 7 },
+  ] },
+  weight: { label: 'น้ำหนักที่ยก (Weight lifted)', levels: [
+      { id: '2.5', label: '≤ 2.5 kg', value: 0 },
+      { id: '5', label: '5 kg', value: 1 },
+      { id: '7.5', label: '7.5 kg', value: 2 },
+      { id: '10', label: '10 kg', value: 3 },
+      { id: '12.5', label: '12.5 kg', value: 4 },
+      { id: '15', label: '15 kg', value: 5 },
+      { id: '17.5', label: '17.5 kg', value: 7 },
+      { id: '20', label: '20 kg', value: 9 },
+      { id: '22.5', label: '22.5 kg', value: 11 },
+      { id: '25', label: '25 kg', value: 13 },
+      { id: '30', label: '30 kg', value: 17 },
+      { id: '35.5', label: '35.5 kg', value: 22 },
+  ] },
+  light: { label: 'แสงสว่าง (Light)', levels: [
+      { id: 'slight', label: 'Slightly below recommended', value: 0 },
+      { id: 'well', label: 'Well below', value: 2 },
+      { id: 'inadequate', label: 'Quite inadequate', value: 5 },
+  ] },
+  noise: { label: 'เสียง (Noise)', levels: [
+      { id: 'continuous', label: 'Continuous', value: 0 },
+      { id: 'loud', label: 'Intermittent, loud', value: 2 },
+      { id: 'veryLoud', label: 'Intermittent, very loud', value: 5 },
+      { id: 'highPitched', label: 'High-pitched, loud', value: 5 },
+  ] },
+  mentalStrain: { label: 'ความเครียดทางจิตใจ (Mental strain)', levels: [
+      { id: 'fair', label: 'Fairly complex process', value: 1 },
+      { id: 'complex', label: 'Complex or wide span of attention', value: 4 },
+      { id: 'very', label: 'Very complex', value: 8 },
+  ] },
+  monotony: { label: 'ความซ้ำซาก (Monotony)', levels: [
+      { id: 'low', label: 'Low', value: 0 },
+      { id: 'medium', label: 'Medium', value: 1 },
+      { id: 'high', label: 'High', value: 4 },
+  ] },
+};
+
+export const ILO_FACTOR_KEYS = Object.keys(ILO_FACTORS) as IloFactor[];
+
+export const DEFAULT_ALLOWANCE: AllowanceBreakdown = { personal: 5, basicFatigue: 4, factors: {}, delay: 0 };
+
+const factorValue = (factor: IloFactor, level: string | undefined) =>
+  ILO_FACTORS[factor].levels.find(l => l.id === level)?.value ?? 0;
+
+export const allowanceParts = (b: AllowanceBreakdown): { personal: number, fatigue: number, delay: number, total: number } => {
+  const fatigue = b.basicFatigue + ILO_FACTOR_KEYS.reduce((acc, f) => acc + factorValue(f, b.factors[f]), 0);
+  return { personal: b.personal, fatigue, delay: b.delay, total: b.personal + fatigue + b.delay };
+};
+
+// Stores the breakdown on the task with its total as the allowance in use
+export const withAllowance = (task: WorkStudyTask, breakdown: AllowanceBreakdown): WorkStudyTask =>
+  ({ ...task, allowanceBreakdown: breakdown, allowance: allowanceParts(breakdown).total });
+
+// One line for reports and tooltips
+export const describeAllowance = (b: AllowanceBreakdown): string => {
+  const parts = allowanceParts(b);
+  const variable = ILO_FACTOR_KEYS
+      .filter(f => factorValue(f, b.factors[f]) > 0)
+      .map(f => `${f} ${factorValue(f, b.factors[f])}`);
+  return `P ${parts.personal}% + F ${parts.fatigue}% (basic ${b.basicFatigue}${variable.length ? `, ${variable.join(', ')}` : ''}) + D ${parts.delay}%`;
+};
@@ -0,0 +1,209 @@
+
+import { Cycle, CycleSegment, CycleStepHit, SignalTrace, TriggerStep } from '../types';
+
+export interface DetectorConfig {
+  highThreshold: number;
+  lowThreshold: number;
+  taktTime: number;
+  minCycleTime: number;
+  cooldown: number;
+}
+
+export interface DetectorState {
+  phase: 'IDLE' | 'TRIGGERED' | 'COOLDOWN';
+  zoneActive: boolean[]; // Hysteresis state per trigger step
+  nextStep: number;      // Index of the step expected next in the sequence
+  cycleStart: number;
+  cooldownUntil: number;
+  hits: CycleStepHit[];
+  abnormal: boolean;
+}
+
+export type DetectorEvent =
+  | { type: 'hit'; stepIndex: number; time: number; inOrder: boolean }
+  | { type: 'start'; time: number }
+  | { type: 'complete'; cycle: Omit<Cycle, 'id' | 'aiLabel'> }
+  | { type: 'rejected'; time: number; duration: number; hits: CycleStepHit[] }; // Too short: a false trigger
+
+/**
+ * Hysteresis thresholds derived from the sensitivity slider (1-10).
+ */
+export const thresholdsFromSensitivity = (sensitivity: number) => {
+  const high = Math.max(0.01, 0.35 - (sensitivity * 0.02));
+  return { high, low: high * 0.6 };
+};
+
+/**
+ * Splits a cycle into elements: each in-order zone hit starts an element that
+ * runs until the next in-order hit (the last one runs until the cycle end).
+ */
+export const buildCycleSegments = (hits: CycleStepHit[], endTime: number, steps: TriggerStep[]): CycleSegment[] => {
+  const ordered = hits.filter(h => h.inOrder);
+  return ordered.map((hit, i) => {
+      const segEnd = i + 1 < ordered.length ? ordered[i + 1].time : endTime;
+      const step = steps.find(s => s.id === hit.stepId);
+      return {
+          stepId: hit.stepId,
+          name: hit.name,
+          startTime: hit.time,
+          endTime: segEnd,
+          duration: segEnd - hit.time,
+          activity: step?.activity || 'Operation',
+          elementIndex: i,
+      };
+  });
+};
+
+export const createDetectorState = (stepCount: number): DetectorState => ({
+  phase: 'IDLE',
+  zoneActive: Array(stepCount).fill(false),
+  nextStep: 0,
+  cycleStart: 0,
+  cooldownUntil: 0,
+  hits: [],
+  abnormal: false,
+});
+
+/**
+ * Advances the sequential trigger state machine by one frame.
+ * `scores` holds the smoothed change score of each trigger step, in step order.
+ * A cycle starts when step 1 is entered, expects steps 2..N in order and closes
+ * when step N is released. Hits out of sequence mark the cycle as abnormal;
+ * re-entering step 1 mid-sequence closes the partial cycle as abnormal.
+ */
+export const stepDetector = (
+  prev: DetectorState,
+  scores: number[],
+  timestamp: number,
+  steps: TriggerStep[],
+  config: DetectorConfig
+): { state: DetectorState; events: DetectorEvent[] } => {
+  const state: DetectorState = { ...prev, zoneActive: [...prev.zoneActive], hits: [...prev.hits] };
+  const events: DetectorEvent[] = [];
+  const stepCount = steps.length;
+  if (stepCount === 0) return { state, events };
+
+  // 1. Per-zone hysteresis (entry above high, release below low)
+  const rising: number[] = [];
+  steps.forEach((_, i) => {
+      const score = scores[i] || 0;
+      if (!state.zoneActive[i] && score > config.highThreshold) {
+          state.zoneActive[i] = true;
+          rising.push(i);
+      } else if (state.zoneActive[i] && score < config.lowThreshold) {
+          state.zoneActive[i] = false;
+      }
+  });
+
+  const recordHit = (stepIndex: number, inOrder: boolean) => {
+      const step = steps[stepIndex];
+      state.hits.push({ stepId: step.id, name: step.name, time: timestamp, inOrder });
+      events.push({ type: 'hit', stepIndex, time: timestamp, inOrder });
+  };
+
+  const startCycle = () => {
+      state.phase = 'TRIGGERED';
+      state.cycleStart = timestamp;
+      state.hits = [];
+      state.abnormal = false;
+      state.nextStep = 1;
+      recordHit(0, true);
+      events.push({ type: 'start', time: timestamp });
+  };
+
+  const closeCycle = (forceAbnormal: boolean) => {
+      const duration = timestamp - state.cycleStart;
+      if (duration > config.minCycleTime) {
+          let status: Cycle['status'] = 'ok';
+          if (state.abnormal || forceAbnormal) status = 'abnormal';
+          else if (duration > config.taktTime) status = 'over';
+          events.push({
+              type: 'complete',
+              cycle: {
+                  startTime: state.cycleStart,
+                  endTime: timestamp,
+                  duration,
+                  status,
+                  stepHits: state.hits,
+                  segments: buildCycleSegments(state.hits, timestamp, steps)
+              }
+          });
+          return true;
+      }
+      events.push({ type: 'rejected', time: timestamp, duration, hits: state.hits });
+      return false;
+  };
+
+  // 2. Sequence logic
+  if (state.phase === 'COOLDOWN') {
+      if (timestamp <= state.cooldownUntil) return { state, events };
+      state.phase = 'IDLE';
+  }
+
+  if (state.phase === 'IDLE') {
+      if (state.zoneActive[0]) startCycle();
+      return { state, events };
+  }
+
+  for (const i of rising) {
+      if (i === state.nextStep) {
+          recordHit(i, true);
+          state.nextStep++;
+      } else if (i === 0) {
+          // Sequence restarted before it was finished: log the partial cycle
+          closeCycle(state.nextStep < stepCount);
+          startCycle();
+      } else {
+          recordHit(i, false);
+          state.abnormal = true;
+      }
+  }
+
+  if (state.nextStep >= stepCount && !state.zoneActive[stepCount - 1]) {
+      if (closeCycle(false)) {
+          state.phase = 'COOLDOWN';
+          state.cooldownUntil = timestamp + config.cooldown;
+      } else {
+          state.phase = 'IDLE';
+      }
+  }
+
+  return { state, events };
+};
+
+/**
+ * Adds one false trigger to every zone hit during a rejected (too short) sequence.
+ */
+export const countFalseTriggers = (counts: number[], hits: CycleStepHit[], steps: TriggerStep[]) => {
+  new Set(hits.map(h => h.stepId)).forEach(id => {
+      const idx = steps.findIndex(s => s.id === id);
+      if (idx >= 0) counts[idx]++;
+  });
+};
+
+/**
+ * Re-runs the detector over a recorded trace, e.g. after the thresholds were
+ * changed. Returns null when the trace was recorded for a different zone set.
+ */
+export const replayTrace = (
+  trace: SignalTrace,
+  steps: TriggerStep[],
+  config: DetectorConfig
+): { cycles: Omit<Cycle, 'id' | 'aiLabel'>[]; hitsPerStep: number[]; falseTriggersPerStep: number[] } | null => {
+  if (trace.stepIds.length !== steps.length || trace.stepIds.some((id, i) => steps[i].id !== id)) return null;
+
+  let state = createDetectorState(steps.length);
+  const cycles: Omit<Cycle, 'id' | 'aiLabel'>[] = [];
+  const hitsPerStep: number[] = steps.map(() => 0);
+  const falseTriggersPerStep: number[] = steps.map(() => 0);
+  trace.samples.forEach(sample => {
+      const result = stepDetector(state, sample.smooth, sample.time, steps, config);
+      state = result.state;
+      result.events.forEach(event => {
+          if (event.type === 'hit') hitsPerStep[event.stepIndex]++;
+          else if (event.type === 'complete') cycles.push(event.cycle);
+          else if (event.type === 'rejected') countFalseTriggers(falseTriggersPerStep, event.hits, steps);
+      });
+  });
+  return { cycles, hitsPerStep, falseTriggersPerStep };
+};
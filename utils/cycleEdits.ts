@@ -0,0 +1,96 @@
+
+import { Cycle, CycleSegment } from '../types';
+import { actionsForRange, summarizeActions } from './actionTimeline';
+
+// Reviewer corrections on detected cycles. Every edit returns new cycles marked
+// as verified; segments, hits and the pose action timeline are cut to the new
+// time span so the mapped Work Study rounds can be rebuilt from them.
+
+const MIN_SPAN = 0.1; // Shortest cycle/segment an edit may produce (s)
+
+const statusFor = (duration: number, taktTime: number, wasAbnormal: boolean): Cycle['status'] => {
+  if (wasAbnormal) return 'abnormal';
+  return duration > taktTime ? 'over' : 'ok';
+};
+
+// Clips segments to [start, end]; the first and last segment are stretched to the bounds
+const clipSegments = (segments: CycleSegment[] | undefined, start: number, end: number): CycleSegment[] | undefined => {
+  if (!segments) return undefined;
+  const kept = segments
+      .filter(s => s.endTime > start && s.startTime < end)
+      .map(s => ({ ...s, startTime: Math.max(s.startTime, start), endTime: Math.min(s.endTime, end) }));
+  if (kept.length > 0) {
+      kept[0].startTime = start;
+      kept[kept.length - 1].endTime = end;
+  }
+  return kept
+      .map(s => ({ ...s, duration: s.endTime - s.startTime }))
+      .filter(s => s.duration > 0);
+};
+
+export const retimeCycle = (cycle: Cycle, startTime: number, endTime: number, taktTime: number): Cycle => {
+  const end = Math.max(endTime, startTime + MIN_SPAN);
+  const duration = end - startTime;
+  return {
+      ...cycle,
+      startTime,
+      endTime: end,
+      duration,
+      status: statusFor(duration, taktTime, cycle.status === 'abnormal'),
+      stepHits: cycle.stepHits?.filter(h => h.time >= startTime && h.time <= end),
+      segments: clipSegments(cycle.segments, startTime, end),
+      ...(cycle.actionSpans ? actionsForRange(cycle.actionSpans, startTime, end) : {}),
+      verified: true,
+  };
+};
+
+/**
+ * Cuts a cycle in two at `time`. The second part gets `newId`; an element
+ * running across the cut is split between both parts.
+ */
+export const splitCycle = (cycle: Cycle, time: number, taktTime: number, newId: number): [Cycle, Cycle] | null => {
+  if (time - cycle.startTime < MIN_SPAN || cycle.endTime - time < MIN_SPAN) return null;
+  const first = retimeCycle(cycle, cycle.startTime, time, taktTime);
+  const second = retimeCycle({ ...cycle, id: newId, thumbnail: undefined }, time, cycle.endTime, taktTime);
+  return [first, second];
+};
+
+/**
+ * Joins two cycles (in time order) into one that keeps the first id. The gap
+ * between them is added to the first cycle's last element; an element split
+ * earlier is joined back together.
+ */
+export const mergeCycles = (a: Cycle, b: Cycle, taktTime: number): Cycle => {
+  const [first, second] = a.startTime <= b.startTime ? [a, b] : [b, a];
+  const endTime = Math.max(first.endTime, second.endTime);
+  const duration = endTime - first.startTime;
+
+  let segments: CycleSegment[] | undefined;
+  if (first.segments || second.segments) {
+      const head = (first.segments || []).map(s => ({ ...s }));
+      const tail = (second.segments || []).map(s => ({ ...s }));
+      const last = head[head.length - 1];
+      if (last) last.endTime = second.startTime;
+      if (last && tail[0] && tail[0].elementIndex === last.elementIndex) {
+          last.endTime = tail[0].endTime;
+          tail.shift();
+      }
+      segments = [...head, ...tail].map(s => ({ ...s, duration: s.endTime - s.startTime }));
+  }
+
+  const actionSpans = first.actionSpans || second.actionSpans
+      ? [...(first.actionSpans || []), ...(second.actionSpans || [])]
+      : undefined;
+
+  return {
+      ...first,
+      endTime,
+      duration,
+      status: statusFor(duration, taktTime, first.status === 'abnormal' || second.status === 'abnormal'),
+      stepHits: [...(first.stepHits || []), ...(second.stepHits || [])],
+      segments,
+      actionSpans,
+      actionTime: actionSpans ? summarizeActions(actionSpans) : undefined,
+      verified: true,
+  };
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { Cycle, CycleSegment, WorkStudyTask } from '../types';
+import { applyCycleToTasks, removeCyclesFromTasks } from './cycleMapping';
+import { roundCycleTime } from './standardTime';
+
+const segment = (elementIndex: number, startTime: number, duration: number): CycleSegment => ({
+  stepId: `s${elementIndex}`,
+  name: `Element ${elementIndex + 1}`,
+  startTime,
+  endTime: startTime + duration,
+  duration,
+  activity: 'Operation',
+  elementIndex,
+});
+
+const cycle = (id: number, segments: CycleSegment[]): Cycle => ({
+  id,
+  startTime: segments[0].startTime,
+  endTime: segments[segments.length - 1].endTime,
+  duration: segments.reduce((acc, s) => acc + s.duration, 0),
+  status: 'ok',
+  segments,
+});
+
+const apply = (tasks: WorkStudyTask[], cycles: Cycle[]) => cycles.reduce((acc, c) => applyCycleToTasks(acc, c, 0), tasks);
+
+describe('applyCycleToTasks', () => {
+  it('keeps one round index per cycle when a segment is missing', () => {
+    const tasks = apply([], [
+      cycle(1, [segment(0, 0, 1), segment(1, 1, 2), segment(2, 3, 3)]),
+      cycle(2, [segment(0, 10, 1.5), segment(2, 13, 3.5)]), // No segment for element 2
+      cycle(3, [segment(0, 20, 1), segment(1, 21, 2), segment(2, 23, 3)]),
+    ]);
+
+    expect(tasks).toHaveLength(3);
+    expect(tasks.map(t => t.rounds.map(r => r?.cycleId ?? null))).toEqual([
+      [1, 2, 3],
+      [1, null, 3],
+      [1, 2, 3],
+    ]);
+
+    // Cycle 2 sums its own segments only, not element 2 of cycle 3
+    const round = roundCycleTime(tasks, 1)!;
+    expect(round.observed).toBe(5);
+    expect(roundCycleTime(tasks, 2)!.observed).toBe(6);
+  });
+
+  it('starts detected cycles after manually timed rounds', () => {
+    const manual: WorkStudyTask[] = [
+      { id: 'a', name: 'A', rounds: [{ ht: 4, wt: 0, mt: 0, total: 4 }, { ht: 5, wt: 0, mt: 0, total: 5 }], activity: 'Operation', rating: 100, allowance: 0 },
+      { id: 'b', name: 'B', rounds: [], activity: 'Operation', rating: 100, allowance: 0 },
+    ];
+    const tasks = apply(manual, [cycle(7, [segment(0, 0, 1), segment(1, 1, 2)])]);
+
+    expect(tasks[0].rounds.map(r => r?.total)).toEqual([4, 5, 1]);
+    expect(tasks[1].rounds).toEqual([null, null, expect.objectContaining({ cycleId: 7, total: 2 })]);
+  });
+
+  it('keeps every cycle, beyond 20 rounds', () => {
+    const cycles = Array.from({ length: 30 }, (_, i) => cycle(100 + i, [segment(0, i * 10, 1)]));
+    expect(apply([], cycles)[0].rounds).toHaveLength(30);
+  });
+
+  it('rewrites a cycle in its own round', () => {
+    const tasks = apply([], [cycle(1, [segment(0, 0, 1), segment(1, 1, 2)]), cycle(2, [segment(0, 10, 1), segment(1, 11, 2)])]);
+    const rewritten = applyCycleToTasks(tasks, cycle(1, [segment(0, 0, 1.2)]), 0);
+
+    expect(rewritten[0].rounds.map(r => r?.total)).toEqual([1.2, 1]);
+    expect(rewritten[1].rounds.map(r => r?.cycleId ?? null)).toEqual([null, 2]);
+  });
+});
+
+describe('removeCyclesFromTasks', () => {
+  it('drops emptied rounds from every task alike and keeps manual rounds', () => {
+    const cycles = [cycle(1, [segment(0, 0, 1), segment(1, 1, 2)]), cycle(2, [segment(0, 10, 1)])];
+    const tasks = apply([], cycles);
+    tasks[1] = { ...tasks[1], rounds: [...tasks[1].rounds, null, { ht: 9, wt: 0, mt: 0, total: 9 }] };
+
+    const replaced = apply(removeCyclesFromTasks(tasks, cycles), [cycle(3, [segment(0, 0, 1), segment(1, 1, 2)])]);
+
+    expect(replaced[0].rounds.map(r => r?.cycleId ?? null)).toEqual([null, 3]);
+    expect(replaced[1].rounds.map(r => r?.cycleId ?? r?.total ?? null)).toEqual([9, 3]);
+  });
+});
@@ -0,0 +1,99 @@
+
+import { Cycle, WorkStudyRound, WorkStudyTask } from '../types';
+
+// Rounds written from detected cycles are columns of the table: a cycle owns
+// one round index across every task it maps to, elements it has no segment
+// for keep a null placeholder there, so round k of every element belongs to
+// the same cycle.
+
+const roundOfCycle = (tasks: WorkStudyTask[], cycleId: number) => {
+  for (const task of tasks) {
+      const index = task.rounds.findIndex(r => r?.cycleId === cycleId);
+      if (index !== -1) return index;
+  }
+  return -1;
+};
+
+const setRound = (rounds: WorkStudyTask['rounds'], index: number, round: WorkStudyRound | null) => {
+  const next = [...rounds];
+  while (next.length < index) next.push(null);
+  next[index] = round;
+  return next;
+};
+
+/**
+ * Writes a detected cycle into the Work Study table. Each element segment fills
+ * the cycle's round of the task at `firstTaskIndex + elementIndex`; missing
+ * tasks are created from the segment name. Cycles without segments fill a
+ * single task. A cycle already in the table is rewritten in its own round,
+ * a new one takes the first round after every existing round.
+ */
+export const applyCycleToTasks = (tasks: WorkStudyTask[], cycle: Cycle, firstTaskIndex: number): WorkStudyTask[] => {
+  const segments = cycle.segments && cycle.segments.length > 0
+      ? cycle.segments
+      : [{ name: '', startTime: cycle.startTime, endTime: cycle.endTime, duration: cycle.duration, activity: undefined, elementIndex: 0 }];
+
+  const existing = roundOfCycle(tasks, cycle.id);
+  const roundIndex = existing !== -1 ? existing : Math.max(0, ...tasks.map(t => t.rounds.length));
+
+  // Rewriting: clear the cycle's old round first, segments may have changed
+  const newTasks = existing === -1 ? [...tasks] : tasks.map(t => t.rounds[roundIndex]?.cycleId === cycle.id ? { ...t, rounds: setRound(t.rounds, roundIndex, null) } : t);
+  segments.forEach((segment, i) => {
+      const taskIndex = firstTaskIndex + (segment.elementIndex ?? i);
+      if (taskIndex > newTasks.length) return;
+      const task: WorkStudyTask = newTasks[taskIndex]
+          ? { ...newTasks[taskIndex] }
+          : { id: crypto.randomUUID(), name: segment.name || `Element ${taskIndex + 1}`, rounds: [], activity: segment.activity || 'Operation', rating: 100, allowance: 10 };
+
+      const newRound: WorkStudyRound = {
+          ht: segment.duration,
+          wt: 0,
+          mt: 0,
+          total: segment.duration,
+          startTime: segment.startTime,
+          endTime: segment.endTime,
+          cycleId: cycle.id,
+          verified: !!cycle.verified
+      };
+      task.rounds = setRound(task.rounds, roundIndex, newRound);
+      newTasks[taskIndex] = task;
+  });
+  return newTasks;
+};
+
+/**
+ * Removes the rounds a set of cycles wrote into the table (by cycle id, or by
+ * segment start/end times for older rounds), so the cycles can be replaced.
+ */
+export const removeCyclesFromTasks = (tasks: WorkStudyTask[], cycles: Cycle[]): WorkStudyTask[] => {
+  const ids = new Set(cycles.map(c => c.id));
+  const spans = new Set<string>();
+  cycles.forEach(cycle => {
+      const segments = cycle.segments && cycle.segments.length > 0 ? cycle.segments : [cycle];
+      segments.forEach(s => spans.add(`${s.startTime}-${s.endTime}`));
+  });
+  if (ids.size === 0) return tasks;
+
+  const fromCycle = (r: WorkStudyRound) => r.cycleId !== undefined
+      ? ids.has(r.cycleId)
+      : r.startTime !== undefined && spans.has(`${r.startTime}-${r.endTime}`);
+
+  // Cleared rounds become placeholders; a round left empty in every task is
+  // then dropped from all tasks alike, which keeps the others aligned
+  const cleared = new Set<number>();
+  const next = tasks.map(task => {
+      let changed = false;
+      const rounds = task.rounds.map((r, i) => {
+          if (!r || !fromCycle(r)) return r;
+          cleared.add(i);
+          changed = true;
+          return null;
+      });
+      return changed ? { ...task, rounds } : task;
+  });
+  const dropped = new Set([...cleared].filter(i => next.every(t => !t.rounds[i])));
+  if (dropped.size === 0) return next;
+  return next.map(task => task.rounds.some((_, i) => dropped.has(i))
+      ? { ...task, rounds: task.rounds.filter((_, i) => !dropped.has(i)) }
+      : task);
+};
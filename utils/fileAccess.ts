@@ -0,0 +1,25 @@
+
+// File System Access helpers shared by the recorder and the project video store
+
+// Helper to verify permission with better error handling
+export async function verifyPermission(fileHandle: FileSystemHandle, readWrite: boolean) {
+  const options = { mode: readWrite ? 'readwrite' as const : 'read' as const };
+  
+  try {
+      // Check if permission was already granted
+      // @ts-ignore - queryPermission is experimental
+      if ((await fileHandle.queryPermission(options)) === 'granted') {
+        return true;
+      }
+      
+      // Request permission (requires user gesture if not already granted)
+      // @ts-ignore - requestPermission is experimental
+      if ((await fileHandle.requestPermission(options)) === 'granted') {
+        return true;
+      }
+  } catch (err) {
+      console.error("Permission check failed:", err);
+  }
+  
+  return false;
+}
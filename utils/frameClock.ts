@@ -0,0 +1,124 @@
+
+// Frame-accurate media timing. `requestVideoFrameCallback` reports the media
+// timestamp of every presented frame; from it we track the current frame time
+// and detect the real frame rate instead of assuming 30 fps.
+
+export const DEFAULT_FPS = 30;
+
+// Broadcast rates; a measured rate within 1.5% snaps to one of these
+const COMMON_RATES = [24000 / 1001, 24, 25, 30000 / 1001, 30, 48, 50, 60000 / 1001, 60, 120];
+const SAMPLE_WINDOW = 30; // Frame intervals kept for the rate estimate
+
+export interface FrameClock {
+  readonly mediaTime: number;  // Timestamp of the frame on screen
+  readonly fps: number;        // Detected (or default) frame rate
+  readonly detected: boolean;  // False until enough frames were seen
+  dispose: () => void;
+}
+
+const hasFrameCallbacks = (video: HTMLVideoElement) => typeof (video as any).requestVideoFrameCallback === 'function';
+
+export const normalizeFrameRate = (measured: number): number => {
+  const nearest = COMMON_RATES.reduce((best, r) => Math.abs(r - measured) < Math.abs(best - measured) ? r : best, COMMON_RATES[0]);
+  return Math.abs(nearest - measured) / nearest < 0.015 ? nearest : Math.round(measured * 100) / 100;
+};
+
+// Index of the frame on screen at `time` (the last frame starting at or before it)
+export const frameIndexAt = (time: number, fps: number): number => Math.floor(time * fps + 1e-3);
+
+export const snapToFrame = (time: number, fps: number): number => frameIndexAt(time, fps) / fps;
+
+/**
+ * Seeks to the middle of a frame so rounding in the decoder can't land on the
+ * neighbouring one. Returns the (frame-start) time of the target frame.
+ */
+export const seekToFrame = (video: HTMLVideoElement, frameIndex: number, fps: number): number => {
+  const lastFrame = Number.isFinite(video.duration) ? Math.max(0, Math.floor(video.duration * fps) - 1) : Infinity;
+  const index = Math.min(Math.max(0, frameIndex), lastFrame);
+  video.currentTime = (index + 0.5) / fps;
+  return index / fps;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Follows the frames presented by `video`. Falls back to `currentTime` and
+ * DEFAULT_FPS on browsers without requestVideoFrameCallback.
+ */
+export const createFrameClock = (video: HTMLVideoElement, onFrame?: (mediaTime: number, fps: number) => void): FrameClock => {
+  let mediaTime = video.currentTime;
+  let fps = DEFAULT_FPS;
+  let detected = false;
+  let handle = 0;
+  let disposed = false;
+  let last: { mediaTime: number, presentedFrames: number } | null = null;
+  const intervals: number[] = [];
+
+  const supported = hasFrameCallbacks(video);
+  const onVideoFrame = (_now: number, metadata: any) => {
+      if (disposed) return;
+      mediaTime = metadata.mediaTime;
+      // Only consecutive frames (no seek, no dropped frame) give a clean interval
+      if (last && metadata.presentedFrames - last.presentedFrames === 1) {
+          const delta = metadata.mediaTime - last.mediaTime;
+          if (delta > 0 && delta < 0.5) {
+              intervals.push(delta);
+              if (intervals.length > SAMPLE_WINDOW) intervals.shift();
+              if (intervals.length >= 5) {
+                  fps = normalizeFrameRate(1 / median(intervals));
+                  detected = true;
+              }
+          }
+      }
+      last = { mediaTime: metadata.mediaTime, presentedFrames: metadata.presentedFrames };
+      onFrame?.(mediaTime, fps);
+      handle = (video as any).requestVideoFrameCallback(onVideoFrame);
+  };
+  if (supported) handle = (video as any).requestVideoFrameCallback(onVideoFrame);
+
+  return {
+      get mediaTime() { return supported ? mediaTime : video.currentTime; },
+      get fps() { return fps; },
+      get detected() { return detected; },
+      dispose() {
+          disposed = true;
+          if (supported) (video as any).cancelVideoFrameCallback(handle);
+      },
+  };
+};
+
+/**
+ * Plays `video` muted for a few frames to detect its frame rate, then restores
+ * the position. Resolves null when frame callbacks are unavailable.
+ */
+export const measureFrameRate = async (video: HTMLVideoElement, frames: number = 12): Promise<number | null> => {
+  if (!hasFrameCallbacks(video)) return null;
+  const restoreTime = video.currentTime;
+  const wasMuted = video.muted;
+  video.muted = true;
+
+  const fps = await new Promise<number | null>(resolve => {
+      let result: number | null = null;
+      let done = false;
+      const clock = createFrameClock(video, (_t, rate) => {
+          if (clock.detected && --frames <= 0) { result = rate; finish(); }
+      });
+      const timeout = setTimeout(() => finish(), 3000);
+      function finish() {
+          if (done) return;
+          done = true;
+          clearTimeout(timeout);
+          clock.dispose();
+          video.pause();
+          resolve(result);
+      }
+      video.play().catch(() => finish());
+  });
+
+  video.currentTime = restoreTime;
+  video.muted = wasMuted;
+  return fps;
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { HistorySnapshot, WorkStudyTask } from '../types';
+import { MAX_HISTORY_ENTRIES, diffSnapshots, emptyHistory, packHistory, pushEntry, redoStep, undoStep, unpackHistory } from './history';
+
+const THUMB = 'data:image/jpeg;base64,AAAA';
+
+const snapshot = (patch: Partial<HistorySnapshot> = {}): HistorySnapshot => ({
+  cycles: [], taktTime: 10, sensitivity: 6, refRect: null, triggerSteps: [], workStudyTasks: [], thresholds: null, line: null,
+  ...patch,
+});
+
+const task = (id: string, thumbnail?: string): WorkStudyTask => ({ id, name: id, rounds: [], activity: 'Operation', rating: 100, allowance: 10, thumbnail });
+
+describe('diffSnapshots', () => {
+  it('records only the fields that were replaced', () => {
+      const prev = snapshot();
+      const next = { ...prev, taktTime: 12, workStudyTasks: [task('a')] };
+      const entry = diffSnapshots(prev, next)!;
+
+      expect(entry.before).toEqual({ taktTime: 10, workStudyTasks: [] });
+      expect(entry.after).toEqual({ taktTime: 12, workStudyTasks: [task('a')] });
+      expect(entry.label).toBe('Edit Takt Time, Work Study');
+  });
+
+  it('returns null when nothing changed', () => {
+      const prev = snapshot();
+      expect(diffSnapshots(prev, { ...prev })).toBeNull();
+  });
+});
+
+describe('undo and redo', () => {
+  it('steps back and forth over the entries', () => {
+      const a = snapshot();
+      const b = { ...a, taktTime: 11 };
+      const c = { ...b, sensitivity: 8 };
+      const history = pushEntry(pushEntry(emptyHistory(), diffSnapshots(a, b)!), diffSnapshots(b, c)!);
+
+      const undone = undoStep(history)!;
+      expect(undone.patch).toEqual({ sensitivity: 6 });
+      expect(undoStep(undone.history)!.patch).toEqual({ taktTime: 10 });
+      expect(redoStep(undone.history)!.patch).toEqual({ sensitivity: 8 });
+      expect(redoStep(history)).toBeNull();
+      expect(undoStep(emptyHistory())).toBeNull();
+  });
+
+  it('drops the redo branch on a new edit', () => {
+      const a = snapshot();
+      const history = pushEntry(emptyHistory(), diffSnapshots(a, { ...a, taktTime: 11 })!);
+      const branched = pushEntry(undoStep(history)!.history, diffSnapshots(a, { ...a, taktTime: 9 })!);
+
+      expect(branched.entries).toHaveLength(1);
+      expect(branched.entries[0].after).toEqual({ taktTime: 9 });
+      expect(redoStep(branched)).toBeNull();
+  });
+
+  it(`keeps the newest ${MAX_HISTORY_ENTRIES} entries`, () => {
+      const base = snapshot();
+      let history = emptyHistory();
+      for (let i = 0; i < MAX_HISTORY_ENTRIES + 5; i++) history = pushEntry(history, diffSnapshots({ ...base, taktTime: i }, { ...base, taktTime: i + 1 })!);
+
+      expect(history.entries).toHaveLength(MAX_HISTORY_ENTRIES);
+      expect(history.index).toBe(MAX_HISTORY_ENTRIES);
+      expect(history.entries[0].before).toEqual({ taktTime: 5 });
+  });
+});
+
+describe('packHistory / unpackHistory', () => {
+  it('stores each thumbnail once and restores the entries', () => {
+      const a = snapshot({ workStudyTasks: [task('a', THUMB)] });
+      const b = { ...a, workStudyTasks: [task('a', THUMB), task('b', THUMB)] };
+      const c = { ...b, cycles: [{ id: 1, startTime: 0, endTime: 1, duration: 1, status: 'ok' as const, thumbnail: THUMB }] };
+      const history = pushEntry(pushEntry(emptyHistory(), diffSnapshots(a, b)!), diffSnapshots(b, c)!);
+
+      const packed = packHistory(history);
+      expect(packed.images).toEqual([THUMB]);
+      expect(JSON.stringify(packed.entries)).not.toContain(THUMB);
+      expect(unpackHistory(JSON.parse(JSON.stringify(packed)))).toEqual(history);
+  });
+
+  it('starts empty from missing or broken storage', () => {
+      expect(unpackHistory(null)).toEqual(emptyHistory());
+      expect(unpackHistory({ entries: [], index: 7, images: [] })).toEqual({ entries: [], index: 0 });
+  });
+});
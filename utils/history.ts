@@ -0,0 +1,93 @@
+
+import { HistoryEntry, HistorySnapshot, ProjectHistory } from '../types';
+
+// Project-wide undo/redo. An entry is recorded by comparing the tracked fields
+// with the last recorded state; React state is immutable, so a field that was
+// not replaced is unchanged and comparing references is enough.
+
+export const HISTORY_FIELDS: (keyof HistorySnapshot)[] = ['cycles', 'taktTime', 'sensitivity', 'refRect', 'triggerSteps', 'workStudyTasks', 'thresholds', 'line'];
+export const MAX_HISTORY_ENTRIES = 100;
+
+const FIELD_LABELS: Record<keyof HistorySnapshot, string> = {
+  cycles: 'Cycles',
+  taktTime: 'Takt Time',
+  sensitivity: 'Sensitivity',
+  refRect: 'Anchor',
+  triggerSteps: 'Trigger Zones',
+  workStudyTasks: 'Work Study',
+  thresholds: 'Thresholds',
+  line: 'Line Balance',
+};
+
+export const emptyHistory = (): ProjectHistory => ({ entries: [], index: 0 });
+
+export const diffSnapshots = (prev: HistorySnapshot, next: HistorySnapshot): HistoryEntry | null => {
+  const changed = HISTORY_FIELDS.filter(f => prev[f] !== next[f]);
+  if (changed.length === 0) return null;
+  const before: Partial<HistorySnapshot> = {};
+  const after: Partial<HistorySnapshot> = {};
+  const copy = <K extends keyof HistorySnapshot>(f: K) => {
+      before[f] = prev[f];
+      after[f] = next[f];
+  };
+  changed.forEach(copy);
+  return { at: Date.now(), label: `Edit ${changed.map(f => FIELD_LABELS[f]).join(', ')}`, before, after };
+};
+
+// Drops the redo branch, then keeps the newest MAX_HISTORY_ENTRIES
+export const pushEntry = (history: ProjectHistory, entry: HistoryEntry): ProjectHistory => {
+  const entries = [...history.entries.slice(0, history.index), entry].slice(-MAX_HISTORY_ENTRIES);
+  return { entries, index: entries.length };
+};
+
+// Both return the fields to put back, or null when there is nothing to step over
+export const undoStep = (history: ProjectHistory): { history: ProjectHistory, patch: Partial<HistorySnapshot>, label: string } | null => {
+  const entry = history.entries[history.index - 1];
+  if (!entry) return null;
+  return { history: { ...history, index: history.index - 1 }, patch: entry.before, label: entry.label };
+};
+
+export const redoStep = (history: ProjectHistory): { history: ProjectHistory, patch: Partial<HistorySnapshot>, label: string } | null => {
+  const entry = history.entries[history.index];
+  if (!entry) return null;
+  return { history: { ...history, index: history.index + 1 }, patch: entry.after, label: entry.label };
+};
+
+// --- STORAGE ---
+// The same thumbnail appears in every entry that touched its list, so the
+// stored form keeps each image once in a pool and refers to it by index.
+
+export interface StoredHistory extends ProjectHistory {
+  images: string[];
+}
+
+const POOL_PREFIX = 'pool:';
+
+const mapThumbnails = (side: Partial<HistorySnapshot>, map: (url: string) => string | undefined): Partial<HistorySnapshot> => ({
+  ...side,
+  ...(side.cycles && { cycles: side.cycles.map(c => c.thumbnail ? { ...c, thumbnail: map(c.thumbnail) } : c) }),
+  ...(side.workStudyTasks && { workStudyTasks: side.workStudyTasks.map(t => t.thumbnail ? { ...t, thumbnail: map(t.thumbnail) } : t) }),
+});
+
+export const packHistory = (history: ProjectHistory): StoredHistory => {
+  const images: string[] = [];
+  const pool = new Map<string, number>();
+  const toRef = (url: string) => {
+      let i = pool.get(url);
+      if (i === undefined) {
+          i = images.push(url) - 1;
+          pool.set(url, i);
+      }
+      return POOL_PREFIX + i;
+  };
+  const entries = history.entries.map(e => ({ ...e, before: mapThumbnails(e.before, toRef), after: mapThumbnails(e.after, toRef) }));
+  return { entries, index: history.index, images };
+};
+
+export const unpackHistory = (stored: StoredHistory | null | undefined): ProjectHistory => {
+  if (!stored || !Array.isArray(stored.entries)) return emptyHistory();
+  const images = stored.images || [];
+  const fromRef = (ref: string) => ref.startsWith(POOL_PREFIX) ? images[Number(ref.slice(POOL_PREFIX.length))] : ref;
+  const entries = stored.entries.map(e => ({ ...e, before: mapThumbnails(e.before, fromRef), after: mapThumbnails(e.after, fromRef) }));
+  return { entries, index: Math.max(0, Math.min(stored.index, entries.length)) };
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { WorkStudyTask } from '../types';
+import { flagOutliers } from './outliers';
+
+const task = (totals: number[]): WorkStudyTask => ({
+  id: 't', name: 'T', activity: 'Operation', rating: 100, allowance: 0, outlierRule: 'sigma2',
+  rounds: totals.map(total => ({ ht: total, wt: 0, mt: 0, total })),
+});
+
+const excluded = (t: WorkStudyTask) => t.rounds.map(r => !!r?.exclusion);
+
+describe('flagOutliers, mean ± 2s', () => {
+  it('flags a single slow round among five', () => {
+    expect(excluded(flagOutliers(task([10, 10.2, 9.9, 10.1, 20])))).toEqual([false, false, false, false, true]);
+  });
+
+  it('flags with the minimum number of rounds', () => {
+    expect(excluded(flagOutliers(task([10, 10.5, 9.5, 30])))).toEqual([false, false, false, true]);
+  });
+
+  it('needs four rounds to judge', () => {
+    expect(excluded(flagOutliers(task([10, 10, 30])))).toEqual([false, false, false]);
+  });
+
+  it('leaves manual exclusions out of the others', () => {
+    const t = task([10, 12, 8, 11, 9, 30]);
+    t.rounds[5] = { ...t.rounds[5]!, exclusion: { rule: 'manual', reason: 'dropped part' } };
+    const flagged = flagOutliers(t);
+    expect(excluded(flagged)).toEqual([false, false, false, false, false, true]);
+    expect(flagged.rounds[5]!.exclusion!.rule).toBe('manual');
+  });
+});
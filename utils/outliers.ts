@@ -0,0 +1,81 @@
+
+import { OutlierRule, RoundExclusion, WorkStudyRound, WorkStudyTask } from '../types';
+
+// Outlier rules for observed rounds. What a rule finds is written onto the
+// round (exclusion.rule = the rule, with the limit in the reason) so the
+// reason travels with the data; manual exclusions are never touched by a rule.
+
+export const OUTLIER_RULES: { id: OutlierRule, label: string, minRounds: number }[] = [
+  { id: 'none', label: 'ไม่ตัด (Off)', minRounds: 0 },
+  { id: 'sigma2', label: 'Mean ± 2s (leave-one-out)', minRounds: 4 },
+  { id: 'iqr', label: 'IQR 1.5×', minRounds: 4 },
+];
+
+// Linear interpolation between closest ranks
+const quantile = (sorted: number[], q: number) => {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+/**
+ * Range of round totals a rule accepts for `values[index]`; null when the rule is off or
+ * there are too few rounds to judge. Mean ± 2s leaves the judged round out and uses the
+ * sample SD (n−1) of the others: with the round included it could never be more than
+ * (n−1)/√n SDs from the mean, which keeps it under 2 up to n = 5.
+ */
+export const outlierFences = (values: number[], rule: OutlierRule, index: number): { low: number, high: number, label: string } | null => {
+  const def = OUTLIER_RULES.find(r => r.id === rule);
+  if (!def || rule === 'none' || values.length < def.minRounds) return null;
+  if (rule === 'sigma2') {
+      const others = values.filter((_, i) => i !== index);
+      const mean = others.reduce((a, b) => a + b, 0) / others.length;
+      const sd = Math.sqrt(others.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / (others.length - 1));
+      return { low: mean - 2 * sd, high: mean + 2 * sd, label: `mean of others ${mean.toFixed(2)}s ± 2s, s ${sd.toFixed(2)}s` };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const iqr = q3 - q1;
+  return { low: q1 - 1.5 * iqr, high: q3 + 1.5 * iqr, label: `Q1 ${q1.toFixed(2)}s, Q3 ${q3.toFixed(2)}s` };
+};
+
+const withoutExclusion = (round: WorkStudyRound): WorkStudyRound => {
+  const { exclusion, ...rest } = round;
+  return rest;
+};
+
+/** Re-applies the task's rule to its rounds; returns the same task object when nothing changed. */
+export const flagOutliers = (task: WorkStudyTask): WorkStudyTask => {
+  const rule = task.outlierRule || 'none';
+  const candidates = task.rounds.filter((r): r is WorkStudyRound => !!r && r.exclusion?.rule !== 'manual');
+  const values = candidates.map(r => r.total);
+
+  let changed = false;
+  const rounds = task.rounds.map(r => {
+      if (!r || r.exclusion?.rule === 'manual') return r;
+      const fences = outlierFences(values, rule, candidates.indexOf(r));
+      let exclusion: RoundExclusion | null = null;
+      if (fences && (r.total < fences.low || r.total > fences.high)) {
+          const high = r.total > fences.high;
+          exclusion = {
+              rule: rule as RoundExclusion['rule'],
+              reason: `${r.total.toFixed(2)}s ${high ? 'above' : 'below'} ${(high ? fences.high : fences.low).toFixed(2)}s (${fences.label})`
+          };
+      }
+      if (r.exclusion?.rule === exclusion?.rule && r.exclusion?.reason === exclusion?.reason) return r;
+      changed = true;
+      return exclusion ? { ...r, exclusion } : withoutExclusion(r);
+  });
+  return changed ? { ...task, rounds } : task;
+};
+
+// Manual exclusion of one round; including it again also lets the rule judge it anew
+export const setRoundExcluded = (task: WorkStudyTask, roundIdx: number, reason: string | null): WorkStudyTask => {
+  const round = task.rounds[roundIdx];
+  if (!round) return task;
+  const rounds = [...task.rounds];
+  rounds[roundIdx] = reason === null ? withoutExclusion(round) : { ...round, exclusion: { rule: 'manual', reason } };
+  return flagOutliers({ ...task, rounds });
+};
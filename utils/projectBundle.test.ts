@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { ModuleStates, ProjectData } from '../types';
+import { emptyProject, readProject } from './projectSchema';
+import { createBundle, readBundle } from './projectBundle';
+
+const modules: ModuleStates = {
+  logisticsEvents: [{ id: 'l1', name: 'Fetch parts', category: 'NNVA', startTime: 2, endTime: 5, duration: 3 }],
+  multiAxial: {
+      resources: [{ id: 1, name: 'Operator', type: 'MAN', color: '#3b82f6', offset: 0.5 }],
+      events: [{ id: 'e1', resourceId: 1, name: 'Load', startTime: 0, duration: 2, type: 'VA' }],
+  },
+  rearrangement: { stations: [['a'], ['b']], taktTime: 12, laborRate: 15, targetEfficiency: 85 },
+  dependencies: { b: ['a'] },
+  digitalTwin: [{ id: 'st1', name: 'Station 1', baseCycleTime: 9, variance: 0.5, operators: 1, bufferSize: 3 }],
+  ergonomics: [{ timestamp: 1.5, neckAngle: 20, trunkAngle: 10, upperArmAngle: 30, score: 4, riskLevel: 'Medium' }],
+  simulation: { avg: 11, min: 9, max: 14, riskProb: 12.5, p90: 13, p99: 13.8, histogram: [{ range: '9.0-9.5', count: 3, mid: 9.25 }] },
+};
+
+const project: ProjectData = {
+  ...emptyProject(),
+  workStudyTasks: [
+      { id: 'a', name: 'A', rounds: [{ ht: 4, wt: 0, mt: 0, total: 4 }], activity: 'Operation', rating: 100, allowance: 10 },
+      { id: 'b', name: 'B', rounds: [{ ht: 6, wt: 0, mt: 0, total: 6 }], activity: 'Operation', rating: 100, allowance: 10 },
+  ],
+  modules,
+  updatedAt: 1,
+};
+
+describe('module state round trip', () => {
+  it('survives a JSON save and load', () => {
+      const { data, issues } = readProject(JSON.parse(JSON.stringify(project)));
+      expect(issues).toEqual([]);
+      expect(data!.modules).toEqual(modules);
+  });
+
+  it('survives a bundle export and import', async () => {
+      const bundle = await createBundle('Round trip', project, null);
+      const contents = await readBundle(bundle);
+      const { data, issues } = readProject(contents.project);
+      expect(issues).toEqual([]);
+      expect(data!.modules).toEqual(modules);
+      expect(contents.name).toBe('Round trip');
+  });
+});
@@ -0,0 +1,167 @@
+
+import XLSX from 'xlsx';
+import { ProjectData } from '../types';
+import { buildCycleReport, buildWorkStudyReport } from './reports';
+import { ZipArchive, ZipEntryInput, createZip, openZip } from './zipArchive';
+
+// .wsp project bundle: a zip that carries a whole study to another machine.
+//
+//   manifest.json   format marker, project name, contents
+//   project.json    project data; image fields hold "wsp:<path>" links into the zip
+//   video/<name>    source video, stored uncompressed and never read into memory
+//   images/...      task and cycle thumbnails by list position, captured reference crops
+//   reports/*.xlsx  generated at export for readers without the app; ignored on import
+
+export const BUNDLE_EXTENSION = '.wsp';
+const BUNDLE_FORMAT = 'workstudypro-bundle';
+const BUNDLE_VERSION = 1;
+const LINK_PREFIX = 'wsp:';
+
+interface BundleManifest {
+  format: string;
+  version: number;
+  name: string;
+  exportedAt: string;
+  schemaVersion?: number;
+  video: { path: string, name: string, type: string } | null;
+  images: string[];
+  reports: string[];
+}
+
+export interface BundleContents {
+  name: string;
+  project: unknown;   // project.json with images resolved; validate with readProject
+  video: File | null;
+}
+
+const IMAGE_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', webp: 'image/webp' };
+
+const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|]/g, '_');
+
+const decodeDataUrl = (url: string): { bytes: ArrayBuffer, ext: string } | null => {
+  const match = /^data:([^;,]+);base64,(.*)$/.exec(url);
+  if (!match) return null;
+  const ext = Object.keys(IMAGE_TYPES).find(k => IMAGE_TYPES[k] === match[1]) || 'bin';
+  const binary = atob(match[2]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { bytes: bytes.buffer, ext };
+};
+
+const encodeBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+export const createBundle = async (name: string, data: ProjectData, video: Blob | null): Promise<Blob> => {
+  const entries: ZipEntryInput[] = [];
+  const images: string[] = [];
+
+  // Moves an inline image into the zip and returns the link that replaces it
+  const addImage = (url: string, path: string): string => {
+      const decoded = decodeDataUrl(url);
+      if (!decoded) return url;
+      const file = `${path}.${decoded.ext}`;
+      entries.push({ path: file, data: decoded.bytes }); // PNG/JPEG are compressed already
+      images.push(file);
+      return LINK_PREFIX + file;
+  };
+
+  const refs = data.referenceImages;
+  const project: ProjectData = {
+      ...data,
+      videoSrc: null,
+      workStudyTasks: data.workStudyTasks.map((t, i) => t.thumbnail ? { ...t, thumbnail: addImage(t.thumbnail, `images/tasks/${i}`) } : t),
+      cycles: data.cycles.map((c, i) => c.thumbnail ? { ...c, thumbnail: addImage(c.thumbnail, `images/cycles/${i}`) } : c),
+      referenceImages: refs ? {
+          zones: Object.fromEntries(Object.entries(refs.zones).map(([id, url], i) => [id, addImage(url, `images/references/zone-${i}`)])),
+          anchor: refs.anchor ? { ...refs.anchor, image: addImage(refs.anchor.image, 'images/references/anchor') } : null,
+      } : refs,
+  };
+
+  let videoEntry: BundleManifest['video'] = null;
+  if (video && data.video) {
+      videoEntry = { path: `video/${safeFileName(data.video.name)}`, name: data.video.name, type: data.video.type };
+      entries.push({ path: videoEntry.path, data: video }); // Already compressed
+  }
+
+  const reports = ['reports/cycle-report.xlsx', 'reports/standard-time.xlsx'];
+  entries.push({ path: reports[0], data: XLSX.write(buildCycleReport(data.cycles), { bookType: 'xlsx', type: 'array' }) });
+  entries.push({ path: reports[1], data: XLSX.write(buildWorkStudyReport(data.workStudyTasks, data.taktTime, data.observationTarget), { bookType: 'xlsx', type: 'array' }) });
+
+  const manifest: BundleManifest = {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      name,
+      exportedAt: new Date().toISOString(),
+      schemaVersion: data.schemaVersion,
+      video: videoEntry,
+      images,
+      reports,
+  };
+  entries.push({ path: 'project.json', data: JSON.stringify(project, null, 2), compress: true });
+  entries.push({ path: 'manifest.json', data: JSON.stringify(manifest, null, 2), compress: true });
+
+  return createZip(entries);
+};
+
+/**
+ * Unpacks a bundle. Image links are turned back into data URLs; links to
+ * files missing from the zip are dropped. Throws on anything that is not a bundle.
+ */
+export const readBundle = async (file: Blob): Promise<BundleContents> => {
+  let zip: ZipArchive;
+  try {
+      zip = await openZip(file);
+  } catch (e) {
+      throw new Error('Not a project bundle (the file is not a zip archive)');
+  }
+  const manifestText = await zip.text('manifest.json');
+  const projectText = await zip.text('project.json');
+  if (manifestText === null || projectText === null) throw new Error('Not a project bundle (manifest.json or project.json missing)');
+
+  const manifest = JSON.parse(manifestText) as BundleManifest;
+  if (manifest.format !== BUNDLE_FORMAT) throw new Error('Not a project bundle (unknown format)');
+  if (manifest.version > BUNDLE_VERSION) throw new Error(`Bundle version ${manifest.version} is newer than this app supports (${BUNDLE_VERSION})`);
+
+  const resolve = async (value: unknown) => {
+      if (typeof value !== 'string' || !value.startsWith(LINK_PREFIX)) return value;
+      const path = value.slice(LINK_PREFIX.length);
+      const entry = await zip.file(path);
+      if (!entry) return undefined;
+      const type = IMAGE_TYPES[path.split('.').pop() || ''] || 'application/octet-stream';
+      return `data:${type};base64,${encodeBase64(new Uint8Array(await entry.arrayBuffer()))}`;
+  };
+
+  const project = JSON.parse(projectText);
+  if (project && typeof project === 'object') {
+      for (const list of [project.workStudyTasks, project.cycles]) {
+          if (!Array.isArray(list)) continue;
+          for (const item of list) {
+              if (item && typeof item === 'object' && item.thumbnail !== undefined) item.thumbnail = await resolve(item.thumbnail);
+          }
+      }
+      const refs = project.referenceImages;
+      if (refs && typeof refs === 'object') {
+          if (refs.zones && typeof refs.zones === 'object') {
+              for (const id of Object.keys(refs.zones)) {
+                  refs.zones[id] = await resolve(refs.zones[id]);
+                  if (refs.zones[id] === undefined) delete refs.zones[id];
+              }
+          }
+          if (refs.anchor && typeof refs.anchor === 'object') {
+              refs.anchor.image = await resolve(refs.anchor.image);
+              if (refs.anchor.image === undefined) refs.anchor = null;
+          }
+      }
+  }
+
+  let video: File | null = null;
+  const videoFile = manifest.video ? await zip.file(manifest.video.path) : null;
+  if (manifest.video && videoFile) {
+      video = new File([videoFile], manifest.video.name, { type: manifest.video.type }); // A slice of the bundle, not a copy
+  }
+
+  return { name: manifest.name || 'Imported project', project, video };
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { PROJECT_SCHEMA_VERSION, emptyProject, formatIssues, readProject } from './projectSchema';
+
+const valid = () => ({ ...emptyProject(), updatedAt: 1 });
+
+describe('readProject', () => {
+  it('migrates a version 1 file', () => {
+      const v1 = {
+          taktTime: 12,
+          workStudyTasks: [{ id: 'a', name: 'Pick', rounds: [{ ht: 1, wt: 0.5, mt: 0.25 }] }],
+          triggerSteps: [{ id: 's1', name: 'Zone 1', rect: { x: 0, y: 0, width: 10, height: 10 } }],
+      };
+      const { data, issues, migratedFrom } = readProject(v1);
+
+      expect(issues).toEqual([]);
+      expect(migratedFrom).toBe(1);
+      expect(data!.schemaVersion).toBe(PROJECT_SCHEMA_VERSION);
+      expect(data!.taktTime).toBe(12);
+      expect(data!.sensitivity).toBe(6);   // From the empty project
+      expect(data!.cycles).toEqual([]);
+      expect(data!.workStudyTasks[0]).toMatchObject({ activity: 'Operation', rating: 100, allowance: 10 });
+      expect(data!.workStudyTasks[0].rounds[0]!.total).toBe(1.75);
+      expect(data!.triggerSteps[0]).toMatchObject({ isActive: true, hitCount: 0 });
+  });
+
+  it('reads a current file as it is', () => {
+      const { data, issues, migratedFrom } = readProject(valid());
+      expect(issues).toEqual([]);
+      expect(migratedFrom).toBeNull();
+      expect(data).toEqual(valid());
+  });
+
+  it('rejects a file from a newer app version', () => {
+      const { data, issues } = readProject({ ...valid(), schemaVersion: PROJECT_SCHEMA_VERSION + 1 });
+      expect(data).toBeNull();
+      expect(issues).toHaveLength(1);
+      expect(issues[0].path).toBe('schemaVersion');
+      expect(issues[0].message).toMatch(/please update the app/);
+  });
+
+  it('rejects what is not a project object', () => {
+      expect(readProject(null).issues[0]).toEqual({ path: '(root)', message: 'expected a project object, got null' });
+      expect(readProject([]).issues[0].message).toBe('expected a project object, got array');
+  });
+
+  it('lists missing and wrongly typed fields with their paths', () => {
+      const { data, issues } = readProject({
+          ...valid(),
+          taktTime: 'ten',
+          cycles: undefined,
+          workStudyTasks: [{ id: 'a', name: 'A', rounds: [{ ht: 1, wt: 0, mt: 0, total: NaN }], activity: 'Work', rating: 100, allowance: 10 }],
+      });
+      expect(data).toBeNull();
+      expect(issues).toEqual(expect.arrayContaining([
+          { path: 'taktTime', message: 'expected a number, got string "ten"' },
+          { path: 'cycles', message: 'expected a list, got undefined' },
+          { path: 'workStudyTasks[0].rounds[0].total', message: 'expected a number, got NaN' },
+          expect.objectContaining({ path: 'workStudyTasks[0].activity' }),
+      ]));
+  });
+});
+
+describe('formatIssues', () => {
+  it('prints one line per issue and counts the rest', () => {
+      const issues = Array.from({ length: 12 }, (_, i) => ({ path: `cycles[${i}].id`, message: 'expected a number, got string "x"' }));
+      const text = formatIssues(issues, 2);
+      expect(text).toBe('• cycles[0].id: expected a number, got string "x"\n• cycles[1].id: expected a number, got string "x"\n… and 10 more');
+      expect(formatIssues(issues.slice(0, 1))).toBe('• cycles[0].id: expected a number, got string "x"');
+  });
+});
+
+describe('rating range', () => {
+  it('rejects ratings outside the valid range', () => {
+      const { issues } = readProject({
+          ...valid(),
+          workStudyTasks: [{ id: 'a', name: 'A', activity: 'Operation', rating: 0, allowance: 10, rounds: [{ ht: 1, wt: 0, mt: 0, total: 1, rating: 500 }] }],
+      });
+      expect(issues).toEqual([
+          { path: 'workStudyTasks[0].rating', message: 'expected 10 to 200, got 0' },
+          { path: 'workStudyTasks[0].rounds[0].rating', message: 'expected 10 to 200, got 500' },
+      ]);
+  });
+});
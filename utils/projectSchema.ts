@@ -0,0 +1,369 @@
+
+import { ProjectData } from '../types';
+import { RATING_RANGE } from './standardTime';
+
+// Versioned project file format. Every project read from a JSON file or from
+// the local database is migrated to PROJECT_SCHEMA_VERSION and then validated;
+// problems are reported per field path instead of loading garbage.
+//
+// Version history:
+//   1 - files written before the schema version existed (no `schemaVersion`)
+//   2 - `schemaVersion` field; tasks, rounds and zones always carry all required fields
+
+export const PROJECT_SCHEMA_VERSION = 2;
+
+export interface SchemaIssue {
+  path: string;    // e.g. "workStudyTasks[2].rounds[0].ht"
+  message: string;
+}
+
+export interface ProjectReadResult {
+  data: ProjectData | null;    // null when there are issues
+  issues: SchemaIssue[];
+  migratedFrom: number | null; // Version the data was upgraded from, if it was
+}
+
+const ACTIVITIES = ['Operation', 'Transport', 'Inspection', 'Delay', 'Hold'];
+const CYCLE_STATUSES = ['ok', 'over', 'abnormal'];
+const VALUE_CATEGORIES = ['VA', 'NVA', 'NNVA'];
+const RISK_LEVELS = ['Low', 'Medium', 'High', 'Very High'];
+const MAX_ISSUES = 50; // Report is cut off here; a broken file tends to repeat the same mistake
+
+// Contents of a new, empty project
+export const emptyProject = (): Omit<ProjectData, 'updatedAt'> => ({
+  schemaVersion: PROJECT_SCHEMA_VERSION,
+  videoSrc: null,
+  cycles: [],
+  taktTime: 10,
+  sensitivity: 6,
+  refRect: null,
+  triggerSteps: [],
+  workStudyTasks: [],
+});
+
+// --- MIGRATIONS ---
+// MIGRATIONS[n] turns a version n project into version n + 1
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const finiteOr = (value: unknown, fallback: number) => typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const migrateV1 = (data: Record<string, any>): Record<string, any> => ({
+  ...emptyProject(), // Sections the file does not have at all start empty
+  ...data,
+  // Early tasks could miss the fields the table now requires; rounds stored without a total get it from the parts
+  workStudyTasks: Array.isArray(data.workStudyTasks) ? data.workStudyTasks.map((task: any) => !isObject(task) ? task : {
+      ...task,
+      activity: task.activity ?? 'Operation',
+      rating: task.rating ?? 100,
+      allowance: task.allowance ?? 10,
+      rounds: Array.isArray(task.rounds) ? task.rounds.map((r: any) => isObject(r) && r.total === undefined
+          ? { ...r, total: finiteOr(r.ht, 0) + finiteOr(r.wt, 0) + finiteOr(r.mt, 0) }
+          : r) : task.rounds,
+  }) : data.workStudyTasks,
+  triggerSteps: Array.isArray(data.triggerSteps) ? data.triggerSteps.map((step: any) => !isObject(step) ? step : {
+      ...step,
+      isActive: step.isActive ?? true,
+      hitCount: step.hitCount ?? 0,
+  }) : data.triggerSteps,
+  schemaVersion: 2,
+});
+
+const MIGRATIONS: Record<number, (data: Record<string, any>) => Record<string, any>> = {
+  1: migrateV1,
+};
+
+export const migrateProject = (data: Record<string, any>): { data: Record<string, any>, fromVersion: number } => {
+  const fromVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 1;
+  let migrated = data;
+  for (let v = fromVersion; v < PROJECT_SCHEMA_VERSION; v++) {
+      const step = MIGRATIONS[v];
+      if (!step) break; // Unknown version; validation reports what does not fit
+      migrated = step(migrated);
+  }
+  return { data: migrated, fromVersion };
+};
+
+// --- VALIDATION ---
+
+const describe = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string "${value.length > 20 ? value.slice(0, 20) + '…' : value}"`;
+  if (typeof value === 'number' && !Number.isFinite(value)) return String(value);
+  return typeof value;
+};
+
+const createChecker = () => {
+  const issues: SchemaIssue[] = [];
+  const fail = (path: string, message: string) => { if (issues.length < MAX_ISSUES) issues.push({ path, message }); };
+
+  const number = (value: unknown, path: string, optional = false) => {
+      if (optional && (value === undefined || value === null)) return;
+      if (typeof value !== 'number' || !Number.isFinite(value)) fail(path, `expected a number, got ${describe(value)}`);
+  };
+  const range = (value: unknown, path: string, min: number, max: number, optional = false) => {
+      if (optional && (value === undefined || value === null)) return;
+      if (typeof value !== 'number' || !Number.isFinite(value)) return fail(path, `expected a number, got ${describe(value)}`);
+      if (value < min || value > max) fail(path, `expected ${min} to ${max}, got ${value}`);
+  };
+  const string = (value: unknown, path: string, optional = false) => {
+      if (optional && value === undefined) return;
+      if (typeof value !== 'string') fail(path, `expected a string, got ${describe(value)}`);
+  };
+  const boolean = (value: unknown, path: string, optional = false) => {
+      if (optional && value === undefined) return;
+      if (typeof value !== 'boolean') fail(path, `expected true/false, got ${describe(value)}`);
+  };
+  const oneOf = (value: unknown, options: string[], path: string, optional = false) => {
+      if (optional && value === undefined) return;
+      if (typeof value !== 'string' || !options.includes(value)) fail(path, `expected one of ${options.join(' | ')}, got ${describe(value)}`);
+  };
+  const object = (value: unknown, path: string): value is Record<string, any> => {
+      if (isObject(value)) return true;
+      fail(path, `expected an object, got ${describe(value)}`);
+      return false;
+  };
+  // Checks each item of an array; `optional` also accepts undefined/null for the whole array
+  const array = (value: unknown, path: string, item: (v: any, p: string) => void, optional = false) => {
+      if (optional && (value === undefined || value === null)) return;
+      if (!Array.isArray(value)) return fail(path, `expected a list, got ${describe(value)}`);
+      value.forEach((v, i) => { if (issues.length < MAX_ISSUES) item(v, `${path}[${i}]`); });
+  };
+  const rect = (value: unknown, path: string) => {
+      if (!object(value, path)) return;
+      (['x', 'y', 'width', 'height'] as const).forEach(k => number(value[k], `${path}.${k}`));
+  };
+
+  return { issues, fail, number, range, string, boolean, oneOf, object, array, rect };
+};
+
+const validateModules = (c: ReturnType<typeof createChecker>, modules: unknown) => {
+  if (!c.object(modules, 'modules')) return;
+  c.array(modules.logisticsEvents, 'modules.logisticsEvents', (e, p) => {
+      if (!c.object(e, p)) return;
+      c.string(e.id, `${p}.id`);
+      c.string(e.name, `${p}.name`);
+      c.oneOf(e.category, VALUE_CATEGORIES, `${p}.category`);
+      c.number(e.startTime, `${p}.startTime`);
+      c.number(e.endTime, `${p}.endTime`, true);
+      c.number(e.duration, `${p}.duration`);
+  }, true);
+  if (modules.multiAxial !== undefined && c.object(modules.multiAxial, 'modules.multiAxial')) {
+      c.array(modules.multiAxial.resources, 'modules.multiAxial.resources', (r, p) => {
+          if (!c.object(r, p)) return;
+          c.number(r.id, `${p}.id`);
+          c.string(r.name, `${p}.name`);
+          c.oneOf(r.type, ['MAN', 'MACHINE'], `${p}.type`);
+          c.number(r.offset, `${p}.offset`);
+      });
+      c.array(modules.multiAxial.events, 'modules.multiAxial.events', (e, p) => {
+          if (!c.object(e, p)) return;
+          c.string(e.id, `${p}.id`);
+          c.number(e.resourceId, `${p}.resourceId`);
+          c.number(e.startTime, `${p}.startTime`);
+          c.number(e.duration, `${p}.duration`);
+          c.oneOf(e.type, VALUE_CATEGORIES, `${p}.type`);
+      });
+  }
+  if (modules.rearrangement !== undefined && c.object(modules.rearrangement, 'modules.rearrangement')) {
+      const r = modules.rearrangement;
+      c.array(r.stations, 'modules.rearrangement.stations', (ids, p) => c.array(ids, p, (id, ip) => c.string(id, ip)));
+      (['taktTime', 'laborRate', 'targetEfficiency'] as const).forEach(k => c.number(r[k], `modules.rearrangement.${k}`));
+  }
+  if (modules.dependencies !== undefined && c.object(modules.dependencies, 'modules.dependencies')) {
+      Object.entries(modules.dependencies).forEach(([id, preds]) => c.array(preds, `modules.dependencies.${id}`, (v, p) => c.string(v, p)));
+  }
+  c.array(modules.digitalTwin, 'modules.digitalTwin', (s, p) => {
+      if (!c.object(s, p)) return;
+      c.string(s.id, `${p}.id`);
+      c.string(s.name, `${p}.name`);
+      (['baseCycleTime', 'variance', 'operators', 'bufferSize'] as const).forEach(k => c.number(s[k], `${p}.${k}`));
+  }, true);
+  c.array(modules.ergonomics, 'modules.ergonomics', (f, p) => {
+      if (!c.object(f, p)) return;
+      (['timestamp', 'neckAngle', 'trunkAngle', 'upperArmAngle', 'score'] as const).forEach(k => c.number(f[k], `${p}.${k}`));
+      c.oneOf(f.riskLevel, RISK_LEVELS, `${p}.riskLevel`);
+  }, true);
+  if (modules.simulation !== null && modules.simulation !== undefined && c.object(modules.simulation, 'modules.simulation')) {
+      const sim = modules.simulation;
+      (['avg', 'min', 'max', 'riskProb', 'p90', 'p99'] as const).forEach(k => c.number(sim[k], `modules.simulation.${k}`));
+  }
+};
+
+/** Lists every field of a (migrated) project that does not match the current schema. */
+export const validateProject = (data: unknown): SchemaIssue[] => {
+  const c = createChecker();
+  if (!c.object(data, '(root)')) return c.issues;
+
+  c.number(data.schemaVersion, 'schemaVersion');
+  c.number(data.taktTime, 'taktTime');
+  c.number(data.sensitivity, 'sensitivity');
+  if (data.refRect !== null && data.refRect !== undefined) c.rect(data.refRect, 'refRect');
+
+  c.array(data.cycles, 'cycles', (cycle, p) => {
+      if (!c.object(cycle, p)) return;
+      c.number(cycle.id, `${p}.id`);
+      c.number(cycle.startTime, `${p}.startTime`);
+      c.number(cycle.endTime, `${p}.endTime`);
+      c.number(cycle.duration, `${p}.duration`);
+      c.oneOf(cycle.status, CYCLE_STATUSES, `${p}.status`);
+      c.number(cycle.mappedTaskIndex, `${p}.mappedTaskIndex`, true);
+      c.boolean(cycle.verified, `${p}.verified`, true);
+      c.array(cycle.segments, `${p}.segments`, (s, sp) => {
+          if (!c.object(s, sp)) return;
+          c.string(s.name, `${sp}.name`);
+          c.number(s.startTime, `${sp}.startTime`);
+          c.number(s.endTime, `${sp}.endTime`);
+          c.number(s.duration, `${sp}.duration`);
+          c.oneOf(s.activity, ACTIVITIES, `${sp}.activity`);
+      }, true);
+      c.array(cycle.stepHits, `${p}.stepHits`, (h, hp) => {
+          if (!c.object(h, hp)) return;
+          c.string(h.stepId, `${hp}.stepId`);
+          c.number(h.time, `${hp}.time`);
+      }, true);
+      c.array(cycle.actionSpans, `${p}.actionSpans`, (a, ap) => {
+          if (!c.object(a, ap)) return;
+          c.string(a.action, `${ap}.action`);
+          c.number(a.startTime, `${ap}.startTime`);
+          c.number(a.endTime, `${ap}.endTime`);
+      }, true);
+  });
+
+  c.array(data.triggerSteps, 'triggerSteps', (step, p) => {
+      if (!c.object(step, p)) return;
+      c.string(step.id, `${p}.id`);
+      c.string(step.name, `${p}.name`);
+      c.rect(step.rect, `${p}.rect`);
+      c.boolean(step.isActive, `${p}.isActive`);
+      c.number(step.hitCount, `${p}.hitCount`);
+      c.oneOf(step.activity, ACTIVITIES, `${p}.activity`, true);
+  });
+
+  c.array(data.workStudyTasks, 'workStudyTasks', (task, p) => {
+      if (!c.object(task, p)) return;
+      c.string(task.id, `${p}.id`);
+      c.string(task.name, `${p}.name`);
+      c.oneOf(task.activity, ACTIVITIES, `${p}.activity`);
+      c.range(task.rating, `${p}.rating`, RATING_RANGE.min, RATING_RANGE.max);
+      c.number(task.allowance, `${p}.allowance`);
+      c.oneOf(task.outlierRule, ['none', 'sigma2', 'iqr'], `${p}.outlierRule`, true);
+      if (task.ratingBreakdown !== undefined && c.object(task.ratingBreakdown, `${p}.ratingBreakdown`)) {
+          const b = task.ratingBreakdown;
+          c.oneOf(b.method, ['direct', 'westinghouse', 'synthetic', 'perRound'], `${p}.ratingBreakdown.method`);
+          if (b.westinghouse !== undefined && c.object(b.westinghouse, `${p}.ratingBreakdown.westinghouse`)) {
+              (['skill', 'effort', 'conditions', 'consistency'] as const).forEach(f => c.string(b.westinghouse[f], `${p}.ratingBreakdown.westinghouse.${f}`));
+          }
+          if (b.synthetic !== undefined && c.object(b.synthetic, `${p}.ratingBreakdown.synthetic`)) {
+              c.array(b.synthetic.codes, `${p}.ratingBreakdown.synthetic.codes`, (code, cp) => c.string(code, cp));
+              c.number(b.synthetic.pmtsTime, `${p}.ratingBreakdown.synthetic.pmtsTime`);
+          }
+      }
+      if (task.allowanceBreakdown !== undefined && c.object(task.allowanceBreakdown, `${p}.allowanceBreakdown`)) {
+          const b = task.allowanceBreakdown;
+          (['personal', 'basicFatigue', 'delay'] as const).forEach(k => c.number(b[k], `${p}.allowanceBreakdown.${k}`));
+          if (c.object(b.factors, `${p}.allowanceBreakdown.factors`)) {
+              Object.entries(b.factors).forEach(([f, level]) => c.string(level, `${p}.allowanceBreakdown.factors.${f}`));
+          }
+          c.string(b.profileId, `${p}.allowanceBreakdown.profileId`, true);
+      }
+      c.array(task.rounds, `${p}.rounds`, (round, rp) => {
+          if (round === null || round === undefined) return; // Empty cell
+          if (!c.object(round, rp)) return;
+          (['ht', 'wt', 'mt', 'total'] as const).forEach(k => c.number(round[k], `${rp}.${k}`));
+          c.number(round.startTime, `${rp}.startTime`, true);
+          c.number(round.endTime, `${rp}.endTime`, true);
+          c.range(round.rating, `${rp}.rating`, RATING_RANGE.min, RATING_RANGE.max, true);
+          if (round.exclusion !== null && round.exclusion !== undefined && c.object(round.exclusion, `${rp}.exclusion`)) {
+              c.oneOf(round.exclusion.rule, ['manual', 'sigma2', 'iqr'], `${rp}.exclusion.rule`);
+              c.string(round.exclusion.reason, `${rp}.exclusion.reason`);
+          }
+      });
+  });
+
+  if (data.signalTrace !== null && data.signalTrace !== undefined && c.object(data.signalTrace, 'signalTrace')) {
+      c.array(data.signalTrace.stepIds, 'signalTrace.stepIds', (id, p) => c.string(id, p));
+      c.array(data.signalTrace.samples, 'signalTrace.samples', (s, p) => {
+          if (!c.object(s, p)) return;
+          c.number(s.time, `${p}.time`);
+          c.array(s.smooth, `${p}.smooth`, (v, vp) => c.number(v, vp));
+      });
+  }
+  if (data.thresholds !== null && data.thresholds !== undefined && c.object(data.thresholds, 'thresholds')) {
+      c.number(data.thresholds.high, 'thresholds.high');
+      c.number(data.thresholds.low, 'thresholds.low');
+  }
+  c.number(data.frameRate, 'frameRate', true);
+
+  if (data.line !== null && data.line !== undefined && c.object(data.line, 'line')) {
+      c.number(data.line.plannedEfficiency, 'line.plannedEfficiency');
+      c.array(data.line.stations, 'line.stations', (s, p) => {
+          if (!c.object(s, p)) return;
+          c.string(s.id, `${p}.id`);
+          c.string(s.name, `${p}.name`);
+          c.number(s.operators, `${p}.operators`);
+          c.array(s.taskIds, `${p}.taskIds`, (id, ip) => c.string(id, ip));
+      });
+  }
+  c.array(data.yamazumiBaselines, 'yamazumiBaselines', (b, p) => {
+      if (!c.object(b, p)) return;
+      c.string(b.id, `${p}.id`);
+      c.string(b.name, `${p}.name`);
+      c.number(b.taktTime, `${p}.taktTime`);
+      c.array(b.stations, `${p}.stations`, (s, sp) => {
+          if (!c.object(s, sp)) return;
+          c.string(s.name, `${sp}.name`);
+          c.number(s.operators, `${sp}.operators`);
+          c.array(s.elements, `${sp}.elements`, (e, ep) => {
+              if (!c.object(e, ep)) return;
+              c.string(e.name, `${ep}.name`);
+              c.number(e.time, `${ep}.time`);
+          });
+      });
+  }, true);
+  if (data.referenceImages !== null && data.referenceImages !== undefined && c.object(data.referenceImages, 'referenceImages')) {
+      if (c.object(data.referenceImages.zones, 'referenceImages.zones')) {
+          Object.entries(data.referenceImages.zones).forEach(([id, image]) => c.string(image, `referenceImages.zones.${id}`));
+      }
+      const anchor = data.referenceImages.anchor;
+      if (anchor !== null && anchor !== undefined && c.object(anchor, 'referenceImages.anchor')) {
+          c.rect(anchor.rect, 'referenceImages.anchor.rect');
+          c.string(anchor.image, 'referenceImages.anchor.image');
+      }
+  }
+  if (data.video !== null && data.video !== undefined && c.object(data.video, 'video')) {
+      c.string(data.video.hash, 'video.hash');
+      c.string(data.video.name, 'video.name');
+      c.number(data.video.size, 'video.size');
+      c.oneOf(data.video.storage, ['indexeddb', 'directory'], 'video.storage');
+  }
+  if (data.modules !== undefined) validateModules(c, data.modules);
+  if (data.observationTarget !== undefined && c.object(data.observationTarget, 'observationTarget')) {
+      c.number(data.observationTarget.confidence, 'observationTarget.confidence');
+      c.number(data.observationTarget.accuracy, 'observationTarget.accuracy');
+  }
+
+  return c.issues;
+};
+
+/**
+ * Migrates and validates raw project data (parsed JSON or a database record).
+ * Files from a newer app version are rejected rather than guessed at.
+ */
+export const readProject = (raw: unknown): ProjectReadResult => {
+  const rejected = (issues: SchemaIssue[]): ProjectReadResult => ({ data: null, issues, migratedFrom: null });
+  if (!isObject(raw)) return rejected([{ path: '(root)', message: `expected a project object, got ${describe(raw)}` }]);
+  if (typeof raw.schemaVersion === 'number' && raw.schemaVersion > PROJECT_SCHEMA_VERSION) {
+      return rejected([{ path: 'schemaVersion', message: `file is version ${raw.schemaVersion}, this app reads up to ${PROJECT_SCHEMA_VERSION} - please update the app` }]);
+  }
+  const { data, fromVersion } = migrateProject(raw);
+  const issues = validateProject(data);
+  if (issues.length > 0) return rejected(issues);
+  return { data: data as ProjectData, issues, migratedFrom: fromVersion < PROJECT_SCHEMA_VERSION ? fromVersion : null };
+};
+
+export const formatIssues = (issues: SchemaIssue[], limit: number = 10) => {
+  const lines = issues.slice(0, limit).map(i => `• ${i.path}: ${i.message}`);
+  if (issues.length > limit) lines.push(`… and ${issues.length - limit}${issues.length >= MAX_ISSUES ? '+' : ''} more`);
+  return lines.join('\n');
+};
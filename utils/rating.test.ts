@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { WorkStudyTask } from '../types';
+import { AVERAGE_GRADES, applyRating, setRatingMethod, syntheticRating, westinghouseRating } from './rating';
+
+const task = (totals: number[], patch: Partial<WorkStudyTask> = {}): WorkStudyTask => ({
+  id: 't', name: 'T', activity: 'Operation', rating: 100, allowance: 0,
+  rounds: totals.map(total => ({ ht: total, wt: 0, mt: 0, total })),
+  ...patch,
+});
+
+describe('westinghouseRating', () => {
+  it('is 100 for average grades', () => {
+      expect(westinghouseRating(AVERAGE_GRADES)).toBe(100);
+  });
+
+  it('adds the four factor adjustments', () => {
+      // Skill B1 +0.11, effort C2 +0.02, conditions C +0.02, consistency C +0.01
+      expect(westinghouseRating({ skill: 'B1', effort: 'C2', conditions: 'C', consistency: 'C' })).toBe(116);
+      // Skill E2 -0.10, effort F1 -0.12, conditions F -0.07, consistency E -0.02
+      expect(westinghouseRating({ skill: 'E2', effort: 'F1', conditions: 'F', consistency: 'E' })).toBe(69);
+  });
+});
+
+describe('syntheticRating', () => {
+  it('is the PMTS time over the observed mean', () => {
+      expect(syntheticRating(task([4, 6]), 4.5)).toBe(90);
+      expect(syntheticRating(task([2]), 2.5)).toBe(125);
+  });
+
+  it('leaves out excluded rounds', () => {
+      const t = task([5, 50]);
+      t.rounds[1] = { ...t.rounds[1]!, exclusion: { rule: 'manual', reason: 'jam' } };
+      expect(syntheticRating(t, 5)).toBe(100);
+  });
+
+  it('is null without rounds or PMTS time', () => {
+      expect(syntheticRating(task([]), 4)).toBeNull();
+      expect(syntheticRating(task([5]), 0)).toBeNull();
+  });
+});
+
+describe('applyRating', () => {
+  it('writes the method\'s rating and keeps the task object when it is current', () => {
+      const rated = setRatingMethod(task([5]), 'westinghouse');
+      expect(rated.rating).toBe(100);
+      expect(applyRating(rated)).toBe(rated);
+
+      const synthetic = applyRating({ ...rated, ratingBreakdown: { method: 'synthetic', synthetic: { codes: ['M4G1'], pmtsTime: 4 } } });
+      expect(synthetic.rating).toBe(80);
+  });
+});
@@ -0,0 +1,101 @@
+
+import { RatingBreakdown, RatingMethod, WestinghouseFactor, WorkStudyTask } from '../types';
+import { observedRounds } from './standardTime';
+
+// Performance rating methods. `task.rating` always holds the rating in use;
+// the breakdown records how it was obtained and is re-applied when the
+// rounds change (synthetic rating follows the observed mean).
+
+export const RATING_METHODS: { id: RatingMethod, label: string }[] = [
+  { id: 'direct', label: 'กำหนดเอง (Direct)' },
+  { id: 'westinghouse', label: 'Westinghouse' },
+  { id: 'synthetic', label: 'Synthetic (PMTS)' },
+  { id: 'perRound', label: 'รายรอบ (Per Round)' },
+];
+
+// Westinghouse (Lowry, Maynard & Stegemerten) factor tables: grade -> adjustment
+export const WESTINGHOUSE: Record<WestinghouseFactor, { label: string, grades: { grade: string, label: string, value: number }[] }> = {
+  skill: { label: 'Skill', grades: [
+      { grade: 'A1', label: 'Superskill', value: 0.15 }, { grade: 'A2', label: 'Superskill', value: 0.13 },
+      { grade: 'B1', label: 'Excellent', value: 0.11 }, { grade: 'B2', label: 'Excellent', value: 0.08 },
+      { grade: 'C1', label: 'Good', value: 0.06 }, { grade: 'C2', label: 'Good', value: 0.03 },
+      { grade: 'D', label: 'Average', value: 0 },
+      { grade: 'E1', label: 'Fair', value: -0.05 }, { grade: 'E2', label: 'Fair', value: -0.10 },
+      { grade: 'F1', label: 'Poor', value: -0.16 }, { grade: 'F2', label: 'Poor', value: -0.22 },
+  ] },
+  effort: { label: 'Effort', grades: [
+      { grade: 'A1', label: 'Excessive', value: 0.13 }, { grade: 'A2', label: 'Excessive', value: 0.12 },
+      { grade: 'B1', label: 'Excellent', value: 0.10 }, { grade: 'B2', label: 'Excellent', value: 0.08 },
+      { grade: 'C1', label: 'Good', value: 0.05 }, { grade: 'C2', label: 'Good', value: 0.02 },
+      { grade: 'D', label: 'Average', value: 0 },
+      { grade: 'E1', label: 'Fair', value: -0.04 }, { grade: 'E2', label: 'Fair', value: -0.08 },
+      { grade: 'F1', label: 'Poor', value: -0.12 }, { grade: 'F2', label: 'Poor', value: -0.17 },
+  ] },
+  conditions: { label: 'Conditions', grades: [
+      { grade: 'A', label: 'Ideal', value: 0.06 }, { grade: 'B', label: 'Excellent', value: 0.04 },
+      { grade: 'C', label: 'Good', value: 0.02 }, { grade: 'D', label: 'Average', value: 0 },
+      { grade: 'E', label: 'Fair', value: -0.03 }, { grade: 'F', label: 'Poor', value: -0.07 },
+  ] },
+  consistency: { label: 'Consistency', grades: [
+      { grade: 'A', label: 'Perfect', value: 0.04 }, { grade: 'B', label: 'Excellent', value: 0.03 },
+      { grade: 'C', label: 'Good', value: 0.01 }, { grade: 'D', label: 'Average', value: 0 },
+      { grade: 'E', label: 'Fair', value: -0.02 }, { grade: 'F', label: 'Poor', value: -0.04 },
+  ] },
+};
+
+export const WESTINGHOUSE_FACTORS = Object.keys(WESTINGHOUSE) as WestinghouseFactor[];
+export const AVERAGE_GRADES: Record<WestinghouseFactor, string> = { skill: 'D', effort: 'D', conditions: 'D', consistency: 'D' };
+
+const gradeValue = (factor: WestinghouseFactor, grade: string) =>
+  WESTINGHOUSE[factor].grades.find(g => g.grade === grade)?.value ?? 0;
+
+export const westinghouseRating = (grades: Record<WestinghouseFactor, string>): number =>
+  Math.round(100 * (1 + WESTINGHOUSE_FACTORS.reduce((acc, f) => acc + gradeValue(f, grades[f]), 0)));
+
+// PMTS time of the element against its observed mean; null until a round is counted
+export const syntheticRating = (task: WorkStudyTask, pmtsTime: number): number | null => {
+  const rounds = observedRounds(task);
+  if (rounds.length === 0 || pmtsTime <= 0) return null;
+  const observed = rounds.reduce((acc, r) => acc + r.total, 0) / rounds.length;
+  return observed > 0 ? Math.round(100 * pmtsTime / observed) : null;
+};
+
+/** Recomputes `rating` from the breakdown; returns the same task object when nothing changed. */
+export const applyRating = (task: WorkStudyTask): WorkStudyTask => {
+  const b = task.ratingBreakdown;
+  let rating: number | null = null;
+  if (b?.method === 'westinghouse' && b.westinghouse) rating = westinghouseRating(b.westinghouse);
+  if (b?.method === 'synthetic' && b.synthetic) rating = syntheticRating(task, b.synthetic.pmtsTime);
+  return rating === null || rating === task.rating ? task : { ...task, rating };
+};
+
+export const setRatingMethod = (task: WorkStudyTask, method: RatingMethod): WorkStudyTask => {
+  const prev = task.ratingBreakdown;
+  const breakdown: RatingBreakdown = { method };
+  if (method === 'westinghouse') breakdown.westinghouse = prev?.westinghouse || { ...AVERAGE_GRADES };
+  if (method === 'synthetic') breakdown.synthetic = prev?.synthetic || { codes: [], pmtsTime: 0 };
+  return applyRating({ ...task, ratingBreakdown: breakdown });
+};
+
+// One line for reports and tooltips
+export const describeRating = (task: WorkStudyTask): string => {
+  const b = task.ratingBreakdown;
+  switch (b?.method) {
+      case 'westinghouse': {
+          if (!b.westinghouse) return '';
+          return WESTINGHOUSE_FACTORS.map(f => {
+              const v = gradeValue(f, b.westinghouse![f]);
+              return `${WESTINGHOUSE[f].label} ${b.westinghouse![f]} ${v >= 0 ? '+' : ''}${v.toFixed(2)}`;
+          }).join(', ');
+      }
+      case 'synthetic':
+          return b.synthetic ? `PMTS ${b.synthetic.pmtsTime.toFixed(3)}s (${b.synthetic.codes.join(' ') || '-'})` : '';
+      case 'perRound':
+          return task.rounds
+              .map((r, i) => r && !r.exclusion ? `R${i + 1} ${r.rating ?? task.rating}%` : null)
+              .filter(Boolean)
+              .join(', ');
+      default:
+          return '';
+  }
+};
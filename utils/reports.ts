@@ -0,0 +1,105 @@
+
+import XLSX from 'xlsx';
+import { Cycle, ObservationTarget, WorkStudyTask } from '../types';
+import { valueSplit } from './actionTimeline';
+import { describeRating } from './rating';
+import { describeAllowance } from './allowance';
+import { DEFAULT_OBSERVATION_TARGET, cycleTime, elementTime, requiredObservations, roundCycleTime } from './standardTime';
+
+// Excel reports shared by the download buttons and the project bundle.
+
+export const buildCycleReport = (cycles: Cycle[]): XLSX.WorkBook => {
+  // 1. Calculate Stats (Exclude Abnormal for Avg)
+  const validDurations = cycles.filter(c => c.status !== 'abnormal').map(c => c.duration);
+  const totalTime = validDurations.reduce((a, b) => a + b, 0);
+  const avgTime = validDurations.length > 0 ? totalTime / validDurations.length : 0;
+  const minTime = validDurations.length > 0 ? Math.min(...validDurations) : 0;
+  const maxTime = validDurations.length > 0 ? Math.max(...validDurations) : 0;
+  const range = maxTime - minTime;
+  const stdDev = validDurations.length > 0 ? Math.sqrt(validDurations.reduce((a, b) => a + Math.pow(b - avgTime, 2), 0) / validDurations.length) : 0;
+  
+  // 2. Prepare Data Sheets
+  const wb = XLSX.utils.book_new();
+
+  // --- Sheet 1: Summary Report ---
+  const summaryData: any[][] = [
+      ["AI ANALYST - PRODUCTION REPORT"],
+      ["Generated:", new Date().toLocaleString()],
+      [],
+      ["SUMMARY STATISTICS (Valid Cycles)", "", "CAPACITY ANALYSIS (Est.)"],
+      ["Total Cycles", String(cycles.length), "Shift Duration (Hrs)", "8"],
+      ["Valid Cycles", String(validDurations.length), "Abnormal/Break Cycles", String(cycles.length - validDurations.length)],
+      ["Human-Verified Cycles", `${cycles.filter(c => c.verified).length} / ${cycles.length}`],
+      ["Average Cycle Time", avgTime.toFixed(3), "Operating Time (Min)", "460"],
+      ["Minimum Time", minTime.toFixed(3), "Daily Output (Units)", avgTime > 0 ? String(Math.floor((460*60)/avgTime)) : "-"],
+      ["Maximum Time", maxTime.toFixed(3), "Utilization %", "100%"], // Placeholder
+      ["Range (Fluctuation)", range.toFixed(3)],
+      ["Standard Deviation", stdDev.toFixed(3)],
+      ["Stability Score", stdDev < 1 ? "HIGH" : stdDev < 3 ? "MEDIUM" : "LOW"],
+  ];
+  const wsSummary = XLSX.utils.aoa_to_sheet(summaryData);
+  
+  // Style adjustments (width)
+  (wsSummary as any)['!cols'] = [{ wch: 20 }, { wch: 15 }, { wch: 20 }, { wch: 15 }];
+  XLSX.utils.book_append_sheet(wb, wsSummary, "Summary Report");
+
+  // --- Sheet 2: Raw Data ---
+  const rawData: any[][] = [
+      ["Cycle ID", "Start Time (s)", "End Time (s)", "Duration (s)", "Status", "Deviation from Avg", "Verified", "VA (s)", "NNVA (s)", "NVA (s)"]
+  ];
+  cycles.forEach(c => {
+      const split = c.actionTime ? valueSplit(c.actionTime) : null; // Pose-measured only
+      rawData.push([
+          c.id,
+          c.startTime.toFixed(3),
+          c.endTime.toFixed(3),
+          c.duration.toFixed(3),
+          c.status.toUpperCase(),
+          (c.duration - avgTime).toFixed(3),
+          c.verified ? "YES" : "NO",
+          split ? split.va.toFixed(3) : "-",
+          split ? split.nnva.toFixed(3) : "-",
+          split ? split.nva.toFixed(3) : "-"
+      ]);
+  });
+  const wsRaw = XLSX.utils.aoa_to_sheet(rawData);
+  (wsRaw as any)['!cols'] = [{ wch: 15 }, { wch: 15 }, { wch: 15 }, { wch: 15 }, { wch: 10 }, { wch: 15 }, { wch: 10 }, { wch: 10 }, { wch: 10 }, { wch: 10 }];
+  XLSX.utils.book_append_sheet(wb, wsRaw, "Raw Data");
+
+  return wb;
+};
+
+export const buildWorkStudyReport = (tasks: WorkStudyTask[], taktTime: number, target: ObservationTarget = DEFAULT_OBSERVATION_TARGET): XLSX.WorkBook => {
+  const wb = XLSX.utils.book_new();
+  const rows: any[][] = [
+      ["WORK STUDY - STANDARD TIME"],
+      ["Generated:", new Date().toLocaleString(), "Takt Time (s)", taktTime, "Sample Size", `${target.confidence}% confidence, ±${target.accuracy}% accuracy`],
+      [],
+      ["#", "Element", "Activity", "Rounds", "Observed (s)", "Rating (%)", "Rating Method", "Rating Detail", "Normal (s)", "Allowance (%)", "Allowance Detail", "Standard (s)", "Required Rounds", "Excluded Rounds"]
+  ];
+  tasks.forEach((task, i) => {
+      const t = elementTime(task);
+      const check = requiredObservations(task, target);
+      // Excluded rounds stay listed with their value and reason for traceability
+      const excluded = task.rounds
+          .map((r, ri) => r?.exclusion ? `R${ri + 1} ${r.total.toFixed(2)}s: ${r.exclusion.reason}` : null)
+          .filter(Boolean)
+          .join('; ');
+      rows.push([i + 1, task.name, task.activity, t.rounds, t.observed.toFixed(3), task.rating, task.ratingBreakdown?.method || 'direct', describeRating(task), t.normal.toFixed(3), task.allowance, task.allowanceBreakdown ? describeAllowance(task.allowanceBreakdown) : '', t.standard.toFixed(3), check.required ?? '', excluded]);
+  });
+  const total = cycleTime(tasks);
+  rows.push([], ["", "Cycle Total", "", "", total.observed.toFixed(3), "", "", "", total.normal.toFixed(3), "", "", total.standard.toFixed(3)]);
+
+  // Each observed cycle: the same round of every element
+  rows.push([], ["", "Observed Cycles", "", "Elements", "Observed (s)", "", "", "", "Normal (s)", "", "", "Standard (s)"]);
+  const roundCount = Math.max(0, ...tasks.map(t => t.rounds.length));
+  for (let r = 0; r < roundCount; r++) {
+      const c = roundCycleTime(tasks, r);
+      if (!c) continue;
+      rows.push(["", `Round ${r + 1}`, "", tasks.filter(t => t.rounds[r]).length, c.observed.toFixed(3), "", "", "", c.normal.toFixed(3), "", "", c.standard.toFixed(3)]);
+  }
+  const ws = XLSX.utils.aoa_to_sheet(rows);
+  (ws as any)['!cols'] = [{ wch: 5 }, { wch: 30 }, { wch: 12 }, { wch: 8 }, { wch: 12 }, { wch: 10 }, { wch: 14 }, { wch: 50 }, { wch: 12 }, { wch: 12 }, { wch: 40 }, { wch: 12 }, { wch: 14 }, { wch: 50 }];
+  XLSX.utils.book_append_sheet(wb, ws, "Standard Time");
+  return wb;
+};
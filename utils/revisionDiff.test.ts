@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { ProjectData, WorkStudyTask } from '../types';
+import { emptyProject } from './projectSchema';
+import { diffProjects, isEmptyDiff } from './revisionDiff';
+
+const task = (id: string, totals: (number | null)[], patch: Partial<WorkStudyTask> = {}): WorkStudyTask => ({
+  id, name: id.toUpperCase(), activity: 'Operation', rating: 100, allowance: 0,
+  rounds: totals.map(total => total === null ? null : { ht: total, wt: 0, mt: 0, total }),
+  ...patch,
+});
+
+const project = (tasks: WorkStudyTask[], patch: Partial<ProjectData> = {}): ProjectData => ({ ...emptyProject(), workStudyTasks: tasks, updatedAt: 1, ...patch });
+
+describe('diffProjects', () => {
+  it('finds nothing between equal revisions', () => {
+      const p = project([task('a', [4, 6])]);
+      expect(isEmptyDiff(diffProjects(p, project([task('a', [4, 6])])))).toBe(true);
+  });
+
+  it('lists added and removed tasks by id', () => {
+      const diff = diffProjects(project([task('a', [4]), task('b', [2])]), project([task('a', [4]), task('c', [3])]));
+      expect(diff.added).toEqual([{ id: 'c', name: 'C' }]);
+      expect(diff.removed).toEqual([{ id: 'b', name: 'B' }]);
+      expect(diff.changed).toEqual([]);
+      expect(diff.standardTotal).toEqual({ before: 6, after: 7 });
+  });
+
+  it('reports changed fields under the new name, not as a new task', () => {
+      const diff = diffProjects(project([task('a', [4])]), project([task('a', [4], { name: 'Assemble', rating: 110 })]));
+      expect(diff.added).toEqual([]);
+      expect(diff.changed).toHaveLength(1);
+      expect(diff.changed[0]).toMatchObject({ id: 'a', name: 'Assemble', rounds: [] });
+      expect(diff.changed[0].fields).toEqual([
+          { field: 'name', before: 'A', after: 'Assemble' },
+          { field: 'rating', before: 100, after: 110 },
+      ]);
+      expect(diff.changed[0].standard.before).toBeCloseTo(4);
+      expect(diff.changed[0].standard.after).toBeCloseTo(4.4);
+  });
+
+  it('lists added, removed and retimed rounds', () => {
+      const diff = diffProjects(project([task('a', [4, 5, null])]), project([task('a', [4, null, 6, 7])]));
+      expect(diff.changed[0].rounds).toEqual([
+          { round: 1, before: 5, after: null },
+          { round: 2, before: null, after: 6 },
+          { round: 3, before: null, after: 7 },
+      ]);
+  });
+
+  it('reports takt time and cycle count changes', () => {
+      const cycle = { id: 1, startTime: 0, endTime: 4, duration: 4, status: 'ok' as const };
+      const diff = diffProjects(project([], { taktTime: 10 }), project([], { taktTime: 12, cycles: [cycle] }));
+      expect(diff.taktTime).toEqual({ before: 10, after: 12 });
+      expect(diff.cycles).toEqual({ before: 0, after: 1 });
+      expect(isEmptyDiff(diff)).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+
+import { ProjectData, WorkStudyTask } from '../types';
+import { elementTime } from './standardTime';
+
+// Differences between two saved states of a project, as shown in the
+// revision history. Tasks are matched by id, so a renamed element shows as a
+// change rather than as one removed and one added.
+
+export interface ValueChange<T> {
+  before: T;
+  after: T;
+}
+
+export interface RoundChange {
+  round: number;          // 0-based round index
+  before: number | null;  // round.total (s); null = not timed
+  after: number | null;
+}
+
+export interface TaskChange {
+  id: string;
+  name: string;
+  fields: { field: 'name' | 'activity' | 'rating' | 'allowance', before: string | number, after: string | number }[];
+  rounds: RoundChange[];
+  standard: ValueChange<number>; // Standard time (s)
+}
+
+export interface RevisionDiff {
+  taktTime: ValueChange<number> | null;
+  added: { id: string, name: string }[];
+  removed: { id: string, name: string }[];
+  changed: TaskChange[];
+  cycles: ValueChange<number>;
+  standardTotal: ValueChange<number>; // Sum of element standard times (s)
+}
+
+const TASK_FIELDS: TaskChange['fields'][number]['field'][] = ['name', 'activity', 'rating', 'allowance'];
+
+const roundTotal = (task: WorkStudyTask, i: number) => task.rounds[i] ? task.rounds[i]!.total : null;
+
+const totalStandard = (tasks: WorkStudyTask[]) => tasks.reduce((acc, t) => acc + elementTime(t).standard, 0);
+
+const diffTask = (before: WorkStudyTask, after: WorkStudyTask): TaskChange | null => {
+  const fields = TASK_FIELDS
+    .filter(f => before[f] !== after[f])
+    .map(f => ({ field: f, before: before[f], after: after[f] }));
+
+  const rounds: RoundChange[] = [];
+  const count = Math.max(before.rounds.length, after.rounds.length);
+  for (let i = 0; i < count; i++) {
+      const b = roundTotal(before, i);
+      const a = roundTotal(after, i);
+      if (b !== a) rounds.push({ round: i, before: b, after: a });
+  }
+
+  if (fields.length === 0 && rounds.length === 0) return null;
+  return {
+    id: after.id,
+    name: after.name,
+    fields,
+    rounds,
+    standard: { before: elementTime(before).standard, after: elementTime(after).standard },
+  };
+};
+
+export const diffProjects = (before: ProjectData, after: ProjectData): RevisionDiff => {
+  const beforeTasks = new Map(before.workStudyTasks.map(t => [t.id, t]));
+  const afterIds = new Set(after.workStudyTasks.map(t => t.id));
+
+  const changed: TaskChange[] = [];
+  after.workStudyTasks.forEach(t => {
+      const old = beforeTasks.get(t.id);
+      const change = old && diffTask(old, t);
+      if (change) changed.push(change);
+  });
+
+  return {
+    taktTime: before.taktTime !== after.taktTime ? { before: before.taktTime, after: after.taktTime } : null,
+    added: after.workStudyTasks.filter(t => !beforeTasks.has(t.id)).map(t => ({ id: t.id, name: t.name })),
+    removed: before.workStudyTasks.filter(t => !afterIds.has(t.id)).map(t => ({ id: t.id, name: t.name })),
+    changed,
+    cycles: { before: before.cycles.length, after: after.cycles.length },
+    standardTotal: { before: totalStandard(before.workStudyTasks), after: totalStandard(after.workStudyTasks) },
+  };
+};
+
+export const isEmptyDiff = (diff: RevisionDiff) =>
+  !diff.taktTime && diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0 && diff.cycles.before === diff.cycles.after;
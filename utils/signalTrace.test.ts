@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_TRACE_SAMPLES, capTrace, createTraceRecorder } from './signalTrace';
+
+const sample = (time: number) => ({ time, raw: [0], smooth: [0] });
+
+describe('createTraceRecorder', () => {
+  it('stays within the cap and covers the whole pass', () => {
+    const recorder = createTraceRecorder();
+    const total = MAX_TRACE_SAMPLES * 5;
+    for (let i = 0; i < total; i++) recorder.push(sample(i));
+
+    expect(recorder.samples.length).toBeLessThanOrEqual(MAX_TRACE_SAMPLES);
+    expect(recorder.samples.length).toBeGreaterThan(MAX_TRACE_SAMPLES / 2);
+    expect(recorder.samples[0].time).toBe(0);
+    expect(recorder.samples[recorder.samples.length - 1].time).toBeGreaterThan(total - 16);
+  });
+
+  it('starts over at full rate after a reset', () => {
+    const recorder = createTraceRecorder();
+    for (let i = 0; i <= MAX_TRACE_SAMPLES; i++) recorder.push(sample(i));
+    recorder.reset();
+    recorder.push(sample(0));
+    recorder.push(sample(1));
+    expect(recorder.samples.map(s => s.time)).toEqual([0, 1]);
+  });
+});
+
+describe('capTrace', () => {
+  it('decimates an oversized trace and leaves a small one alone', () => {
+    const small = { stepIds: ['a'], samples: [sample(0), sample(1)] };
+    expect(capTrace(small)).toBe(small);
+
+    const large = { stepIds: ['a'], samples: Array.from({ length: MAX_TRACE_SAMPLES * 3 }, (_, i) => sample(i)) };
+    expect(capTrace(large).samples.length).toBeLessThanOrEqual(MAX_TRACE_SAMPLES);
+  });
+});
@@ -0,0 +1,47 @@
+
+import { SignalSample, SignalTrace } from '../types';
+
+// The signal trace is kept with the project, so its size is bounded: past
+// MAX_TRACE_SAMPLES every other sample is dropped and recording continues at
+// half the rate. The whole pass stays covered at one even resolution.
+
+export const MAX_TRACE_SAMPLES = 30000;
+
+const halve = (samples: SignalSample[]) => samples.filter((_, i) => i % 2 === 0);
+
+export interface TraceRecorder {
+  push: (sample: SignalSample) => void;
+  reset: () => void;
+  readonly samples: SignalSample[];
+}
+
+export const createTraceRecorder = (): TraceRecorder => {
+  let samples: SignalSample[] = [];
+  let stride = 1; // Record every stride-th sample
+  let count = 0;
+  return {
+    push(sample) {
+      if (count++ % stride !== 0) return;
+      samples.push(sample);
+      if (samples.length > MAX_TRACE_SAMPLES) {
+        samples = halve(samples);
+        stride *= 2;
+      }
+    },
+    reset() {
+      samples = [];
+      stride = 1;
+      count = 0;
+    },
+    get samples() {
+      return samples;
+    },
+  };
+};
+
+// For traces recorded before the cap; returns the same object when within it
+export const capTrace = (trace: SignalTrace): SignalTrace => {
+  let samples = trace.samples;
+  while (samples.length > MAX_TRACE_SAMPLES) samples = halve(samples);
+  return samples === trace.samples ? trace : { ...trace, samples };
+};
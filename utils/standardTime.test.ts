@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { WorkStudyTask } from '../types';
+import { DEFAULT_OBSERVATION_TARGET, MAX_PENDING_SLOTS, elementTime, isValidRating, missingRounds, pendingRounds, requiredObservations, roundRating, standardFactor } from './standardTime';
+
+const task = (totals: (number | null)[]): WorkStudyTask => ({
+  id: 't', name: 'T', activity: 'Operation', rating: 100, allowance: 0,
+  rounds: totals.map(total => total === null ? null : { ht: total, wt: 0, mt: 0, total }),
+});
+
+describe('requiredObservations', () => {
+  it('is met by steady rounds', () => {
+      const check = requiredObservations(task([10, 10.1, 9.9, 10]), DEFAULT_OBSERVATION_TARGET);
+      expect(check).toEqual({ observed: 4, required: 2, sufficient: true });
+  });
+
+  it('needs two rounds before it can judge', () => {
+      expect(requiredObservations(task([10]), DEFAULT_OBSERVATION_TARGET).required).toBeNull();
+  });
+});
+
+describe('pendingRounds', () => {
+  it('marks only a few slots ahead when one outlier drives n\' into the thousands', () => {
+      const t = task([1, 1, 1, 100]);
+      const check = requiredObservations(t, DEFAULT_OBSERVATION_TARGET);
+
+      expect(check.required).toBeGreaterThan(5000);
+      expect(missingRounds(check)).toBe(check.required! - 4);
+      expect(pendingRounds(t, check)).toEqual([4, 5, 6, 7, 8].slice(0, MAX_PENDING_SLOTS));
+  });
+
+  it('fills gaps before new rounds', () => {
+      const t = task([10, null, 12, 8]);
+      const check = requiredObservations(t, DEFAULT_OBSERVATION_TARGET);
+      expect(pendingRounds(t, check, 3)).toEqual([1, 4, 5]);
+  });
+});
+
+describe('rating in normal time', () => {
+  it('uses each round\'s own rating under per-round rating', () => {
+      const t = task([10, 10, 10]);
+      t.rating = 90;
+      t.ratingBreakdown = { method: 'perRound' };
+      t.rounds = t.rounds.map((r, i) => i === 2 ? r : { ...r!, rating: [100, 120][i] });
+
+      expect(roundRating(t, t.rounds[2]!)).toBe(0.9); // Not rated on its own: the element's rating
+      expect(elementTime(t).normal).toBeCloseTo((10 + 12 + 9) / 3);
+      expect(standardFactor(t, t.rounds[1]!)).toBeCloseTo(1.2);
+  });
+
+  it('ignores round ratings under other methods', () => {
+      const t = task([10]);
+      t.rounds[0] = { ...t.rounds[0]!, rating: 130 };
+      expect(elementTime(t).normal).toBe(10);
+  });
+
+  it('keeps an explicit 0 instead of turning it into 100, and flags it as invalid', () => {
+      const t = { ...task([10]), rating: 0 };
+      expect(elementTime(t).normal).toBe(0);
+      expect(isValidRating(0)).toBe(false);
+      expect(isValidRating(100)).toBe(true);
+  });
+});
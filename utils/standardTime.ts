@@ -0,0 +1,109 @@
+
+import { ObservationTarget, WorkStudyRound, WorkStudyTask } from '../types';
+
+// Time study arithmetic: observed mean of the timed rounds, normal time
+// (observed × rating) and standard time (normal × (1 + allowance)).
+// Rounds excluded as outliers stay in the task but are not counted.
+
+export interface ElementTime {
+  rounds: number;   // Rounds the mean is based on
+  observed: number; // Mean of round.total (s)
+  normal: number;   // Observed × rating
+  standard: number; // Normal × (1 + allowance)
+}
+
+// Time of a whole cycle: the element times summed
+export interface CycleTime {
+  observed: number;
+  normal: number;
+  standard: number;
+}
+
+// Performance ratings (%) outside this range are typing errors; files holding them are rejected
+export const RATING_RANGE = { min: 10, max: 200 };
+
+export const isValidRating = (rating: number) => Number.isFinite(rating) && rating >= RATING_RANGE.min && rating <= RATING_RANGE.max;
+
+// Rating (as a fraction) of one round: its own under per-round rating, else the element's
+export const roundRating = (task: WorkStudyTask, round: WorkStudyRound): number =>
+  ((task.ratingBreakdown?.method === 'perRound' ? round.rating ?? task.rating : task.rating) ?? 100) / 100;
+
+export const observedRounds = (task: WorkStudyTask): WorkStudyRound[] =>
+  task.rounds.filter((r): r is WorkStudyRound => !!r && !r.exclusion);
+
+export const elementTime = (task: WorkStudyTask): ElementTime => {
+  const rounds = observedRounds(task);
+  const observed = rounds.length ? rounds.reduce((acc, r) => acc + r.total, 0) / rounds.length : 0;
+  const normal = rounds.length ? rounds.reduce((acc, r) => acc + r.total * roundRating(task, r), 0) / rounds.length : 0;
+  const standard = normal * (1 + (task.allowance || 0) / 100);
+  return { rounds: rounds.length, observed, normal, standard };
+};
+
+// Multiplier from an observed time to its standard time; without a round, the element's average
+export const standardFactor = (task: WorkStudyTask, round?: WorkStudyRound): number => {
+  const allowance = 1 + (task.allowance || 0) / 100;
+  if (round) return roundRating(task, round) * allowance;
+  const t = elementTime(task);
+  return t.observed > 0 ? t.standard / t.observed : ((task.rating ?? 100) / 100) * allowance;
+};
+
+// Standard cycle of the study: every element at its mean
+export const cycleTime = (tasks: WorkStudyTask[]): CycleTime =>
+  tasks.reduce((acc, task) => {
+      const t = elementTime(task);
+      return { observed: acc.observed + t.observed, normal: acc.normal + t.normal, standard: acc.standard + t.standard };
+  }, { observed: 0, normal: 0, standard: 0 });
+
+// One observed cycle: round `round` of every element. Detected cycles share one
+// round index across elements (see cycleMapping), so a missed segment leaves a
+// gap rather than shifting later cycles. null when nothing was timed in it
+export const roundCycleTime = (tasks: WorkStudyTask[], round: number): CycleTime | null => {
+  const timed = tasks.filter(t => t.rounds[round] && !t.rounds[round]!.exclusion);
+  if (timed.length === 0) return null;
+  return timed.reduce((acc, task) => {
+      const r = task.rounds[round]!;
+      const normal = r.total * roundRating(task, r);
+      return { observed: acc.observed + r.total, normal: acc.normal + normal, standard: acc.standard + r.total * standardFactor(task, r) };
+  }, { observed: 0, normal: 0, standard: 0 });
+};
+
+// --- SAMPLE SIZE ---
+
+export const CONFIDENCE_Z: Record<number, number> = { 90: 1.645, 95: 1.96, 99: 2.576 };
+export const DEFAULT_OBSERVATION_TARGET: ObservationTarget = { confidence: 95, accuracy: 5 };
+
+export interface ObservationCheck {
+  observed: number;        // Counted rounds
+  required: number | null; // null = fewer than 2 rounds, no variance to judge from
+  sufficient: boolean;
+}
+
+/**
+ * Rounds needed for the element mean to be within ±accuracy of the true mean
+ * at the given confidence: n' = (z·s / (a·x̄))², s = sample standard deviation
+ * of the counted rounds.
+ */
+export const requiredObservations = (task: WorkStudyTask, target: ObservationTarget): ObservationCheck => {
+  const values = observedRounds(task).map(r => r.total);
+  const n = values.length;
+  const mean = n ? values.reduce((a, b) => a + b, 0) / n : 0;
+  if (n < 2 || mean <= 0) return { observed: n, required: null, sufficient: false };
+  const s = Math.sqrt(values.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / (n - 1));
+  const z = CONFIDENCE_Z[target.confidence] ?? CONFIDENCE_Z[95];
+  const required = Math.max(2, Math.ceil(Math.pow((z * s) / ((target.accuracy / 100) * mean), 2)));
+  return { observed: n, required, sufficient: n >= required };
+};
+
+// Rounds still to be timed for the element to reach its required count
+export const missingRounds = (check: ObservationCheck): number => Math.max(0, (check.required ?? 2) - check.observed);
+
+// A noisy element can need thousands of rounds; only this many slots are marked ahead
+export const MAX_PENDING_SLOTS = 5;
+
+// The next empty round slots to time, at most `limit` of them
+export const pendingRounds = (task: WorkStudyTask, check: ObservationCheck, limit: number = MAX_PENDING_SLOTS): number[] => {
+  const missing = Math.min(missingRounds(check), limit);
+  const slots: number[] = [];
+  for (let i = 0; slots.length < missing; i++) if (!task.rounds[i]) slots.push(i);
+  return slots;
+};
@@ -0,0 +1,26 @@
+const THUMB_WIDTH = 160;
+
+// Draws the current frame into a thumbnail-sized canvas (reused when given)
+export const thumbnailCanvas = (video: HTMLVideoElement, canvas = document.createElement('canvas')): HTMLCanvasElement | null => {
+  if (!video.videoWidth) return null;
+  canvas.width = THUMB_WIDTH;
+  canvas.height = Math.round(THUMB_WIDTH * video.videoHeight / video.videoWidth);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+export const canvasToThumbnail = (canvas: HTMLCanvasElement): string | undefined => {
+  try {
+      return canvas.toDataURL('image/jpeg', 0.6);
+  } catch (e) {
+      return undefined; // Tainted by a cross-origin stream
+  }
+};
+
+// Small JPEG of the frame on screen, used by the cycle review list
+export const captureThumbnail = (video: HTMLVideoElement): string | undefined => {
+  const canvas = thumbnailCanvas(video);
+  return canvas ? canvasToThumbnail(canvas) : undefined;
+};
@@ -0,0 +1,175 @@
+
+import { Rect, Point } from '../types';
+
+// Shared OpenCV pipeline. Every function takes the `cv` runtime explicitly so the
+// same code runs on the UI thread (window.cv) and inside the vision worker.
+
+export const CV_CONFIG = {
+    BLUR_SIZE: 5,
+    DIFF_THRESHOLD: 25,
+    EMA_ALPHA: 0.2,
+    MIN_CYCLE_TIME: 1.0,
+    COOLDOWN: 1.5,
+    ADAPT_RATE: 0.005,     // Background learning rate per frame (~10s time constant at 20 fps)
+    EXPOSURE_GAIN_MAX: 2,  // Limit of the brightness correction in either direction
+};
+
+export interface ZoneScoreOptions {
+    normalizeExposure?: boolean;
+}
+
+/** Raw pixels of a Mat, used to move references between threads. */
+export interface MatPayload {
+    rows: number;
+    cols: number;
+    type: number;
+    data: Uint8Array;
+}
+
+export const safeDelete = (mat: any) => {
+    if (mat && typeof mat.delete === 'function' && !mat.isDeleted()) {
+        try { mat.delete(); } catch (e) { console.warn("Failed to delete mat", e); }
+    }
+};
+
+export const matToPayload = (mat: any): MatPayload => ({
+    rows: mat.rows,
+    cols: mat.cols,
+    type: mat.type(),
+    data: new Uint8Array(mat.data),
+});
+
+export const matFromPayload = (cv: any, payload: MatPayload) => {
+    const mat = new cv.Mat(payload.rows, payload.cols, payload.type);
+    mat.data.set(payload.data);
+    return mat;
+};
+
+export const extractRoiMat = (cv: any, rect: Rect, sourceMat: any) => {
+    let x = Math.floor(rect.x); let y = Math.floor(rect.y);
+    let w = Math.floor(rect.width); let h = Math.floor(rect.height);
+    if (x < 0) { w += x; x = 0; }
+    if (y < 0) { h += y; y = 0; }
+    if (x + w > sourceMat.cols) w = sourceMat.cols - x;
+    if (y + h > sourceMat.rows) h = sourceMat.rows - y;
+    if (w <= 1 || h <= 1) return null;
+    const cvRect = new cv.Rect(x, y, w, h);
+    const roi = sourceMat.roi(cvRect);
+    const clone = roi.clone();
+    roi.delete();
+    return clone;
+};
+
+/**
+ * Converts an RGBA zone crop into the blurred grayscale background model.
+ */
+export const buildReferenceMat = (cv: any, rgbaRoi: any) => {
+    const gray = new cv.Mat();
+    cv.cvtColor(rgbaRoi, gray, cv.COLOR_RGBA2GRAY);
+    const blurred = new cv.Mat();
+    const ksize = new cv.Size(CV_CONFIG.BLUR_SIZE, CV_CONFIG.BLUR_SIZE);
+    cv.GaussianBlur(gray, blurred, ksize, 0, 0, cv.BORDER_DEFAULT);
+    safeDelete(gray);
+    return blurred;
+};
+
+// Blurred grayscale crop of a zone in the current frame, aligned by the anchor offset
+const blurredZoneRoi = (cv: any, currentFrameGray: any, rect: Rect, offset: Point) => {
+    const adjustedRect = { ...rect, x: rect.x + offset.x, y: rect.y + offset.y };
+    const roi = extractRoiMat(cv, adjustedRect, currentFrameGray);
+    if (!roi) return null;
+    const blurred = new cv.Mat();
+    const ksize = new cv.Size(CV_CONFIG.BLUR_SIZE, CV_CONFIG.BLUR_SIZE);
+    cv.GaussianBlur(roi, blurred, ksize, 0, 0, cv.BORDER_DEFAULT);
+    safeDelete(roi);
+    return blurred;
+};
+
+/**
+ * Scales the crop so its mean brightness matches the reference, cancelling
+ * global lighting changes (clouds, headlamps) before differencing.
+ */
+const normalizeExposure = (cv: any, blurred: any, refMat: any) => {
+    const current = cv.mean(blurred)[0];
+    const target = cv.mean(refMat)[0];
+    if (current < 1) return;
+    const gain = Math.min(CV_CONFIG.EXPOSURE_GAIN_MAX, Math.max(1 / CV_CONFIG.EXPOSURE_GAIN_MAX, target / current));
+    blurred.convertTo(blurred, -1, gain, 0);
+};
+
+export const calculateChangeScore = (cv: any, currentFrameGray: any, refMat: any, rect: Rect, offset: Point, options: ZoneScoreOptions = {}): number => {
+    try {
+        if (!refMat || refMat.isDeleted()) return 0;
+
+        const blurred = blurredZoneRoi(cv, currentFrameGray, rect, offset);
+        if (!blurred) return 0;
+        if (options.normalizeExposure) normalizeExposure(cv, blurred, refMat);
+
+        const diff = new cv.Mat();
+        cv.absdiff(blurred, refMat, diff);
+
+        const thresholded = new cv.Mat();
+        cv.threshold(diff, thresholded, CV_CONFIG.DIFF_THRESHOLD, 255, cv.THRESH_BINARY);
+
+        const nonZero = cv.countNonZero(thresholded);
+        const totalPixels = rect.width * rect.height;
+        const score = totalPixels > 0 ? nonZero / totalPixels : 0;
+
+        safeDelete(blurred); safeDelete(diff); safeDelete(thresholded);
+        return score;
+    } catch (e) { return 0; }
+};
+
+/**
+ * Blends the current zone crop into its reference (running average). Only call
+ * while the zone is idle, otherwise the operator becomes part of the background.
+ */
+export const adaptReferenceMat = (cv: any, currentFrameGray: any, refMat: any, rect: Rect, offset: Point, rate: number = CV_CONFIG.ADAPT_RATE) => {
+    try {
+        if (!refMat || refMat.isDeleted()) return;
+        const blurred = blurredZoneRoi(cv, currentFrameGray, rect, offset);
+        if (!blurred) return;
+        if (blurred.rows === refMat.rows && blurred.cols === refMat.cols) {
+            cv.addWeighted(blurred, rate, refMat, 1 - rate, 0, refMat);
+        }
+        safeDelete(blurred);
+    } catch (e) { console.warn("Reference update failed", e); }
+};
+
+/**
+ * Template-matches the anchor around its last known position.
+ * Returns the new offset, `lost: true` with the previous offset, or null on a CV error.
+ */
+export const trackAnchor = (cv: any, fullFrameMat: any, anchorMat: any, anchorRect: Rect, lastOffset: Point): { offset: Point, lost: boolean } | null => {
+    try {
+        const margin = 50;
+        const lastX = anchorRect.x + lastOffset.x;
+        const lastY = anchorRect.y + lastOffset.y;
+
+        let searchX = Math.max(0, lastX - margin);
+        let searchY = Math.max(0, lastY - margin);
+        let searchW = Math.min(fullFrameMat.cols - searchX, anchorRect.width + (margin * 2));
+        let searchH = Math.min(fullFrameMat.rows - searchY, anchorRect.height + (margin * 2));
+
+        const searchRect = new cv.Rect(searchX, searchY, searchW, searchH);
+        const searchRoi = fullFrameMat.roi(searchRect);
+
+        const result = new cv.Mat();
+        const mask = new cv.Mat();
+
+        cv.matchTemplate(searchRoi, anchorMat, result, cv.TM_CCOEFF_NORMED, mask);
+        const minMax = cv.minMaxLoc(result, mask);
+
+        safeDelete(result); safeDelete(mask); safeDelete(searchRoi);
+
+        if (minMax.maxVal > 0.6) {
+            const foundX = searchX + minMax.maxLoc.x;
+            const foundY = searchY + minMax.maxLoc.y;
+            return { offset: { x: foundX - anchorRect.x, y: foundY - anchorRect.y }, lost: false };
+        }
+        return { offset: lastOffset, lost: true };
+    } catch (e) {
+        console.error("Tracking failed", e);
+        return null;
+    }
+};
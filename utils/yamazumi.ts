@@ -0,0 +1,119 @@
+
+import { LineConfig, StationNode, WorkStudyTask, YamazumiBaseline, YamazumiStation } from '../types';
+import { elementTime, observedRounds } from './standardTime';
+
+// Station model behind the element and line Yamazumi: each station stacks its
+// Work Study elements at standard time.
+
+export const DEFAULT_PLANNED_EFFICIENCY = 85;
+
+export const stationFromTasks = (id: string, name: string, tasks: WorkStudyTask[], operators: number = 1): YamazumiStation => ({
+  id,
+  name,
+  operators,
+  elements: tasks
+      .map(task => ({ id: task.id, name: task.name, activity: task.activity || 'Operation', time: elementTime(task).standard }))
+      .filter(e => e.time > 0),
+});
+
+export const stationWorkContent = (station: YamazumiStation) =>
+  station.elements.reduce((acc, e) => acc + e.time, 0);
+
+// Cycle time of a station: its work content shared by its operators
+export const stationCycleTime = (station: YamazumiStation) =>
+  stationWorkContent(station) / Math.max(1, station.operators);
+
+// A line with every element in one station, for studies that were never balanced
+export const defaultLine = (tasks: WorkStudyTask[]): LineConfig => ({
+  stations: [{ id: crypto.randomUUID(), name: 'Station 1', operators: 1, taskIds: tasks.map(t => t.id) }],
+  plannedEfficiency: DEFAULT_PLANNED_EFFICIENCY,
+});
+
+export const lineToYamazumi = (line: LineConfig, tasks: WorkStudyTask[]): YamazumiStation[] => {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  return line.stations.map(s => stationFromTasks(
+      s.id,
+      s.name,
+      s.taskIds.map(id => byId.get(id)).filter((t): t is WorkStudyTask => !!t),
+      s.operators
+  ));
+};
+
+/**
+ * Digital Twin stations from the line layout. Cycle time is the standard work
+ * content per operator; the spread combines the elements' round-to-round spread.
+ */
+export const lineToStationNodes = (line: LineConfig, tasks: WorkStudyTask[]): StationNode[] => {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  return line.stations.map((s, idx) => {
+      const stationTasks = s.taskIds.map(id => byId.get(id)).filter((t): t is WorkStudyTask => !!t);
+      const operators = Math.max(1, s.operators);
+      const work = stationTasks.reduce((acc, t) => acc + elementTime(t).standard, 0);
+      const varianceSum = stationTasks.reduce((acc, t) => {
+          const rounds = observedRounds(t);
+          if (rounds.length < 2) return acc;
+          const mean = rounds.reduce((a, r) => a + r.total, 0) / rounds.length;
+          return acc + rounds.reduce((a, r) => a + Math.pow(r.total - mean, 2), 0) / rounds.length;
+      }, 0);
+      const cycleTime = work / operators;
+      return {
+          id: s.id,
+          name: s.name,
+          baseCycleTime: cycleTime,
+          variance: varianceSum > 0 ? Math.sqrt(varianceSum) / operators : cycleTime * 0.1,
+          operators,
+          bufferSize: 3,
+          currentWIP: idx === 0 ? 50 : 0,
+          status: 'IDLE',
+          progress: 0,
+          totalProcessed: 0,
+          totalTimeState: { IDLE: 0, BUSY: 0, BLOCKED: 0, STARVED: 0, DOWN: 0 }
+      };
+  });
+};
+
+export const createBaseline = (name: string, stations: YamazumiStation[], taktTime: number): YamazumiBaseline => ({
+  id: crypto.randomUUID(),
+  name,
+  createdAt: Date.now(),
+  taktTime,
+  stations: stations.map(s => ({ ...s, elements: s.elements.map(e => ({ ...e })) })),
+});
+
+export interface StationDelta {
+  id: string;
+  name: string;
+  before: YamazumiStation | null; // null = station added since the baseline
+  after: YamazumiStation | null;  // null = station removed since the baseline
+  beforeTime: number;             // Station cycle time (s)
+  afterTime: number;
+  delta: number;                  // afterTime - beforeTime; negative is an improvement
+}
+
+/**
+ * Pairs baseline and current stations by id, then by name. Current stations
+ * keep their order; stations that no longer exist are appended at the end.
+ */
+export const compareStations = (baseline: YamazumiStation[], current: YamazumiStation[]): StationDelta[] => {
+  const unmatched = [...baseline];
+  const take = (s: YamazumiStation) => {
+      let idx = unmatched.findIndex(b => b.id === s.id);
+      if (idx < 0) idx = unmatched.findIndex(b => b.name === s.name);
+      return idx >= 0 ? unmatched.splice(idx, 1)[0] : null;
+  };
+  const row = (before: YamazumiStation | null, after: YamazumiStation | null): StationDelta => {
+      const beforeTime = before ? stationCycleTime(before) : 0;
+      const afterTime = after ? stationCycleTime(after) : 0;
+      const ref = (after || before)!;
+      return { id: ref.id, name: ref.name, before, after, beforeTime, afterTime, delta: afterTime - beforeTime };
+  };
+  const rows = current.map(s => row(take(s), s));
+  return [...rows, ...unmatched.map(b => row(b, null))];
+};
+
+// Total work content before and after, and the reduction in % of the baseline
+export const workContentReduction = (baseline: YamazumiStation[], current: YamazumiStation[]) => {
+  const before = baseline.reduce((acc, s) => acc + stationWorkContent(s), 0);
+  const after = current.reduce((acc, s) => acc + stationWorkContent(s), 0);
+  return { before, after, saved: before - after, percent: before > 0 ? ((before - after) / before) * 100 : 0 };
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { createZip, openZip } from './zipArchive';
+
+const text = 'กระบวนการ '.repeat(500);
+const video = new Blob([new Uint8Array(100_000).map((_, i) => (i * 31) & 0xff)], { type: 'video/mp4' });
+
+describe('zipArchive', () => {
+  it('writes archives other zip readers accept', async () => {
+      const archive = await createZip([
+          { path: 'project.json', data: text, compress: true },
+          { path: 'video/clip.mp4', data: video },
+      ]);
+      const zip = await JSZip.loadAsync(new Uint8Array(await archive.arrayBuffer()), { checkCRC32: true });
+
+      expect(await zip.file('project.json')!.async('string')).toBe(text);
+      expect((await zip.file('video/clip.mp4')!.async('uint8array')).length).toBe(video.size);
+  });
+
+  it('reads its own archives and those written by JSZip', async () => {
+      const ours = await createZip([{ path: 'a.txt', data: text, compress: true }, { path: 'video/clip.mp4', data: video }]);
+      const jszip = new JSZip();
+      jszip.file('a.txt', text);
+      jszip.file('video/clip.mp4', await video.arrayBuffer(), { compression: 'STORE' });
+      const theirs = new Blob([await jszip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' })]);
+
+      for (const archive of [ours, theirs]) {
+          const zip = await openZip(archive);
+          expect(zip.paths.sort()).toEqual(['a.txt', 'video/clip.mp4']);
+          expect(await zip.text('a.txt')).toBe(text);
+          const clip = await zip.file('video/clip.mp4');
+          expect(new Uint8Array(await clip!.arrayBuffer())).toEqual(new Uint8Array(await video.arrayBuffer()));
+          expect(await zip.file('missing')).toBeNull();
+      }
+  });
+
+  it('rejects data that is not a zip', async () => {
+      await expect(openZip(new Blob(['not a zip']))).rejects.toThrow('Not a zip archive');
+  });
+});
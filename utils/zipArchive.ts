@@ -0,0 +1,257 @@
+
+// Minimal zip writer and reader that work on Blobs, so an archive holding a
+// large video never has to be in memory at once. The writer assembles the
+// archive from Blob parts that reference the source files; the reader returns
+// entries as slices of the archive. Entries are stored or raw-deflated; sizes
+// and offsets past 4 GB use the ZIP64 extensions.
+
+export interface ZipEntryInput {
+  path: string;
+  data: Blob | ArrayBuffer | string;
+  compress?: boolean; // Deflate in memory; leave off for large or already compressed data
+}
+
+export interface ZipArchive {
+  paths: string[];
+  file: (path: string) => Promise<Blob | null>;
+  text: (path: string) => Promise<string | null>;
+}
+
+const SIG_LOCAL = 0x04034b50;
+const SIG_CENTRAL = 0x02014b50;
+const SIG_END = 0x06054b50;
+const SIG_END64 = 0x06064b50;
+const SIG_LOCATOR64 = 0x07064b50;
+const ZIP64_EXTRA = 0x0001;
+const MAX32 = 0xffffffff;
+const MAX16 = 0xffff;
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const END_SIZE = 22;
+const MAX_COMMENT = 0xffff;
+
+// --- CRC-32 ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crcUpdate = (crc: number, bytes: Uint8Array) => {
+  let c = crc;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return c;
+};
+
+// Reads the blob chunk by chunk
+const blobCrc = async (blob: Blob): Promise<number> => {
+  const reader = blob.stream().getReader();
+  let crc = MAX32;
+  for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      crc = crcUpdate(crc, value);
+  }
+  return (crc ^ MAX32) >>> 0;
+};
+
+// --- DEFLATE ---
+
+const canDeflate = () => typeof CompressionStream !== 'undefined';
+
+const pipeBlob = async (blob: Blob, transform: CompressionStream | DecompressionStream): Promise<Blob> =>
+  new Response(blob.stream().pipeThrough(transform)).blob();
+
+// --- WRITER ---
+
+class ByteWriter {
+  private view: DataView;
+  private pos = 0;
+  readonly buffer: ArrayBuffer;
+  constructor(size: number) {
+      this.buffer = new ArrayBuffer(size);
+      this.view = new DataView(this.buffer);
+  }
+  u16(v: number) { this.view.setUint16(this.pos, v, true); this.pos += 2; return this; }
+  u32(v: number) { this.view.setUint32(this.pos, v >>> 0, true); this.pos += 4; return this; }
+  u64(v: number) { this.view.setBigUint64(this.pos, BigInt(v), true); this.pos += 8; return this; }
+  raw(b: Uint8Array) { new Uint8Array(this.buffer).set(b, this.pos); this.pos += b.length; return this; }
+}
+
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+interface PreparedEntry {
+  name: Uint8Array;
+  data: Blob;
+  method: number;
+  crc: number;
+  size: number;           // Uncompressed
+  compressedSize: number;
+  offset: number;         // Of the local header
+}
+
+const zip64Extra = (values: number[]) => {
+  const w = new ByteWriter(4 + values.length * 8).u16(ZIP64_EXTRA).u16(values.length * 8);
+  values.forEach(v => w.u64(v));
+  return new Uint8Array(w.buffer);
+};
+
+/** Builds the archive as a Blob; Blob inputs are only read to checksum them, never copied. */
+export const createZip = async (inputs: ZipEntryInput[], modified: Date = new Date()): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const parts: BlobPart[] = [];
+  const entries: PreparedEntry[] = [];
+  let offset = 0;
+
+  for (const input of inputs) {
+      const source = input.data instanceof Blob ? input.data : new Blob([typeof input.data === 'string' ? encoder.encode(input.data) : input.data]);
+      const crc = await blobCrc(source);
+      let data = source;
+      let method = METHOD_STORE;
+      if (input.compress && canDeflate()) {
+          const deflated = await pipeBlob(source, new CompressionStream('deflate-raw'));
+          if (deflated.size < source.size) {
+              data = deflated;
+              method = METHOD_DEFLATE;
+          }
+      }
+      const entry: PreparedEntry = { name: encoder.encode(input.path), data, method, crc, size: source.size, compressedSize: data.size, offset };
+      const zip64 = entry.size >= MAX32 || entry.compressedSize >= MAX32;
+      const extra = zip64 ? zip64Extra([entry.size, entry.compressedSize]) : new Uint8Array(0);
+      const header = new ByteWriter(30 + entry.name.length + extra.length)
+          .u32(SIG_LOCAL).u16(zip64 ? 45 : 20).u16(FLAG_UTF8).u16(method).u16(time).u16(date).u32(crc)
+          .u32(zip64 ? MAX32 : entry.compressedSize).u32(zip64 ? MAX32 : entry.size)
+          .u16(entry.name.length).u16(extra.length).raw(entry.name).raw(extra);
+      parts.push(header.buffer, data);
+      offset += header.buffer.byteLength + data.size;
+      entries.push(entry);
+  }
+
+  const centralOffset = offset;
+  for (const e of entries) {
+      const big = [e.size >= MAX32, e.compressedSize >= MAX32, e.offset >= MAX32];
+      const extraValues = [e.size, e.compressedSize, e.offset].filter((_, i) => big[i]);
+      const extra = extraValues.length ? zip64Extra(extraValues) : new Uint8Array(0);
+      const header = new ByteWriter(46 + e.name.length + extra.length)
+          .u32(SIG_CENTRAL).u16(45).u16(extraValues.length ? 45 : 20).u16(FLAG_UTF8).u16(e.method).u16(time).u16(date).u32(e.crc)
+          .u32(big[1] ? MAX32 : e.compressedSize).u32(big[0] ? MAX32 : e.size)
+          .u16(e.name.length).u16(extra.length).u16(0).u16(0).u16(0).u32(0).u32(big[2] ? MAX32 : e.offset)
+          .raw(e.name).raw(extra);
+      parts.push(header.buffer);
+      offset += header.buffer.byteLength;
+  }
+  const centralSize = offset - centralOffset;
+
+  if (entries.length >= MAX16 || centralOffset >= MAX32 || centralSize >= MAX32) {
+      parts.push(new ByteWriter(56 + 20)
+          .u32(SIG_END64).u64(44).u16(45).u16(45).u32(0).u32(0).u64(entries.length).u64(entries.length).u64(centralSize).u64(centralOffset)
+          .u32(SIG_LOCATOR64).u32(0).u64(offset).u32(1)
+          .buffer);
+  }
+  parts.push(new ByteWriter(END_SIZE)
+      .u32(SIG_END).u16(0).u16(0).u16(Math.min(entries.length, MAX16)).u16(Math.min(entries.length, MAX16))
+      .u32(Math.min(centralSize, MAX32)).u32(Math.min(centralOffset, MAX32)).u16(0)
+      .buffer);
+
+  return new Blob(parts, { type: 'application/zip' });
+};
+
+// --- READER ---
+
+const readView = async (blob: Blob, start: number, end: number) => new DataView(await blob.slice(start, end).arrayBuffer());
+const u64 = (view: DataView, pos: number) => Number(view.getBigUint64(pos, true));
+
+interface CentralEntry {
+  method: number;
+  compressedSize: number;
+  offset: number;
+}
+
+/** Reads the central directory; entry data is sliced from the archive on request. Throws on anything that is not a zip. */
+export const openZip = async (archive: Blob): Promise<ZipArchive> => {
+  const tailStart = Math.max(0, archive.size - END_SIZE - MAX_COMMENT);
+  const tail = await readView(archive, tailStart, archive.size);
+  let endPos = -1;
+  for (let i = tail.byteLength - END_SIZE; i >= 0; i--) {
+      if (tail.getUint32(i, true) === SIG_END) { endPos = i; break; }
+  }
+  if (endPos < 0) throw new Error('Not a zip archive');
+
+  let count = tail.getUint16(endPos + 10, true);
+  let centralSize = tail.getUint32(endPos + 12, true);
+  let centralOffset = tail.getUint32(endPos + 16, true);
+  if (count === MAX16 || centralSize === MAX32 || centralOffset === MAX32) {
+      const locatorPos = endPos - 20;
+      if (locatorPos < 0 || tail.getUint32(locatorPos, true) !== SIG_LOCATOR64) throw new Error('Zip64 locator missing');
+      const end64Offset = u64(tail, locatorPos + 8);
+      const end64 = await readView(archive, end64Offset, end64Offset + 56);
+      if (end64.getUint32(0, true) !== SIG_END64) throw new Error('Zip64 end record missing');
+      count = u64(end64, 32);
+      centralSize = u64(end64, 40);
+      centralOffset = u64(end64, 48);
+  }
+
+  const decoder = new TextDecoder();
+  const central = await readView(archive, centralOffset, centralOffset + centralSize);
+  const entries = new Map<string, CentralEntry>();
+  let pos = 0;
+  for (let i = 0; i < count; i++) {
+      if (pos + 46 > central.byteLength || central.getUint32(pos, true) !== SIG_CENTRAL) throw new Error('Corrupt zip directory');
+      const method = central.getUint16(pos + 10, true);
+      let compressedSize = central.getUint32(pos + 20, true);
+      let size = central.getUint32(pos + 24, true);
+      const nameLength = central.getUint16(pos + 28, true);
+      const extraLength = central.getUint16(pos + 30, true);
+      const commentLength = central.getUint16(pos + 32, true);
+      let offset = central.getUint32(pos + 42, true);
+      const name = decoder.decode(new Uint8Array(central.buffer, central.byteOffset + pos + 46, nameLength));
+
+      // ZIP64 extra: only the fields that overflowed, in this order
+      let extraPos = pos + 46 + nameLength;
+      const extraEnd = extraPos + extraLength;
+      while (extraPos + 4 <= extraEnd) {
+          const id = central.getUint16(extraPos, true);
+          const length = central.getUint16(extraPos + 2, true);
+          if (id === ZIP64_EXTRA) {
+              let p = extraPos + 4;
+              if (size === MAX32) { size = u64(central, p); p += 8; }
+              if (compressedSize === MAX32) { compressedSize = u64(central, p); p += 8; }
+              if (offset === MAX32) offset = u64(central, p);
+          }
+          extraPos += 4 + length;
+      }
+      if (!name.endsWith('/')) entries.set(name, { method, compressedSize, offset });
+      pos = extraEnd + commentLength;
+  }
+
+  const file = async (path: string): Promise<Blob | null> => {
+      const entry = entries.get(path);
+      if (!entry) return null;
+      const local = await readView(archive, entry.offset, entry.offset + 30);
+      if (local.getUint32(0, true) !== SIG_LOCAL) throw new Error(`Corrupt zip entry: ${path}`);
+      const start = entry.offset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+      const data = archive.slice(start, start + entry.compressedSize);
+      if (entry.method === METHOD_STORE) return data;
+      if (entry.method === METHOD_DEFLATE) return pipeBlob(data, new DecompressionStream('deflate-raw'));
+      throw new Error(`Unsupported zip compression (method ${entry.method}): ${path}`);
+  };
+
+  return {
+      paths: Array.from(entries.keys()),
+      file,
+      text: async (path) => {
+          const blob = await file(path);
+          return blob ? blob.text() : null;
+      },
+  };
+};
@@ -0,0 +1,64 @@
+
+import { Rect, TriggerStep } from '../types';
+import { MatPayload } from '../utils/vision';
+import { DetectorConfig } from '../utils/cycleDetector';
+import { VisionRequest, VisionResponse, VisionZone, FrameResult, PoseModel } from './visionProtocol';
+
+export interface VisionClient {
+  init: (
+    zones: VisionZone[],
+    anchor: { rect: Rect, template: MatPayload } | null,
+    detector: { steps: TriggerStep[], config: DetectorConfig } | null
+  ) => Promise<void>;
+  initPose: (model: PoseModel) => Promise<void>;
+  setDetectorConfig: (config: DetectorConfig) => Promise<void>;
+  process: (time: number, bitmap: ImageBitmap, options: { zones?: boolean, pose?: boolean }) => Promise<FrameResult>;
+  dispose: () => void;
+}
+
+/**
+ * Spawns a vision worker. The worker answers requests strictly in order, so
+ * replies are matched to a FIFO queue of pending promises.
+ */
+export const createVisionClient = (): VisionClient => {
+  const worker = new Worker(new URL('./visionWorker.ts', import.meta.url), { type: 'module' });
+  const pending: { resolve: (msg: VisionResponse) => void, reject: (err: Error) => void }[] = [];
+
+  worker.onmessage = (e: MessageEvent<VisionResponse>) => {
+    const next = pending.shift();
+    if (!next) return;
+    if (e.data.type === 'error') next.reject(new Error(e.data.message));
+    else next.resolve(e.data);
+  };
+  worker.onerror = (e) => {
+    pending.splice(0).forEach(p => p.reject(new Error(e.message || 'Vision worker crashed')));
+  };
+
+  const request = (msg: VisionRequest, transfer: Transferable[] = []) => new Promise<VisionResponse>((resolve, reject) => {
+    pending.push({ resolve, reject });
+    worker.postMessage(msg, transfer);
+  });
+
+  return {
+    async init(zones, anchor, detector) {
+      await request({ type: 'init', zones, anchor, detector });
+    },
+    async initPose(model) {
+      await request({ type: 'initPose', model });
+    },
+    async setDetectorConfig(config) {
+      await request({ type: 'setDetectorConfig', config });
+    },
+    async process(time, bitmap, options) {
+      const res = await request({ type: 'frame', time, bitmap, scoreZones: !!options.zones, detectPose: !!options.pose }, [bitmap]);
+      if (res.type !== 'frame') throw new Error(`Unexpected worker reply: ${res.type}`);
+      const { type, ...result } = res;
+      return result;
+    },
+    dispose() {
+      worker.postMessage({ type: 'dispose' } as VisionRequest);
+      pending.splice(0).forEach(p => p.reject(new Error('Vision worker disposed')));
+      setTimeout(() => worker.terminate(), 1000);
+    },
+  };
+};
@@ -0,0 +1,62 @@
+
+import { Rect, Point, TriggerStep } from '../types';
+import { MatPayload } from '../utils/vision';
+import { DetectorConfig, DetectorEvent, DetectorState } from '../utils/cycleDetector';
+
+// Typed message protocol between the UI thread and workers/visionWorker.ts.
+// Every request gets exactly one reply, in order ('ready', 'frame' or 'error').
+
+// --- MESSAGES: UI THREAD -> WORKER ---
+
+export interface VisionZone {
+  id: string;
+  rect: Rect;
+  reference: MatPayload; // Blurred grayscale empty-state model
+  adaptive: boolean;     // Keep updating the reference while the zone is idle
+  normalizeExposure: boolean;
+}
+
+export type PoseModel = 'lite' | 'full'; // PoseLandmarker model: lite for speed, full for accuracy
+
+export type VisionRequest =
+  | {
+      type: 'init';
+      zones: VisionZone[];
+      anchor: { rect: Rect; template: MatPayload } | null;
+      detector: { steps: TriggerStep[]; config: DetectorConfig } | null; // null = scores only
+    }
+  | { type: 'initPose'; model: PoseModel }
+  | { type: 'setDetectorConfig'; config: DetectorConfig }
+  | { type: 'frame'; time: number; bitmap: ImageBitmap; scoreZones: boolean; detectPose: boolean }
+  | { type: 'dispose' };
+
+// --- MESSAGES: WORKER -> UI THREAD ---
+
+// Normalized image coordinates, same 33-point layout as the legacy Pose bundle
+export interface PoseLandmark {
+  x: number;
+  y: number;
+  z: number;
+  visibility?: number;
+}
+
+export interface ZoneScores {
+  time: number;
+  raw: number[];        // Change score per zone in 'init' order; empty while tracking is lost
+  smooth: number[];     // EMA of raw, same order
+  offset: Point;        // Anchor tracking offset applied to the zones
+  trackingLost: boolean;
+}
+
+export interface FrameResult {
+  time: number;
+  zones: ZoneScores | null;
+  detector: DetectorState | null; // Sequence state after this frame
+  events: DetectorEvent[];        // Hits/cycles raised by this frame
+  landmarks: PoseLandmark[] | null; // First detected pose; null when not requested or nobody is in view
+}
+
+export type VisionResponse =
+  | { type: 'ready' }
+  | ({ type: 'frame' } & FrameResult)
+  | { type: 'error'; message: string };
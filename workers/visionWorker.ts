@@ -0,0 +1,205 @@
+
+import { FilesetResolver, PoseLandmarker } from '@mediapipe/tasks-vision';
+import { VisionRequest, VisionResponse, VisionZone, FrameResult, PoseModel } from './visionProtocol';
+import { CV_CONFIG, safeDelete, matFromPayload, calculateChangeScore, adaptReferenceMat, trackAnchor } from '../utils/vision';
+import { DetectorConfig, DetectorEvent, DetectorState, createDetectorState, stepDetector } from '../utils/cycleDetector';
+import { Rect, Point, TriggerStep } from '../types';
+
+// Runs OpenCV zone scoring, the cycle state machine and pose detection off the
+// UI thread. Frames arrive as transferred ImageBitmaps. Pose uses the MediaPipe
+// Tasks PoseLandmarker, which renders to its own OffscreenCanvas (the legacy
+// Pose bundle needs `document`, so it cannot run here).
+
+const ctx: Worker = self as any;
+const OPENCV_URL = 'https://docs.opencv.org/4.8.0/opencv.js';
+const POSE_WASM_URL = 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@1.0.1/wasm'; // Same version as the package in package.json
+const POSE_MODEL_URLS: Record<PoseModel, string> = {
+    lite: 'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task',
+    full: 'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_full/float16/1/pose_landmarker_full.task',
+};
+
+let cv: any = null;
+let canvas: OffscreenCanvas | null = null;
+
+// Zone pipeline state
+let zones: { id: string, rect: Rect, ref: any, adaptive: boolean, normalizeExposure: boolean }[] = [];
+let anchor: { rect: Rect, mat: any } | null = null;
+let offset: Point = { x: 0, y: 0 };
+let trackingLost = false;
+let smooth: number[] = [];
+
+// Cycle state machine
+let steps: TriggerStep[] = [];
+let detectorConfig: DetectorConfig | null = null;
+let detector: DetectorState | null = null;
+
+// Pose
+let pose: PoseLandmarker | null = null;
+let poseModel: PoseModel | null = null;
+let poseTimestamp = 0; // VIDEO mode needs strictly increasing timestamps, even when the video rewinds
+
+const post = (msg: VisionResponse) => ctx.postMessage(msg);
+
+// Vite builds this as a module worker, which has no importScripts: the
+// script is fetched and evaluated in the worker's global scope instead.
+const loadScript = async (url: string) => {
+    const code = await (await fetch(url)).text();
+    (0, eval)(code);
+};
+
+const loadOpenCv = async () => {
+    if (cv) return;
+    (self as any).Module = { arguments: [] };
+    await loadScript(OPENCV_URL);
+    let instance = (self as any).cv;
+    if (instance instanceof Promise) instance = await instance;
+    await new Promise<void>((resolve, reject) => {
+        let retries = 0;
+        const check = () => {
+            if (instance && instance.Mat) resolve();
+            else if (++retries > 60) reject(new Error("OpenCV failed to initialize in worker"));
+            else setTimeout(check, 500);
+        };
+        check();
+    });
+    cv = instance;
+};
+
+const releaseModels = () => {
+    zones.forEach(z => safeDelete(z.ref));
+    zones = [];
+    if (anchor) safeDelete(anchor.mat);
+    anchor = null;
+    offset = { x: 0, y: 0 };
+    trackingLost = false;
+    smooth = [];
+};
+
+const init = async (zoneDefs: VisionZone[], anchorDef: { rect: Rect, template: any } | null, detectorDef: { steps: TriggerStep[], config: DetectorConfig } | null) => {
+    await loadOpenCv();
+    releaseModels();
+    zones = zoneDefs.map(z => ({ id: z.id, rect: z.rect, ref: matFromPayload(cv, z.reference), adaptive: z.adaptive, normalizeExposure: z.normalizeExposure }));
+    smooth = zones.map(() => 0);
+    if (anchorDef) anchor = { rect: anchorDef.rect, mat: matFromPayload(cv, anchorDef.template) };
+
+    steps = detectorDef?.steps || [];
+    detectorConfig = detectorDef?.config || null;
+    detector = detectorDef ? createDetectorState(steps.length) : null;
+    post({ type: 'ready' });
+};
+
+const createPoseLandmarker = async (model: PoseModel) => {
+    const fileset = await FilesetResolver.forVisionTasks(POSE_WASM_URL);
+    const options = (delegate: 'GPU' | 'CPU') => ({
+        baseOptions: { modelAssetPath: POSE_MODEL_URLS[model], delegate },
+        runningMode: 'VIDEO' as const,
+        numPoses: 1,
+        minPoseDetectionConfidence: 0.5,
+        minPosePresenceConfidence: 0.5,
+        minTrackingConfidence: 0.5,
+    });
+    try {
+        return await PoseLandmarker.createFromOptions(fileset, options('GPU'));
+    } catch (e) {
+        console.warn("Pose GPU delegate unavailable, using CPU", e);
+        return PoseLandmarker.createFromOptions(fileset, options('CPU'));
+    }
+};
+
+const initPose = async (model: PoseModel) => {
+    if (!pose || poseModel !== model) {
+        pose?.close();
+        pose = null;
+        pose = await createPoseLandmarker(model);
+        poseModel = model;
+    }
+    post({ type: 'ready' });
+};
+
+const detectPose = (bitmap: ImageBitmap): FrameResult['landmarks'] => {
+    poseTimestamp = Math.max(poseTimestamp + 1, performance.now());
+    const result = pose!.detectForVideo(bitmap, poseTimestamp);
+    const first = result.landmarks[0];
+    return first ? first.map(({ x, y, z, visibility }) => ({ x, y, z, visibility })) : null;
+};
+
+const scoreZones = (image: OffscreenCanvasRenderingContext2D, time: number): Pick<FrameResult, 'zones' | 'events'> => {
+    const src = cv.matFromImageData(image.getImageData(0, 0, image.canvas.width, image.canvas.height));
+    const gray = new cv.Mat();
+    cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY);
+
+    if (anchor) {
+        const tracked = trackAnchor(cv, src, anchor.mat, anchor.rect, offset);
+        if (tracked) {
+            offset = tracked.offset;
+            trackingLost = tracked.lost;
+        }
+    }
+
+    let raw: number[] = [];
+    let events: DetectorEvent[] = [];
+    if (!trackingLost) {
+        const alpha = CV_CONFIG.EMA_ALPHA;
+        raw = zones.map(z => calculateChangeScore(cv, gray, z.ref, z.rect, offset, { normalizeExposure: z.normalizeExposure }));
+        smooth = raw.map((r, i) => (alpha * r) + ((1 - alpha) * (smooth[i] || 0)));
+        if (detector && detectorConfig) {
+            const result = stepDetector(detector, smooth, time, steps, detectorConfig);
+            detector = result.state;
+            events = result.events;
+
+            // Adaptive references learn only from idle zones
+            zones.forEach((z, i) => {
+                if (z.adaptive && !detector!.zoneActive[i] && smooth[i] < detectorConfig!.lowThreshold) {
+                    adaptReferenceMat(cv, gray, z.ref, z.rect, offset);
+                }
+            });
+        }
+    }
+    safeDelete(src); safeDelete(gray);
+    return { zones: { time, raw, smooth: [...smooth], offset, trackingLost }, events };
+};
+
+const processFrame = (time: number, bitmap: ImageBitmap, withZones: boolean, withPose: boolean) => {
+    const result: FrameResult = { time, zones: null, detector: null, events: [], landmarks: null };
+
+    if (withPose && pose) result.landmarks = detectPose(bitmap);
+
+    if (withZones && cv) {
+        if (!canvas || canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+            canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+        }
+        const c2d = canvas.getContext('2d', { willReadFrequently: true }) as OffscreenCanvasRenderingContext2D;
+        c2d.drawImage(bitmap, 0, 0);
+        Object.assign(result, scoreZones(c2d, time));
+        result.detector = detector;
+    }
+
+    bitmap.close();
+    post({ type: 'frame', ...result });
+};
+
+const handleMessage = async (msg: VisionRequest) => {
+    try {
+        switch (msg.type) {
+            case 'init': await init(msg.zones, msg.anchor, msg.detector); break;
+            case 'initPose': await initPose(msg.model); break;
+            case 'setDetectorConfig': detectorConfig = msg.config; post({ type: 'ready' }); break;
+            case 'frame': processFrame(msg.time, msg.bitmap, msg.scoreZones, msg.detectPose); break;
+            case 'dispose':
+                releaseModels();
+                pose?.close();
+                pose = null;
+                self.close();
+                break;
+        }
+    } catch (err: any) {
+        if (msg.type === 'frame') msg.bitmap.close();
+        post({ type: 'error', message: err?.message || String(err) });
+    }
+};
+
+// Requests are handled one at a time so replies keep the order of requests.
+let queue: Promise<void> = Promise.resolve();
+ctx.onmessage = (e: MessageEvent<VisionRequest>) => {
+    queue = queue.then(() => handleMessage(e.data));
+};